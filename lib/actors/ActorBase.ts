@@ -1,7 +1,9 @@
 import { AssetManagerEvents } from "../fasset/IAssetContext";
 import { TrackedState } from "../state/TrackedState";
 import { ExtractedEventArgs } from "../utils/events/common";
+import { EventScope } from "../utils/events/ScopedEvents";
 import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { callContractMethod, ContractMethodArgs, ContractMethodName, SubmitOptions, TransactionSubmitter } from "../utils/transaction-submitter";
 
 export class ActorBase {
     constructor(
@@ -13,11 +15,55 @@ export class ActorBase {
     context = this.state.context;
     truffleEvents = this.state.truffleEvents;
     chainEvents = this.state.chainEvents;
+    clock = this.state.clock;
+
+    // actor's event subscriptions, released by `stop()`
+    subscriptions = new EventScope();
+
+    // if set, transactions are sent through the shared submitter (nonce tracking, retries, gas price bumping)
+    submitter?: TransactionSubmitter;
 
     assetManagerEvent<N extends AssetManagerEvents['name']>(event: N, filter?: Partial<ExtractedEventArgs<AssetManagerEvents, N>>) {
         return this.truffleEvents.event(this.context.assetManager, event, filter);
     }
 
+    /**
+     * Send the transaction through the submitter if set, otherwise directly through the truffle contract.
+     * Returns the receipt with raw logs in both cases.
+     */
+    async sendTransaction<C extends Truffle.ContractInstance, M extends ContractMethodName<C>>(contract: C, method: M, args: ContractMethodArgs<C, M>, options: SubmitOptions) {
+        if (this.submitter) {
+            return await this.submitter.submit(contract, method, args, options);
+        } else {
+            return await callContractMethod(contract, method, args, options);
+        }
+    }
+
+    // cached results of isAgentVaultOwner
+    private agentVaultOwnership = new Map<string, Promise<boolean>>();
+
+    /**
+     * True if `address` is the management or work address of the agent vault's owner (the addresses the asset manager
+     * accepts as the owner). The result is cached per vault, so owner's work address changes are not noticed.
+     */
+    async isAgentVaultOwner(agentVault: string, address: string) {
+        const key = `${agentVault}:${address}`;
+        const cached = this.agentVaultOwnership.get(key);
+        if (cached != null) return await cached;
+        const ownership = this.context.assetManager.getAgentInfo(agentVault)
+            .then(agentInfo => agentInfo.ownerManagementAddress === address || agentInfo.ownerWorkAddress === address);
+        ownership.catch(() => this.agentVaultOwnership.delete(key));    // retry next time
+        this.agentVaultOwnership.set(key, ownership);
+        return await ownership;
+    }
+
+    /**
+     * Unsubscribe from all events. Threads already started in the runner are not affected (use `runner.stop()`).
+     */
+    stop() {
+        this.subscriptions.finish();
+    }
+
     formatAddress(address: string) {
         return this.state.eventFormatter.formatAddress(address);
     }
@@ -0,0 +1,140 @@
+import { AssetManagerControllerInstance } from "../../typechain-truffle";
+import { IAssetContext } from "../fasset/IAssetContext";
+import { PriceMonitor } from "../state/PriceMonitor";
+import { TrackedState } from "../state/TrackedState";
+import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { filterStackTrace } from "../utils/helpers";
+import { ILogger } from "../utils/logging";
+import { ActorBase } from "./ActorBase";
+
+export interface SupervisedAssetManager {
+    address: string;
+    context: IAssetContext;
+    state: TrackedState;
+    runner: ScopedRunner;
+    actors: ActorBase[];
+    priceMonitor?: PriceMonitor;
+}
+
+/**
+ * Creates the per-asset-manager services. Building the context needs chain specific parts
+ * (underlying chain, wallet, attestation client), which only the service setup knows.
+ */
+export interface AssetManagerServiceFactory {
+    createContext(assetManagerAddress: string): Promise<IAssetContext>;
+
+    // create and initialize tracked state
+    createTrackedState(context: IAssetContext): Promise<TrackedState>;
+
+    createActors(runner: ScopedRunner, state: TrackedState): ActorBase[];
+
+    // release tracked state's event sources etc. when asset manager is removed or restarted
+    // (actors' subscriptions and the runner are stopped by the supervisor)
+    destroy?(manager: SupervisedAssetManager): Promise<void>;
+}
+
+/**
+ * Runs tracked state, actors and price monitor for every asset manager registered in the asset manager controller.
+ * The controller emits no events on adding/removing asset managers, so the list is polled.
+ * Each asset manager has its own runner, so a failure in one of them doesn't affect the others;
+ * an asset manager whose startup failed or whose threads threw more than `maxErrors` errors since the previous refresh
+ * is restarted on the next refresh.
+ */
+export class AssetManagerSupervisor {
+    constructor(
+        public controller: AssetManagerControllerInstance,
+        public factory: AssetManagerServiceFactory,
+    ) { }
+
+    refreshIntervalMS = 60_000;
+    maxErrors = 10;
+    logger?: ILogger;
+
+    managers = new Map<string, SupervisedAssetManager>();
+    private refreshTimer?: NodeJS.Timeout;
+
+    start() {
+        const refreshLoop = () => {
+            void this.refresh()
+                .catch(e => this.log(`SUPERVISOR refresh failed: ${filterStackTrace(e)}`))
+                .finally(() => {
+                    if (this.refreshTimer) this.refreshTimer = setTimeout(refreshLoop, this.refreshIntervalMS);
+                });
+        };
+        this.refreshTimer = setTimeout(refreshLoop, 0);
+    }
+
+    async stop() {
+        clearTimeout(this.refreshTimer);
+        this.refreshTimer = undefined;
+        for (const address of Array.from(this.managers.keys())) {
+            await this.stopManager(address);
+        }
+    }
+
+    /**
+     * Synchronize running asset managers with the controller's list and restart the failing ones.
+     */
+    async refresh() {
+        const addresses = new Set(await this.controller.getAssetManagers());
+        for (const address of Array.from(this.managers.keys())) {
+            if (!addresses.has(address)) {
+                this.log(`SUPERVISOR asset manager ${address} removed`);
+                await this.stopManager(address);
+            }
+        }
+        for (const address of addresses) {
+            const manager = this.managers.get(address);
+            // only count the errors since the previous refresh
+            const errorCount = manager ? manager.runner.uncaughtErrors.splice(0).length : 0;
+            if (errorCount > this.maxErrors) {
+                this.log(`SUPERVISOR restarting asset manager ${address} after ${errorCount} errors`);
+                await this.stopManager(address);
+            }
+            if (!this.managers.has(address)) {
+                await this.startManager(address)
+                    .catch(e => this.log(`SUPERVISOR failed to start asset manager ${address}: ${filterStackTrace(e)}`));
+            }
+        }
+    }
+
+    async startManager(address: string) {
+        const context = await this.factory.createContext(address);
+        const state = await this.factory.createTrackedState(context);
+        const runner = new ScopedRunner();
+        runner.logError = e => this.log(`SUPERVISOR error in asset manager ${address}: ${filterStackTrace(e)}`);
+        const manager: SupervisedAssetManager = { address, context, state, runner, actors: [] };
+        try {
+            manager.actors = this.factory.createActors(runner, state);
+        } catch (e) {
+            // the manager isn't registered, so it is started again on the next refresh
+            await this.destroyManager(manager);
+            throw e;
+        }
+        manager.priceMonitor = new PriceMonitor(state);
+        manager.priceMonitor.start();
+        this.managers.set(address, manager);
+        this.log(`SUPERVISOR started asset manager ${address} (${context.chainInfo.symbol}) with ${manager.actors.length} actors`);
+    }
+
+    async stopManager(address: string) {
+        const manager = this.managers.get(address);
+        if (!manager) return;
+        this.managers.delete(address);
+        await this.destroyManager(manager);
+    }
+
+    private async destroyManager(manager: SupervisedAssetManager) {
+        manager.priceMonitor?.stop();
+        for (const actor of manager.actors) {
+            actor.stop();
+        }
+        manager.runner.stop();
+        await this.factory.destroy?.(manager)
+            .catch(e => this.log(`SUPERVISOR error stopping asset manager ${manager.address}: ${filterStackTrace(e)}`));
+    }
+
+    private log(text: string) {
+        this.logger?.log(text);
+    }
+}
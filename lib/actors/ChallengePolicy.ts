@@ -0,0 +1,99 @@
+import { TrackedAgentState } from "../state/TrackedAgentState";
+import { BN_ZERO, MAX_BIPS, exp10, minBN, sumBN, toBN } from "../utils/helpers";
+
+const MAX_NEGATIVE_BALANCE_REPORT = 50;  // maximum number of transactions to report in freeBalanceNegativeChallenge to avoid breaking block gas limit
+
+export type ChallengeType = 'illegalPayment' | 'doublePayment' | 'freeBalanceNegative';
+
+export type ChallengeDecision = 'challenge' | 'defer' | 'skip';
+
+export interface SpentTransaction {
+    txHash: string;
+    spent: BN;
+}
+
+export interface IChallengePolicy {
+    // Decide whether to issue the challenge now, retry later (e.g. when gas is cheaper) or drop it.
+    decide(type: ChallengeType, agent: TrackedAgentState, proofCount: number): Promise<ChallengeDecision>;
+
+    // Choose the transactions to prove in freeBalanceNegativeChallenge.
+    selectNegativeBalanceTransactions(transactions: SpentTransaction[], freeBalanceUBA: BN): SpentTransaction[];
+}
+
+/**
+ * Issue every detected challenge, reporting the transactions with the highest spent amounts.
+ */
+export class AlwaysChallengePolicy implements IChallengePolicy {
+    async decide(type: ChallengeType, agent: TrackedAgentState, proofCount: number): Promise<ChallengeDecision> {
+        return 'challenge';
+    }
+
+    selectNegativeBalanceTransactions(transactions: SpentTransaction[], freeBalanceUBA: BN) {
+        return sortBySpentDescending(transactions).slice(0, MAX_NEGATIVE_BALANCE_REPORT);
+    }
+}
+
+/**
+ * Only issue challenges whose expected reward (in NAT) exceeds the estimated gas cost by at least `minProfitNATWei`.
+ * Uneconomic challenges are deferred while the agent still has backing (so the reward may grow or gas may get cheaper)
+ * and skipped otherwise.
+ */
+export class EconomicChallengePolicy implements IChallengePolicy {
+    constructor(
+        public getGasPrice: () => Promise<BN>,
+    ) { }
+
+    minProfitNATWei = BN_ZERO;
+
+    // gas estimates per challenge
+    gasPerChallenge: Record<ChallengeType, number> = {
+        illegalPayment: 400_000,
+        doublePayment: 500_000,
+        freeBalanceNegative: 300_000,
+    };
+    gasPerProof = 150_000;
+
+    async decide(type: ChallengeType, agent: TrackedAgentState, proofCount: number): Promise<ChallengeDecision> {
+        const rewardNATWei = this.expectedRewardNATWei(agent);
+        const gas = this.gasPerChallenge[type] + proofCount * this.gasPerProof;
+        const gasCostNATWei = (await this.getGasPrice()).muln(gas);
+        if (rewardNATWei.sub(gasCostNATWei).gte(this.minProfitNATWei)) return 'challenge';
+        return agent.mintedUBA.isZero() ? 'skip' : 'defer';
+    }
+
+    /**
+     * Challenger reward, as paid in Challenges._liquidateAndRewardChallenger, converted to NAT.
+     */
+    expectedRewardNATWei(agent: TrackedAgentState) {
+        const state = agent.parent;
+        const vaultPrice = state.prices.get(agent.vaultCollateral);
+        const natPrice = state.prices.get(agent.poolWNatCollateral);
+        const backingRewardUBA = agent.mintedUBA.mul(toBN(state.settings.paymentChallengeRewardBIPS)).divn(MAX_BIPS);
+        const rewardVaultWei = vaultPrice.convertUBAToTokenWei(backingRewardUBA).add(this.convertUSD5ToVaultCollateralWei(agent));
+        const paidVaultWei = minBN(rewardVaultWei, agent.totalVaultCollateralWei);
+        return natPrice.convertUBAToTokenWei(vaultPrice.convertTokenWeiToUBA(paidVaultWei));
+    }
+
+    private convertUSD5ToVaultCollateralWei(agent: TrackedAgentState) {
+        const rewardUSD5 = toBN(agent.parent.settings.paymentChallengeRewardUSD5);
+        const collateral = agent.vaultCollateral;
+        // same as Conversion.convertFromUSD5 - without token price, the token is assumed to be a USD stablecoin
+        if (!collateral.tokenFtsoSymbol) return rewardUSD5;
+        const tokenPrice = agent.parent.prices.get(collateral).tokenPrice!;
+        return rewardUSD5.mul(exp10(toBN(collateral.decimals).add(tokenPrice.decimals).subn(5))).div(tokenPrice.price);
+    }
+
+    // the smallest set of transactions that makes the free balance negative is the cheapest to prove
+    selectNegativeBalanceTransactions(transactions: SpentTransaction[], freeBalanceUBA: BN) {
+        const sorted = sortBySpentDescending(transactions).slice(0, MAX_NEGATIVE_BALANCE_REPORT);
+        for (let count = 1; count <= sorted.length; count++) {
+            const selected = sorted.slice(0, count);
+            if (sumBN(selected, tx => tx.spent).gt(freeBalanceUBA)) return selected;
+        }
+        return sorted;
+    }
+}
+
+function sortBySpentDescending(transactions: SpentTransaction[]) {
+    return [...transactions].sort((a, b) => a.spent.gt(b.spent) ? -1 : a.spent.lt(b.spent) ? 1 : 0);
+}
@@ -4,16 +4,17 @@ import { PaymentReference } from "../fasset/PaymentReference";
 import { TrackedAgentState } from "../state/TrackedAgentState";
 import { TrackedState } from "../state/TrackedState";
 import { AttestationHelperError } from "../underlying-chain/AttestationHelper";
-import { ITransaction } from "../underlying-chain/interfaces/IBlockChain";
+import { IBlockId, ITransaction, TxInputOutput } from "../underlying-chain/interfaces/IBlockChain";
 import { EvmEventArgs } from "../utils/events/IEvmEvents";
 import { EventScope } from "../utils/events/ScopedEvents";
 import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { EvmEvent } from "../utils/events/common";
 import { formatBN, getOrCreate, sleep, sumBN, toBN } from "../utils/helpers";
+import { IPersistentStore } from "../utils/persistent-store";
 import { ActorBase } from "./ActorBase";
+import { AlwaysChallengePolicy, ChallengeDecision, ChallengeType, IChallengePolicy, SpentTransaction } from "./ChallengePolicy";
 
-const MAX_NEGATIVE_BALANCE_REPORT = 50;  // maximum number of transactions to report in freeBalanceNegativeChallenge to avoid breaking block gas limit
-
-interface ActiveRedemption {
+export interface ActiveRedemption {
     agentAddress: string;
     amount: BN;
     // underlying block and timestamp after which the redemption payment is invalid and can be challenged
@@ -21,13 +22,27 @@ interface ActiveRedemption {
     validUntilTimestamp: BN;
 };
 
+// serializable snapshot of the challenger's tracking state
+export interface ChallengerCheckpoint {
+    lastEvmBlock: number;
+    lastUnderlyingBlock: number;
+    activeRedemptions: Array<[paymentReference: string, redemption: ActiveRedemption]>;
+    transactionForPaymentReference: Array<[paymentReference: string, txHash: string]>;
+    unconfirmedTransactions: Array<[agentVault: string, transactions: ITransaction[]]>;
+}
+
+// keys that have to be converted back to BN when the checkpoint is loaded from JSON
+export const CHALLENGER_CHECKPOINT_BN_KEYS = ['amount', 'validUntilBlock', 'validUntilTimestamp'];
+
 export class Challenger extends ActorBase {
     constructor(
         runner: ScopedRunner,
         state: TrackedState,
         public address: string,
+        public checkpointStore?: IPersistentStore<ChallengerCheckpoint>,
     ) {
         super(runner, state);
+        this.restoreCheckpoint();
         this.registerForEvents();
     }
 
@@ -36,13 +51,49 @@ export class Challenger extends ActorBase {
     unconfirmedTransactions = new Map<string, Map<string, ITransaction>>();         // agentVaultAddress => (txHash => transaction)
     challengedAgents = new Set<string>();
 
+    policy: IChallengePolicy = new AlwaysChallengePolicy();
+    deferredChallenges = new Map<string, () => void>();   // key => restart challenge
+    deferredDecisions = new Map<string, ChallengeDecision>();   // key => last decision for challenges that were deferred
+
+    // last completely processed blocks; after restart, the event sources have to resume from the blocks after them (see `resumeBlocks`)
+    lastEvmBlock = 0;
+    lastUnderlyingBlock = 0;
+
+    /**
+     * The blocks from which the event sources have to resume after restart, so that the events that happened
+     * while the challenger was stopped are not missed. Returns undefined if there is no checkpoint.
+     * The EVM block is the `fromBlock` of the tracked state's CatchupEvmEvents (and the challenger must be created
+     * before `initializeWithCatchup`, to receive the replayed events), the underlying block is the `fromBlock` of the underlying polling.
+     * The last (possibly partially processed) blocks are replayed, which is safe because the handlers are idempotent.
+     */
+    static resumeBlocks(checkpointStore: IPersistentStore<ChallengerCheckpoint>): { evmBlock: number, underlyingBlock: number } | undefined {
+        const checkpoint = checkpointStore.load();
+        if (checkpoint == null) return undefined;
+        return { evmBlock: checkpoint.lastEvmBlock + 1, underlyingBlock: checkpoint.lastUnderlyingBlock + 1 };
+    }
+
     registerForEvents() {
-        this.chainEvents.transactionEvent().subscribe(transaction => this.handleUnderlyingTransaction(transaction));
-        this.assetManagerEvent('RedemptionRequested').subscribe(args => this.handleRedemptionRequested(args));
-        this.assetManagerEvent('RedemptionPerformed').subscribe(args => this.handleRedemptionFinished(args));
-        this.assetManagerEvent('RedemptionPaymentBlocked').subscribe(args => this.handleRedemptionFinished(args));
-        this.assetManagerEvent('RedemptionPaymentFailed').subscribe(args => this.handleRedemptionFinished(args));
-        this.assetManagerEvent('UnderlyingWithdrawalConfirmed').subscribe(args => this.handleTransactionConfirmed(args.agentVault, args.transactionHash));
+        this.chainEvents.blockEvent().subscribeIn(this.subscriptions, block => this.handleUnderlyingBlock(block));
+        this.chainEvents.transactionEvent().subscribeIn(this.subscriptions, transaction => this.handleUnderlyingTransaction(transaction));
+        this.state.underlyingPaymentRemoved.subscribeIn(this.subscriptions, ({ agent, transaction }) => this.handleUnderlyingTransactionRemoved(agent, transaction));
+        this.assetManagerEvent('RedemptionRequested').subscribeIn(this.subscriptions, args => this.handleRedemptionRequested(args));
+        this.assetManagerEvent('RedemptionPerformed').subscribeIn(this.subscriptions, args => this.handleRedemptionFinished(args));
+        this.assetManagerEvent('RedemptionPaymentBlocked').subscribeIn(this.subscriptions, args => this.handleRedemptionFinished(args));
+        this.assetManagerEvent('RedemptionPaymentFailed').subscribeIn(this.subscriptions, args => this.handleRedemptionFinished(args));
+        this.assetManagerEvent('UnderlyingWithdrawalConfirmed').subscribeIn(this.subscriptions, args => {
+            this.handleTransactionConfirmed(args.agentVault, args.transactionHash);
+            this.markEvmEvent(args.$event);
+        });
+    }
+
+    handleUnderlyingBlock(block: IBlockId): void {
+        // block handlers run before the block's transactions, so only the previous block is complete
+        this.lastUnderlyingBlock = Math.max(this.lastUnderlyingBlock, block.number - 1);
+        // re-evaluate deferred challenges
+        const deferred = Array.from(this.deferredChallenges.values());
+        this.deferredChallenges.clear();
+        for (const restart of deferred) restart();
+        this.saveCheckpoint();
     }
 
     handleUnderlyingTransaction(transaction: ITransaction): void {
@@ -61,6 +112,23 @@ export class Challenger extends ActorBase {
         }
     }
 
+    // Agent's payment was dropped by underlying chain reorganization (reported once per agent by the tracked state).
+    // If it is included again, it will be reported by `handleUnderlyingTransaction`.
+    handleUnderlyingTransactionRemoved(agent: TrackedAgentState, transaction: ITransaction): void {
+        this.log(`Challenger ${this.formatAddress(this.address)}: Transaction ${transaction.hash} from ${agent.underlyingAddressString} removed by reorganization`);
+        this.deleteUnconfirmedTransaction(agent.address, transaction.hash);
+        if (transaction.reference != null && this.transactionForPaymentReference.get(transaction.reference) === transaction.hash) {
+            this.transactionForPaymentReference.delete(transaction.reference);
+        }
+        // deferred challenges that need the removed transaction's proof
+        for (const key of Array.from(this.deferredChallenges.keys())) {
+            if (key.includes(transaction.hash)) this.cancelDeferredChallenge(key);
+        }
+        // negative balance challenge might have been deferred with the removed transaction
+        this.cancelDeferredChallenge(`negative:${agent.address}`);
+        this.checkForNegativeFreeBalance(agent);
+    }
+
     handleTransactionConfirmed(agentVault: string, transactionHash: string): void {
         this.deleteUnconfirmedTransaction(agentVault, transactionHash);
         // also re-check free balance
@@ -76,15 +144,17 @@ export class Challenger extends ActorBase {
             validUntilBlock: toBN(args.lastUnderlyingBlock).add(toBN(this.state.settings.underlyingBlocksForPayment)),
             validUntilTimestamp: toBN(args.lastUnderlyingTimestamp).add(toBN(this.state.settings.underlyingSecondsForPayment)),
         });
+        this.markEvmEvent(args.$event);
     }
 
-    handleRedemptionFinished(args: { requestId: BN; agentVault: string; transactionHash: string; }): void {
+    handleRedemptionFinished(args: { requestId: BN; agentVault: string; transactionHash: string; $event: EvmEvent; }): void {
         // clean up transactionForPaymentReference tracking - after redemption is finished the payment reference is immediatelly illegal anyway
         const reference = PaymentReference.redemption(args.requestId);
         this.transactionForPaymentReference.delete(reference);
         this.activeRedemptions.delete(reference);
         // also mark transaction as confirmed
-        this.handleTransactionConfirmed(args.agentVault, args.transactionHash)
+        this.handleTransactionConfirmed(args.agentVault, args.transactionHash);
+        this.markEvmEvent(args.$event);
     }
 
     // illegal transactions
@@ -100,12 +170,15 @@ export class Challenger extends ActorBase {
     }
 
     async illegalTransactionChallenge(scope: EventScope, transaction: ITransaction, agent: TrackedAgentState) {
-        this.log(`Challenger ${this.formatAddress(this.address)}: ISSUE illegalTransactionChallenge for ${this.formatAddress(agent.address)}`);
+        const key = `illegal:${transaction.hash}`;
+        this.logIssue(key, `Challenger ${this.formatAddress(this.address)}: ISSUE illegalTransactionChallenge for ${this.formatAddress(agent.address)}`);
         await this.singleChallengePerAgent(agent, async () => {
+            const restart = () => this.runner.startThread((scope) => this.illegalTransactionChallenge(scope, transaction, agent));
+            if (!await this.challengeEconomical('illegalPayment', agent, 1, key, restart)) return;
             const proof = await this.waitForDecreasingBalanceProof(scope, transaction.hash, agent.underlyingAddressString);
             // due to async nature of challenging (and the fact that challenger might start tracking agent later), there may be some false challenges which will be rejected
             // this is perfectly safe for the system, but the errors must be caught
-            await this.context.assetManager.illegalPaymentChallenge(proof, agent.address, { from: this.address })
+            await this.sendTransaction(this.context.assetManager, 'illegalPaymentChallenge', [proof, agent.address], { from: this.address })
                 .catch(e => scope.exitOnExpectedError(e, ['chlg: already liquidating', 'chlg: transaction confirmed', 'matching redemption active', 'matching ongoing announced pmt']));
         });
     }
@@ -123,14 +196,17 @@ export class Challenger extends ActorBase {
     }
 
     async doublePaymentChallenge(scope: EventScope, tx1hash: string, tx2hash: string, agent: TrackedAgentState) {
-        this.log(`Challenger ${this.formatAddress(this.address)}: ISSUE doublePaymentChallenge for ${this.formatAddress(agent.address)}`);
+        const key = `double:${tx1hash}:${tx2hash}`;
+        this.logIssue(key, `Challenger ${this.formatAddress(this.address)}: ISSUE doublePaymentChallenge for ${this.formatAddress(agent.address)}`);
         await this.singleChallengePerAgent(agent, async () => {
+            const restart = () => this.runner.startThread((scope) => this.doublePaymentChallenge(scope, tx1hash, tx2hash, agent));
+            if (!await this.challengeEconomical('doublePayment', agent, 2, key, restart)) return;
             const [proof1, proof2] = await Promise.all([
                 this.waitForDecreasingBalanceProof(scope, tx1hash, agent.underlyingAddressString),
                 this.waitForDecreasingBalanceProof(scope, tx2hash, agent.underlyingAddressString),
             ]);
             // due to async nature of challenging there may be some false challenges which will be rejected
-            await this.context.assetManager.doublePaymentChallenge(proof1, proof2, agent.address, { from: this.address })
+            await this.sendTransaction(this.context.assetManager, 'doublePaymentChallenge', [proof1, proof2, agent.address], { from: this.address })
                 .catch(e => scope.exitOnExpectedError(e, ['chlg dbl: already liquidating']));
         });
     }
@@ -141,7 +217,7 @@ export class Challenger extends ActorBase {
         const agentTransactions = this.unconfirmedTransactions.get(agent.address);
         if (agentTransactions == null) return;
         // extract the spent value for each transaction
-        let transactions: Array<{ txHash: string, spent: BN }> = [];
+        const transactions: SpentTransaction[] = [];
         for (const transaction of agentTransactions.values()) {
             if (!PaymentReference.isValid(transaction.reference)) continue;     // should be caught by illegal payment challenge
             const spentAmount = transaction.inputs.find(input => input[0] === agent.underlyingAddressString)?.[1];
@@ -154,29 +230,63 @@ export class Challenger extends ActorBase {
             }
             // other options should be caught by illegal payment challenge
         }
-        // sort by decreasing spent amount
-        transactions.sort((a, b) => a.spent.gt(b.spent) ? -1 : a.spent.lt(b.spent) ? 1 : 0);
-        // extract highest MAX_REPORT transactions
-        transactions = transactions.slice(0, MAX_NEGATIVE_BALANCE_REPORT);
+        // policy chooses which transactions to report (limited to avoid breaking block gas limit)
+        const selected = this.policy.selectNegativeBalanceTransactions(transactions, agent.freeUnderlyingBalanceUBA);
         // initiate challenge if total spent is big enough
-        const totalSpent = sumBN(transactions, tx => tx.spent);
+        const totalSpent = sumBN(selected, tx => tx.spent);
         if (totalSpent.gt(agent.freeUnderlyingBalanceUBA)) {
-            const transactionHashes = transactions.map(tx => tx.txHash);
+            const transactionHashes = selected.map(tx => tx.txHash);
             this.runner.startThread((scope) => this.freeBalanceNegativeChallenge(scope, transactionHashes, agent));
         }
     }
 
     async freeBalanceNegativeChallenge(scope: EventScope, transactionHashes: string[], agent: TrackedAgentState) {
-        this.log(`Challenger ${this.formatAddress(this.address)}: ISSUE freeBalanceNegativeChallenge for ${this.formatAddress(agent.address)}`);
+        const key = `negative:${agent.address}`;
+        this.logIssue(key, `Challenger ${this.formatAddress(this.address)}: ISSUE freeBalanceNegativeChallenge for ${this.formatAddress(agent.address)}`);
         await this.singleChallengePerAgent(agent, async () => {
+            const restart = () => this.runner.startThread((scope) => this.freeBalanceNegativeChallenge(scope, transactionHashes, agent));
+            if (!await this.challengeEconomical('freeBalanceNegative', agent, transactionHashes.length, key, restart)) return;
             const proofs = await Promise.all(transactionHashes.map(txHash =>
                 this.waitForDecreasingBalanceProof(scope, txHash, agent.underlyingAddressString)));
             // due to async nature of challenging there may be some false challenges which will be rejected
-            await this.context.assetManager.freeBalanceNegativeChallenge(proofs, agent.address, { from: this.address })
+            await this.sendTransaction(this.context.assetManager, 'freeBalanceNegativeChallenge', [proofs, agent.address], { from: this.address })
                 .catch(e => scope.exitOnExpectedError(e, ['mult chlg: already liquidating', 'mult chlg: enough balance']));
         });
     }
 
+    // economics
+
+    // deferred challenges are restarted on every underlying block, so their decisions are only logged when they change
+    async challengeEconomical(type: ChallengeType, agent: TrackedAgentState, proofCount: number, key: string, restart: () => void) {
+        const decision = await this.policy.decide(type, agent, proofCount);
+        const previousDecision = this.deferredDecisions.get(key);
+        if (decision !== previousDecision) {
+            if (decision !== 'challenge') {
+                this.log(`Challenger ${this.formatAddress(this.address)}: ${type} challenge for ${this.formatAddress(agent.address)} not economical (${decision})`);
+            } else if (previousDecision != null) {
+                this.log(`Challenger ${this.formatAddress(this.address)}: ${type} challenge for ${this.formatAddress(agent.address)} became economical`);
+            }
+        }
+        if (decision === 'defer') {
+            this.deferredChallenges.set(key, restart);
+            this.deferredDecisions.set(key, decision);
+        } else {
+            this.deferredDecisions.delete(key);
+        }
+        return decision === 'challenge';
+    }
+
+    cancelDeferredChallenge(key: string) {
+        this.deferredChallenges.delete(key);
+        this.deferredDecisions.delete(key);
+    }
+
+    // restarted deferred challenges were already issued
+    private logIssue(key: string, text: string) {
+        if (this.deferredDecisions.has(key)) return;
+        this.log(text);
+    }
+
     // utils
 
     isValidRedemptionReference(agent: TrackedAgentState, reference: string) {
@@ -202,11 +312,65 @@ export class Challenger extends ActorBase {
     }
 
     async waitForDecreasingBalanceProof(scope: EventScope, txHash: string, underlyingAddressString: string) {
-        await this.chainEvents.waitForUnderlyingTransactionFinalization(scope, txHash);
+        const transaction = await this.chainEvents.waitForUnderlyingTransactionFinalization(scope, txHash);
+        if (transaction == null) scope.exit();     // removed by reorganization or never mined, so there is nothing to prove
         return await this.context.attestationProvider.proveBalanceDecreasingTransaction(txHash, underlyingAddressString)
             .catch(e => scope.exitOnExpectedError(e, [AttestationHelperError]));
     }
 
+    // called after the event is handled; the event's block may have more events, so only the previous block is complete
+    markEvmEvent(event: EvmEvent) {
+        this.lastEvmBlock = Math.max(this.lastEvmBlock, event.blockNumber - 1);
+        // replayed events are checkpointed by the first live event or underlying block
+        if (!this.state.catchingUp) {
+            this.saveCheckpoint();
+        }
+    }
+
+    // checkpoints
+
+    createCheckpoint(): ChallengerCheckpoint {
+        return {
+            lastEvmBlock: this.lastEvmBlock,
+            lastUnderlyingBlock: this.lastUnderlyingBlock,
+            activeRedemptions: Array.from(this.activeRedemptions.entries()),
+            transactionForPaymentReference: Array.from(this.transactionForPaymentReference.entries()),
+            unconfirmedTransactions: Array.from(this.unconfirmedTransactions.entries(), ([agentVault, transactions]) => [agentVault, Array.from(transactions.values())]),
+        };
+    }
+
+    loadCheckpoint(checkpoint: ChallengerCheckpoint) {
+        this.lastEvmBlock = checkpoint.lastEvmBlock;
+        this.lastUnderlyingBlock = checkpoint.lastUnderlyingBlock;
+        this.activeRedemptions = new Map(checkpoint.activeRedemptions.map(([reference, redemption]) => [reference, {
+            agentAddress: redemption.agentAddress,
+            amount: toBN(redemption.amount),
+            validUntilBlock: toBN(redemption.validUntilBlock),
+            validUntilTimestamp: toBN(redemption.validUntilTimestamp),
+        }]));
+        this.transactionForPaymentReference = new Map(checkpoint.transactionForPaymentReference);
+        this.unconfirmedTransactions = new Map(checkpoint.unconfirmedTransactions.map(([agentVault, transactions]) =>
+            [agentVault, new Map(transactions.map(tx => [tx.hash, this.restoreTransaction(tx)]))]));
+    }
+
+    saveCheckpoint() {
+        if (!this.checkpointStore) return;
+        this.checkpointStore.save(this.createCheckpoint());
+    }
+
+    restoreCheckpoint() {
+        const checkpoint = this.checkpointStore?.load();
+        if (checkpoint == null) return;
+        this.loadCheckpoint(checkpoint);
+        this.log(`Challenger ${this.formatAddress(this.address)}: restored checkpoint at EVM block ${this.lastEvmBlock}, underlying block ${this.lastUnderlyingBlock}`);
+    }
+
+    private restoreTransaction(transaction: ITransaction): ITransaction {
+        // amounts in inputs/outputs are stored in tuples, so BN keys deserialization doesn't convert them
+        const restoreIO = (ios: TxInputOutput[]) => ios.map(([address, amount]): TxInputOutput => [address, toBN(amount)]);
+        return { ...transaction, inputs: restoreIO(transaction.inputs), outputs: restoreIO(transaction.outputs) };
+    }
+
     async singleChallengePerAgent(agent: TrackedAgentState, body: () => Promise<void>) {
         while (this.challengedAgents.has(agent.address)) {
             await sleep(1);
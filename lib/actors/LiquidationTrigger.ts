@@ -1,4 +1,3 @@
-import { time } from "@openzeppelin/test-helpers";
 import { MintingExecuted } from "../../typechain-truffle/AssetManager";
 import { TrackedAgentState } from "../state/TrackedAgentState";
 import { TrackedState } from "../state/TrackedState";
@@ -19,9 +18,9 @@ export class LiquidationTrigger extends ActorBase {
 
     registerForEvents() {
         // check for liquidations when prices change
-        this.state.pricesUpdated.subscribe(() => this.checkAllAgentsForLiquidation());
+        this.state.pricesUpdated.subscribeIn(this.subscriptions, () => this.checkAllAgentsForLiquidation());
         // also check for liquidation after every minting
-        this.assetManagerEvent('MintingExecuted').subscribe(args => this.handleMintingExecuted(args));
+        this.assetManagerEvent('MintingExecuted').subscribeIn(this.subscriptions, args => this.handleMintingExecuted(args));
     }
 
     async checkAllAgentsForLiquidation() {
@@ -41,12 +40,11 @@ export class LiquidationTrigger extends ActorBase {
     }
 
     private async checkAgentForLiquidation(agent: TrackedAgentState) {
-        const timestamp = await time.latest();
-        const newStatus = agent.possibleLiquidationTransition(timestamp);
+        const newStatus = await agent.currentLiquidationTransition();
         if (newStatus > agent.status) {
-            await this.context.assetManager.startLiquidation(agent.address, { from: this.address });
+            await this.sendTransaction(this.context.assetManager, 'startLiquidation', [agent.address], { from: this.address });
         } else if (newStatus < agent.status) {
-            await this.context.assetManager.endLiquidation(agent.address, { from: this.address });
+            await this.sendTransaction(this.context.assetManager, 'endLiquidation', [agent.address], { from: this.address });
         }
     }
 }
@@ -0,0 +1,184 @@
+import { MintingExecuted } from "../../typechain-truffle/AssetManager";
+import { AgentStatus, CollateralType } from "../fasset/AssetManagerTypes";
+import { LiquidationStrategyImplSettings, decodeLiquidationStrategyImplSettings } from "../fasset/LiquidationStrategyImpl";
+import { TrackedAgentState } from "../state/TrackedAgentState";
+import { TrackedState } from "../state/TrackedState";
+import { EvmEventArgs } from "../utils/events/IEvmEvents";
+import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { BN_ZERO, MAX_BIPS, formatBN, maxBN, minBN, toBN } from "../utils/helpers";
+import { ActorBase } from "./ActorBase";
+
+export interface LiquidationEstimate {
+    amountUBA: BN;
+    vaultFactorBIPS: BN;
+    poolFactorBIPS: BN;
+    vaultPayoutWei: BN;
+    poolPayoutWei: BN;
+    // value of both payouts, expressed in underlying asset
+    payoutValueUBA: BN;
+}
+
+export class Liquidator extends ActorBase {
+    constructor(
+        runner: ScopedRunner,
+        state: TrackedState,
+        public address: string,
+    ) {
+        super(runner, state);
+        this.registerForEvents();
+    }
+
+    // max amount of fassets to liquidate in one call (undefined means the whole fasset balance)
+    maxExposureUBA?: BN;
+    // required payout value above the liquidated value
+    minProfitMarginBIPS = 0;
+
+    liquidationSettings?: LiquidationStrategyImplSettings;
+    liquidating = new Set<string>();
+
+    registerForEvents() {
+        // check for liquidations when prices change
+        this.state.pricesUpdated.subscribeIn(this.subscriptions, () => this.checkAllAgents());
+        // after minting agent's collateral ratio drops
+        this.assetManagerEvent('MintingExecuted').subscribeIn(this.subscriptions, args => this.handleMintingExecuted(args));
+        // liquidation was started by somebody else
+        this.assetManagerEvent('LiquidationStarted').subscribeIn(this.subscriptions, args => this.checkAgent(args.agentVault));
+        this.assetManagerEvent('FullLiquidationStarted').subscribeIn(this.subscriptions, args => this.checkAgent(args.agentVault));
+    }
+
+    checkAllAgents() {
+        for (const agent of this.state.agents.values()) {
+            this.checkAgent(agent.address);
+        }
+    }
+
+    handleMintingExecuted(args: EvmEventArgs<MintingExecuted>) {
+        this.checkAgent(args.agentVault);
+    }
+
+    checkAgent(agentVault: string) {
+        const agent = this.state.getAgent(agentVault);
+        if (!agent || this.liquidating.has(agent.address)) return;
+        this.liquidating.add(agent.address);
+        this.runner.startThread(async (scope) => {
+            try {
+                await this.liquidateIfProfitable(agent)
+                    .catch(e => scope.exitOnExpectedError(e, ["not in liquidation"]));
+            } finally {
+                this.liquidating.delete(agent.address);
+            }
+        });
+    }
+
+    private async liquidateIfProfitable(agent: TrackedAgentState) {
+        const timestamp = await this.clock.evmTimestamp();
+        const status = liquidationStatus(agent, timestamp);
+        if (status !== AgentStatus.LIQUIDATION && status !== AgentStatus.FULL_LIQUIDATION) return;
+        const balanceUBA = await this.context.fAsset.balanceOf(this.address);
+        const maxLiquidatedUBA = await this.maxLiquidationAmountUBA(agent, status, timestamp);
+        const amountUBA = minBN(this.maxExposureUBA ? minBN(balanceUBA, this.maxExposureUBA) : balanceUBA, maxLiquidatedUBA);
+        if (amountUBA.isZero()) return;
+        const estimate = await this.estimateLiquidation(agent, amountUBA, timestamp);
+        const requiredValueUBA = amountUBA.muln(MAX_BIPS + this.minProfitMarginBIPS).divn(MAX_BIPS);
+        if (estimate.payoutValueUBA.lt(requiredValueUBA)) {
+            this.log(`LIQUIDATOR skipped liquidation of ${agent.name()}: payout ${formatBN(estimate.payoutValueUBA)} < required ${formatBN(requiredValueUBA)}`);
+            return;
+        }
+        this.log(`LIQUIDATOR liquidating ${formatBN(amountUBA)} of ${agent.name()}, expected payout vault=${formatBN(estimate.vaultPayoutWei)} pool=${formatBN(estimate.poolPayoutWei)}`);
+        await this.sendTransaction(this.context.assetManager, 'liquidate', [agent.address, amountUBA], { from: this.address });
+    }
+
+    async getLiquidationSettings() {
+        if (this.liquidationSettings == null) {
+            this.liquidationSettings = decodeLiquidationStrategyImplSettings(await this.context.assetManager.getLiquidationSettings());
+        }
+        return this.liquidationSettings;
+    }
+
+    /**
+     * Estimate liquidator's payout for liquidating `amountUBA` of agent's position at `timestamp`.
+     * Follows LiquidationStrategyImpl.currentLiquidationFactorBIPS, with payouts capped by the agent's collateral balances.
+     */
+    async estimateLiquidation(agent: TrackedAgentState, amountUBA: BN, timestamp: BN): Promise<LiquidationEstimate> {
+        const [vaultFactorBIPS, poolFactorBIPS] = await this.liquidationFactorsBIPS(agent, timestamp);
+        const vaultPrice = this.state.prices.get(agent.vaultCollateral);
+        const poolPrice = this.state.prices.get(agent.poolWNatCollateral);
+        const vaultPayoutWei = minBN(vaultPrice.convertUBAToTokenWei(amountUBA.mul(vaultFactorBIPS).divn(MAX_BIPS)), agent.totalVaultCollateralWei);
+        const poolPayoutWei = minBN(poolPrice.convertUBAToTokenWei(amountUBA.mul(poolFactorBIPS).divn(MAX_BIPS)), agent.totalPoolCollateralNATWei);
+        const payoutValueUBA = vaultPrice.convertTokenWeiToUBA(vaultPayoutWei).add(poolPrice.convertTokenWeiToUBA(poolPayoutWei));
+        return { amountUBA, vaultFactorBIPS, poolFactorBIPS, vaultPayoutWei, poolPayoutWei, payoutValueUBA };
+    }
+
+    /**
+     * Max amount that the asset manager will liquidate - in liquidation, just enough to get the agent back to
+     * the target collateral ratio (rounded up to lots), in full liquidation, everything minted.
+     * Follows Liquidation._maxLiquidationAmountAMG.
+     */
+    async maxLiquidationAmountUBA(agent: TrackedAgentState, status: AgentStatus, timestamp: BN) {
+        if (status === AgentStatus.FULL_LIQUIDATION) return agent.mintedUBA;
+        const [vaultFactorBIPS, poolFactorBIPS] = await this.liquidationFactorsBIPS(agent, timestamp);
+        return maxBN(
+            this.maxLiquidationAmountForCollateralUBA(agent, agent.vaultCollateral, vaultFactorBIPS),
+            this.maxLiquidationAmountForCollateralUBA(agent, agent.poolWNatCollateral, poolFactorBIPS));
+    }
+
+    private maxLiquidationAmountForCollateralUBA(agent: TrackedAgentState, collateral: CollateralType, factorBIPS: BN) {
+        const collateralRatioBIPS = agent.collateralRatioBIPS(collateral);
+        // as Liquidation._targetRatioBIPS in liquidation phase; the liquidation call marks collaterals below ccb ratio as underwater
+        const underwater = agent.underwaterCollaterals.has(Number(collateral.collateralClass)) || collateralRatioBIPS.lt(toBN(collateral.ccbMinCollateralRatioBIPS));
+        const targetRatioBIPS = toBN(underwater ? collateral.safetyMinCollateralRatioBIPS : collateral.minCollateralRatioBIPS);
+        if (targetRatioBIPS.lte(collateralRatioBIPS)) return BN_ZERO;      // agent already safe
+        if (collateralRatioBIPS.lte(factorBIPS)) return agent.mintedUBA;    // cannot achieve target - liquidate all
+        const settings = this.state.settings;
+        const lotSizeUBA = toBN(settings.lotSizeAMG).mul(toBN(settings.assetMintingGranularityUBA));
+        const maxLiquidatedUBA = divRoundUp(agent.mintedUBA.mul(targetRatioBIPS.sub(collateralRatioBIPS)), targetRatioBIPS.sub(factorBIPS));
+        return minBN(divRoundUp(maxLiquidatedUBA, lotSizeUBA).mul(lotSizeUBA), agent.mintedUBA);
+    }
+
+    private async liquidationFactorsBIPS(agent: TrackedAgentState, timestamp: BN): Promise<[vaultFactorBIPS: BN, poolFactorBIPS: BN]> {
+        const settings = await this.getLiquidationSettings();
+        const step = this.currentLiquidationStep(agent, settings, liquidationStatus(agent, timestamp), timestamp);
+        const factorBIPS = toBN(settings.liquidationCollateralFactorBIPS[step]);
+        const vaultCR = agent.collateralRatioBIPS(agent.vaultCollateral);
+        const poolCR = agent.collateralRatioBIPS(agent.poolWNatCollateral);
+        let vaultFactorBIPS = minBN(toBN(settings.liquidationFactorVaultCollateralBIPS[step]), factorBIPS);
+        const vaultValid = collateralValid(agent.vaultCollateral, timestamp);
+        const poolValid = collateralValid(agent.poolWNatCollateral, timestamp);
+        if (!vaultValid && poolValid) {
+            vaultFactorBIPS = BN_ZERO;
+        } else if (vaultValid && !poolValid) {
+            vaultFactorBIPS = factorBIPS;
+        }
+        vaultFactorBIPS = minBN(vaultFactorBIPS, vaultCR);
+        let poolFactorBIPS = factorBIPS.sub(vaultFactorBIPS);
+        if (poolFactorBIPS.gt(poolCR)) {
+            poolFactorBIPS = poolCR;
+            vaultFactorBIPS = minBN(factorBIPS.sub(poolFactorBIPS), vaultCR);
+        }
+        return [vaultFactorBIPS, poolFactorBIPS];
+    }
+
+    // Follows LiquidationStrategyImpl._currentLiquidationStep - liquidation that started in ccb is counted from the end of ccb.
+    private currentLiquidationStep(agent: TrackedAgentState, settings: LiquidationStrategyImplSettings, status: AgentStatus, timestamp: BN) {
+        const startedInCCB = status === AgentStatus.LIQUIDATION && !agent.ccbStartTimestamp.isZero();
+        const liquidationStart = startedInCCB ? agent.ccbStartTimestamp.add(toBN(this.state.settings.ccbTimeSeconds)) : agent.liquidationStartTimestamp;
+        // agent that isn't in liquidation yet will be liquidated in the first step
+        if (liquidationStart.isZero() || timestamp.lte(liquidationStart)) return 0;
+        const step = timestamp.sub(liquidationStart).div(toBN(settings.liquidationStepSeconds)).toNumber();
+        return Math.min(step, settings.liquidationCollateralFactorBIPS.length - 1);
+    }
+}
+
+// agent's status after the transition that a liquidation call at `timestamp` would make
+function liquidationStatus(agent: TrackedAgentState, timestamp: BN): AgentStatus {
+    return Math.max(agent.status, agent.possibleLiquidationTransition(timestamp));
+}
+
+function divRoundUp(a: BN, b: BN) {
+    return a.add(b).subn(1).div(b);
+}
+
+function collateralValid(collateral: CollateralType, timestamp: BN) {
+    const validUntil = toBN(collateral.validUntil);
+    return validUntil.isZero() || validUntil.gt(timestamp);
+}
@@ -0,0 +1,180 @@
+import { CollateralReserved } from "../../typechain-truffle/AssetManager";
+import { TrackedAgentState } from "../state/TrackedAgentState";
+import { TrackedState } from "../state/TrackedState";
+import { AttestationHelperError } from "../underlying-chain/AttestationHelper";
+import { IBlockId, ITransaction } from "../underlying-chain/interfaces/IBlockChain";
+import { EvmEventArgs } from "../utils/events/IEvmEvents";
+import { EventScope } from "../utils/events/ScopedEvents";
+import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { BN_ZERO, MAX_BIPS, formatBN, sumBN, toBN } from "../utils/helpers";
+import { ActorBase } from "./ActorBase";
+
+export interface PendingReservation {
+    collateralReservationId: BN;
+    agentVault: string;
+    minter: string;
+    valueUBA: BN;
+    feeUBA: BN;
+    firstUnderlyingBlock: BN;
+    lastUnderlyingBlock: BN;
+    lastUnderlyingTimestamp: BN;
+    paymentReference: string;
+}
+
+/**
+ * Closes collateral reservations that minters abandoned, on behalf of the agent owner.
+ * After the payment time has passed without a matching payment, the keeper proves non-payment and calls `mintingPaymentDefault`.
+ * When the non-payment proof is not available any more, it calls `unstickMinting`, paying for the burned vault collateral in NAT.
+ * The keeper's address must be the owner (management or work address) of the handled agents.
+ */
+export class MintingDefaultKeeper extends ActorBase {
+    constructor(
+        runner: ScopedRunner,
+        state: TrackedState,
+        public address: string,
+        public agentVaults?: Set<string>,   // if undefined, handle all agents owned by `address`
+    ) {
+        super(runner, state);
+        this.registerForEvents();
+    }
+
+    // NAT sent above the estimated unstick minting cost, to cover price changes (the excess is deposited to agent's vault)
+    unstickMintingCostMarginBIPS = 100;
+
+    pendingReservations = new Map<string, PendingReservation>();    // paymentReference => reservation
+    paidReservations = new Set<string>();                           // paymentReferences with a matching underlying payment
+    closingReservations = new Set<string>();
+
+    registerForEvents() {
+        this.chainEvents.blockEvent().subscribeIn(this.subscriptions, block => this.handleUnderlyingBlock(block));
+        this.chainEvents.transactionEvent().subscribeIn(this.subscriptions, transaction => this.handleUnderlyingTransaction(transaction));
+        this.chainEvents.transactionRemovedEvent().subscribeIn(this.subscriptions, transaction => this.handleUnderlyingTransactionRemoved(transaction));
+        this.assetManagerEvent('CollateralReserved').subscribeIn(this.subscriptions, args => this.handleCollateralReserved(args));
+        this.assetManagerEvent('MintingExecuted').subscribeIn(this.subscriptions, args => this.handleReservationFinished(args.collateralReservationId));
+        this.assetManagerEvent('MintingPaymentDefault').subscribeIn(this.subscriptions, args => this.handleReservationFinished(args.collateralReservationId));
+        this.assetManagerEvent('CollateralReservationDeleted').subscribeIn(this.subscriptions, args => this.handleReservationFinished(args.collateralReservationId));
+    }
+
+    handleCollateralReserved(args: EvmEventArgs<CollateralReserved>): void {
+        const agent = this.state.getAgent(args.agentVault);
+        // ownership can only be checked asynchronously, so it is checked when the reservation is due (in closeReservation)
+        if (!agent || (this.agentVaults != null && !this.agentVaults.has(agent.address))) return;
+        this.pendingReservations.set(args.paymentReference, {
+            collateralReservationId: toBN(args.collateralReservationId),
+            agentVault: args.agentVault,
+            minter: args.minter,
+            valueUBA: toBN(args.valueUBA),
+            feeUBA: toBN(args.feeUBA),
+            firstUnderlyingBlock: toBN(args.firstUnderlyingBlock),
+            lastUnderlyingBlock: toBN(args.lastUnderlyingBlock),
+            lastUnderlyingTimestamp: toBN(args.lastUnderlyingTimestamp),
+            paymentReference: args.paymentReference,
+        });
+    }
+
+    handleReservationFinished(collateralReservationId: BN): void {
+        for (const [reference, reservation] of this.pendingReservations) {
+            if (reservation.collateralReservationId.eq(toBN(collateralReservationId))) {
+                this.pendingReservations.delete(reference);
+                this.paidReservations.delete(reference);
+            }
+        }
+    }
+
+    handleUnderlyingTransaction(transaction: ITransaction): void {
+        const reservation = this.reservationPaidBy(transaction);
+        if (reservation == null) return;
+        // the minter paid, so the minting can still be executed (by the minter or by the agent)
+        this.log(`MintingDefaultKeeper ${this.formatAddress(this.address)}: reservation ${reservation.collateralReservationId} of ${this.state.getAgent(reservation.agentVault)?.name()} was paid in ${transaction.hash}`);
+        this.paidReservations.add(reservation.paymentReference);
+    }
+
+    handleUnderlyingTransactionRemoved(transaction: ITransaction): void {
+        const reservation = this.reservationPaidBy(transaction);
+        if (reservation == null || !this.paidReservations.has(reservation.paymentReference)) return;
+        // payment was dropped by reorganization - if it is mined again, the reservation will be marked as paid again
+        this.log(`MintingDefaultKeeper ${this.formatAddress(this.address)}: payment ${transaction.hash} for reservation ${reservation.collateralReservationId} removed by reorganization`);
+        this.paidReservations.delete(reservation.paymentReference);
+    }
+
+    // The pending reservation that the transaction pays in full (if any).
+    reservationPaidBy(transaction: ITransaction): PendingReservation | undefined {
+        if (transaction.reference == null) return undefined;
+        const reservation = this.pendingReservations.get(transaction.reference);
+        if (reservation == null) return undefined;
+        const agent = this.state.getAgent(reservation.agentVault);
+        if (!agent) return undefined;
+        const receivedUBA = sumBN(transaction.outputs.filter(([address]) => address === agent.underlyingAddressString), ([, amount]) => amount);
+        return receivedUBA.gte(reservation.valueUBA.add(reservation.feeUBA)) ? reservation : undefined;
+    }
+
+    handleUnderlyingBlock(block: IBlockId): void {
+        const finalizedBlockNumber = block.number - this.context.chain.finalizationBlocks;
+        for (const [reference, reservation] of this.pendingReservations) {
+            if (this.closingReservations.has(reference) || this.paidReservations.has(reference)) continue;
+            if (reservation.lastUnderlyingBlock.gten(finalizedBlockNumber)) continue;
+            this.closingReservations.add(reference);
+            this.runner.startThread(async (scope) => {
+                try {
+                    await this.closeReservation(scope, reservation, finalizedBlockNumber);
+                } finally {
+                    this.closingReservations.delete(reference);
+                }
+            });
+        }
+    }
+
+    async closeReservation(scope: EventScope, reservation: PendingReservation, finalizedBlockNumber: number) {
+        const finalizedBlock = await this.context.chain.getBlockAt(finalizedBlockNumber);
+        if (finalizedBlock == null || reservation.lastUnderlyingTimestamp.gten(finalizedBlock.timestamp)) return;    // too early
+        const agent = this.state.getAgent(reservation.agentVault);
+        if (!agent) return;
+        if (!await this.handlesAgent(agent)) {
+            this.pendingReservations.delete(reservation.paymentReference);
+            return;
+        }
+        const attestationWindowEnd = reservation.lastUnderlyingTimestamp.add(toBN(this.state.settings.attestationWindowSeconds));
+        if (attestationWindowEnd.gten(finalizedBlock.timestamp)) {
+            await this.mintingPaymentDefault(agent, reservation)
+                .catch(e => scope.exitOnExpectedError(e, ["invalid crt id", "minting default too early", AttestationHelperError]));
+        } else {
+            await this.unstickMinting(agent, reservation)
+                .catch(e => scope.exitOnExpectedError(e, ["invalid crt id", "cannot unstick minting yet", AttestationHelperError]));
+        }
+    }
+
+    async mintingPaymentDefault(agent: TrackedAgentState, reservation: PendingReservation) {
+        this.log(`MintingDefaultKeeper ${this.formatAddress(this.address)}: minting payment default for reservation ${reservation.collateralReservationId} of ${agent.name()}`);
+        const proof = await this.context.attestationProvider.proveReferencedPaymentNonexistence(
+            agent.underlyingAddressString,
+            reservation.paymentReference,
+            reservation.valueUBA.add(reservation.feeUBA),
+            reservation.firstUnderlyingBlock.toNumber(),
+            reservation.lastUnderlyingBlock.toNumber(),
+            reservation.lastUnderlyingTimestamp.toNumber());
+        await this.sendTransaction(this.context.assetManager, 'mintingPaymentDefault', [proof, reservation.collateralReservationId], { from: this.address });
+    }
+
+    async unstickMinting(agent: TrackedAgentState, reservation: PendingReservation) {
+        const proof = await this.context.attestationProvider.proveConfirmedBlockHeightExists(Number(this.state.settings.attestationWindowSeconds));
+        const costNAT = this.unstickMintingCostNAT(agent, reservation);
+        this.log(`MintingDefaultKeeper ${this.formatAddress(this.address)}: unstick minting for reservation ${reservation.collateralReservationId} of ${agent.name()}, cost ${formatBN(costNAT)} NAT`);
+        await this.sendTransaction(this.context.assetManager, 'unstickMinting', [proof, reservation.collateralReservationId], { from: this.address, value: costNAT });
+    }
+
+    /**
+     * NAT needed to buy the burned vault collateral (reserved collateral at FTSO price times `vaultCollateralBuyForFlareFactorBIPS`).
+     * When vault collateral is NAT, it is burned directly from the vault and nothing has to be paid.
+     */
+    unstickMintingCostNAT(agent: TrackedAgentState, reservation: PendingReservation) {
+        if (agent.vaultCollateral.token === agent.poolWNatCollateral.token) return BN_ZERO;
+        const natPrice = this.state.prices.get(agent.poolWNatCollateral);
+        const costNAT = natPrice.convertUBAToTokenWei(reservation.valueUBA)
+            .mul(toBN(this.state.settings.vaultCollateralBuyForFlareFactorBIPS)).divn(MAX_BIPS);
+        return costNAT.muln(MAX_BIPS + this.unstickMintingCostMarginBIPS).divn(MAX_BIPS);
+    }
+
+    async handlesAgent(agent: TrackedAgentState) {
+        return this.agentVaults != null ? this.agentVaults.has(agent.address) : await this.isAgentVaultOwner(agent.address, this.address);
+    }
+}
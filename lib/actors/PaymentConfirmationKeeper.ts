@@ -0,0 +1,177 @@
+import { RedemptionRequested, UnderlyingWithdrawalAnnounced } from "../../typechain-truffle/AssetManager";
+import { TrackedAgentState } from "../state/TrackedAgentState";
+import { TrackedState } from "../state/TrackedState";
+import { AttestationHelperError } from "../underlying-chain/AttestationHelper";
+import { ITransaction } from "../underlying-chain/interfaces/IBlockChain";
+import { EvmEventArgs } from "../utils/events/IEvmEvents";
+import { tokenTransferredTo } from "../utils/events/receipt-logs";
+import { EventScope } from "../utils/events/ScopedEvents";
+import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { BN_ZERO, formatBN, getOrCreate, toBN } from "../utils/helpers";
+import { ActorBase } from "./ActorBase";
+
+export interface UnconfirmedPayment {
+    type: 'redemption' | 'withdrawal';
+    agentVault: string;
+    // redemption request id or withdrawal announcement id
+    id: BN;
+    // receiving address (only for redemptions)
+    paymentAddress: string | null;
+    // EVM block of the request/announcement
+    requestBlockNumber: number;
+    // others can confirm after `confirmationByOthersAfterSeconds` from the request/announcement
+    // (timestamp of the event's block, set asynchronously; loaded again before confirming if that failed)
+    requestTimestamp?: BN;
+    // underlying payment, once it is seen
+    transactionHash?: string;
+}
+
+/**
+ * Confirms redemption payments and announced underlying withdrawals that the agent didn't confirm in time.
+ * After `confirmationByOthersAfterSeconds`, anybody can confirm them and gets `confirmationByOthersRewardUSD5`
+ * paid in agent's vault collateral.
+ */
+export class PaymentConfirmationKeeper extends ActorBase {
+    constructor(
+        runner: ScopedRunner,
+        state: TrackedState,
+        public address: string,
+    ) {
+        super(runner, state);
+        this.registerForEvents();
+    }
+
+    unconfirmedPayments = new Map<string, UnconfirmedPayment>();   // paymentReference => payment
+    confirmingPayments = new Set<string>();
+    earnedRewards = new Map<string, BN>();  // vault collateral token => total reward earned
+
+    registerForEvents() {
+        this.chainEvents.blockEvent().subscribeIn(this.subscriptions, () => this.checkUnconfirmedPayments());
+        this.chainEvents.transactionEvent().subscribeIn(this.subscriptions, transaction => this.handleUnderlyingTransaction(transaction));
+        this.chainEvents.transactionRemovedEvent().subscribeIn(this.subscriptions, transaction => this.handleUnderlyingTransactionRemoved(transaction));
+        this.assetManagerEvent('RedemptionRequested').subscribeIn(this.subscriptions, args => this.handleRedemptionRequested(args));
+        this.assetManagerEvent('RedemptionPerformed').subscribeIn(this.subscriptions, args => this.handleRedemptionFinished(args.requestId));
+        this.assetManagerEvent('RedemptionPaymentBlocked').subscribeIn(this.subscriptions, args => this.handleRedemptionFinished(args.requestId));
+        this.assetManagerEvent('RedemptionPaymentFailed').subscribeIn(this.subscriptions, args => this.handleRedemptionFinished(args.requestId));
+        this.assetManagerEvent('RedemptionDefault').subscribeIn(this.subscriptions, args => this.handleRedemptionDefault(args.requestId));
+        this.assetManagerEvent('UnderlyingWithdrawalAnnounced').subscribeIn(this.subscriptions, args => this.handleUnderlyingWithdrawalAnnounced(args));
+        this.assetManagerEvent('UnderlyingWithdrawalConfirmed').subscribeIn(this.subscriptions, args => this.handleWithdrawalFinished(args.agentVault, args.announcementId));
+        this.assetManagerEvent('UnderlyingWithdrawalCancelled').subscribeIn(this.subscriptions, args => this.handleWithdrawalFinished(args.agentVault, args.announcementId));
+    }
+
+    handleRedemptionRequested(args: EvmEventArgs<RedemptionRequested>): void {
+        this.addPayment(args.paymentReference, {
+            type: 'redemption',
+            agentVault: args.agentVault,
+            id: toBN(args.requestId),
+            paymentAddress: args.paymentAddress,
+            requestBlockNumber: args.$event.blockNumber,
+        });
+    }
+
+    handleRedemptionFinished(requestId: BN): void {
+        this.deletePayment(payment => payment.type === 'redemption' && payment.id.eq(toBN(requestId)));
+    }
+
+    handleRedemptionDefault(requestId: BN): void {
+        // defaulted redemption can still be confirmed, but only if it was paid
+        this.deletePayment(payment => payment.type === 'redemption' && payment.id.eq(toBN(requestId)) && payment.transactionHash == null);
+    }
+
+    handleUnderlyingWithdrawalAnnounced(args: EvmEventArgs<UnderlyingWithdrawalAnnounced>): void {
+        this.addPayment(args.paymentReference, {
+            type: 'withdrawal',
+            agentVault: args.agentVault,
+            id: toBN(args.announcementId),
+            paymentAddress: null,
+            requestBlockNumber: args.$event.blockNumber,
+        });
+    }
+
+    handleWithdrawalFinished(agentVault: string, announcementId: BN): void {
+        this.deletePayment(payment => payment.type === 'withdrawal' && payment.agentVault === agentVault && payment.id.eq(toBN(announcementId)));
+    }
+
+    handleUnderlyingTransaction(transaction: ITransaction): void {
+        if (transaction.reference == null) return;
+        const payment = this.unconfirmedPayments.get(transaction.reference);
+        if (payment == null || payment.transactionHash != null) return;
+        const agent = this.state.getAgent(payment.agentVault);
+        // only payments from agent's underlying address can be confirmed by others
+        if (agent && transaction.inputs.some(([address]) => address === agent.underlyingAddressString)) {
+            payment.transactionHash = transaction.hash;
+        }
+    }
+
+    handleUnderlyingTransactionRemoved(transaction: ITransaction): void {
+        if (transaction.reference == null) return;
+        const payment = this.unconfirmedPayments.get(transaction.reference);
+        // the payment becomes unpaid until the transaction (or a replacement) is reported again
+        if (payment != null && payment.transactionHash === transaction.hash) {
+            payment.transactionHash = undefined;
+        }
+    }
+
+    checkUnconfirmedPayments() {
+        for (const [reference, payment] of this.unconfirmedPayments) {
+            if (payment.transactionHash == null || this.confirmingPayments.has(reference)) continue;
+            this.confirmingPayments.add(reference);
+            this.runner.startThread(async (scope) => {
+                try {
+                    await this.confirmPaymentIfAllowed(scope, payment);
+                } finally {
+                    this.confirmingPayments.delete(reference);
+                }
+            });
+        }
+    }
+
+    async confirmPaymentIfAllowed(scope: EventScope, payment: UnconfirmedPayment) {
+        const agent = this.state.getAgent(payment.agentVault);
+        if (!agent) return;
+        // if loading the timestamp failed when the payment was added, it is loaded here (failures are retried on the next block)
+        const requestTimestamp = payment.requestTimestamp ?? await this.loadRequestTimestamp(payment);
+        const allowedAt = requestTimestamp.add(toBN(this.state.settings.confirmationByOthersAfterSeconds));
+        if ((await this.clock.evmTimestamp()).lte(allowedAt)) return;
+        // the agent might still confirm while we wait for the proof, in which case our transaction fails
+        await this.confirmPayment(scope, agent, payment)
+            .catch(e => scope.exitOnExpectedError(e, ["invalid request id", "no active announcement", "wrong announced pmt reference", "only agent vault owner", AttestationHelperError]));
+    }
+
+    async confirmPayment(scope: EventScope, agent: TrackedAgentState, payment: UnconfirmedPayment) {
+        const transactionHash = payment.transactionHash!;
+        this.log(`PaymentConfirmationKeeper ${this.formatAddress(this.address)}: confirming ${payment.type} ${payment.id} of ${agent.name()} (tx ${transactionHash})`);
+        const transaction = await this.chainEvents.waitForUnderlyingTransactionFinalization(scope, transactionHash);
+        if (transaction == null) scope.exit();     // removed by reorganization
+        const proof = await this.context.attestationProvider.provePayment(transactionHash, agent.underlyingAddressString, payment.paymentAddress);
+        const receipt = payment.type === 'redemption'
+            ? await this.sendTransaction(this.context.assetManager, 'confirmRedemptionPayment', [proof, payment.id], { from: this.address })
+            : await this.sendTransaction(this.context.assetManager, 'confirmUnderlyingWithdrawal', [proof, agent.address], { from: this.address });
+        // the reward is paid by the agent vault in vault collateral
+        const rewardToken = agent.vaultCollateral.token;
+        const reward = tokenTransferredTo(receipt, rewardToken, this.address);
+        this.earnedRewards.set(rewardToken, getOrCreate(this.earnedRewards, rewardToken, () => BN_ZERO).add(reward));
+        this.log(`PaymentConfirmationKeeper ${this.formatAddress(this.address)}: confirmed ${payment.type} ${payment.id} of ${agent.name()}, reward ${formatBN(reward)} ${this.formatAddress(rewardToken)}`);
+    }
+
+    private addPayment(reference: string, payment: UnconfirmedPayment) {
+        this.unconfirmedPayments.set(reference, payment);
+        this.runner.startThread(async () => {
+            await this.loadRequestTimestamp(payment)
+                .catch(e => this.log(`PaymentConfirmationKeeper ${this.formatAddress(this.address)}: cannot load time of ${payment.type} ${payment.id}, will retry before confirming (${(e as Error).message})`));
+        });
+    }
+
+    private async loadRequestTimestamp(payment: UnconfirmedPayment) {
+        payment.requestTimestamp = await this.clock.blockTimestamp(payment.requestBlockNumber);
+        return payment.requestTimestamp;
+    }
+
+    private deletePayment(condition: (payment: UnconfirmedPayment) => boolean) {
+        for (const [reference, payment] of this.unconfirmedPayments) {
+            if (condition(payment)) {
+                this.unconfirmedPayments.delete(reference);
+            }
+        }
+    }
+}
@@ -0,0 +1,184 @@
+import { RedemptionRequested } from "../../typechain-truffle/AssetManager";
+import { PaymentReference } from "../fasset/PaymentReference";
+import { TrackedState } from "../state/TrackedState";
+import { AttestationHelperError } from "../underlying-chain/AttestationHelper";
+import { IBlockId, ITransaction } from "../underlying-chain/interfaces/IBlockChain";
+import { EvmEventArgs } from "../utils/events/IEvmEvents";
+import { EventScope } from "../utils/events/ScopedEvents";
+import { ScopedRunner } from "../utils/events/ScopedRunner";
+import { errorIncluded, sumBN, toBN } from "../utils/helpers";
+import { ActorBase } from "./ActorBase";
+
+export interface PendingRedemption {
+    requestId: BN;
+    agentVault: string;
+    redeemer: string;
+    executor: string;
+    paymentAddress: string;
+    paymentReference: string;
+    // amount the agent has to pay (value minus fee)
+    paymentAmount: BN;
+    firstUnderlyingBlock: BN;
+    lastUnderlyingBlock: BN;
+    lastUnderlyingTimestamp: BN;
+}
+
+// errors after which retrying makes no sense - the keeper's address is not allowed to default this redemption
+const NOT_ALLOWED_ERRORS = ["only redeemer, executor or agent", "only agent vault owner"];
+
+/**
+ * Claims redemption defaults for unpaid redemptions.
+ * When the redemption payment time has passed, the keeper proves non-payment and calls `redemptionPaymentDefault`.
+ * The keeper handles requests where its address is the executor or the redeemer, or where it is the owner (management or
+ * work address) of the agent - these are the callers the asset manager accepts. Transactions for these are sent from `address`.
+ * The keeper also handles requests of the redeemers in `redeemers`; these transactions are sent from the redeemer's address, which must be unlocked.
+ * Requests with a matching underlying payment are skipped (the non-payment proof would fail) until the payment is removed by reorganization.
+ * If the non-payment proof is not available any more (attestation window expired), only the agent's owner can
+ * close the request with `finishRedemptionWithoutPayment`; other keepers drop such requests and leave them to the owner.
+ */
+export class RedemptionDefaultKeeper extends ActorBase {
+    constructor(
+        runner: ScopedRunner,
+        state: TrackedState,
+        public address: string,
+        public redeemers?: Set<string>,
+    ) {
+        super(runner, state);
+        this.registerForEvents();
+    }
+
+    pendingRedemptions = new Map<string, PendingRedemption>();  // requestId => redemption
+    paidRedemptions = new Set<string>();                        // requestIds with a matching underlying payment
+    defaultingRedemptions = new Set<string>();
+
+    registerForEvents() {
+        this.chainEvents.blockEvent().subscribeIn(this.subscriptions, block => this.handleUnderlyingBlock(block));
+        this.chainEvents.transactionEvent().subscribeIn(this.subscriptions, transaction => this.handleUnderlyingTransaction(transaction));
+        this.chainEvents.transactionRemovedEvent().subscribeIn(this.subscriptions, transaction => this.handleUnderlyingTransactionRemoved(transaction));
+        this.assetManagerEvent('RedemptionRequested').subscribeIn(this.subscriptions, args => this.handleRedemptionRequested(args));
+        this.assetManagerEvent('RedemptionPerformed').subscribeIn(this.subscriptions, args => this.handleRedemptionFinished(args.requestId));
+        this.assetManagerEvent('RedemptionPaymentBlocked').subscribeIn(this.subscriptions, args => this.handleRedemptionFinished(args.requestId));
+        this.assetManagerEvent('RedemptionPaymentFailed').subscribeIn(this.subscriptions, args => this.handleRedemptionFinished(args.requestId));
+        this.assetManagerEvent('RedemptionDefault').subscribeIn(this.subscriptions, args => this.handleRedemptionFinished(args.requestId));
+    }
+
+    handleRedemptionRequested(args: EvmEventArgs<RedemptionRequested>): void {
+        // agent ownership can only be checked asynchronously, so it is checked when the request is due
+        this.pendingRedemptions.set(String(args.requestId), {
+            requestId: toBN(args.requestId),
+            agentVault: args.agentVault,
+            redeemer: args.redeemer,
+            executor: args.executor,
+            paymentAddress: args.paymentAddress,
+            paymentReference: args.paymentReference,
+            paymentAmount: toBN(args.valueUBA).sub(toBN(args.feeUBA)),
+            firstUnderlyingBlock: toBN(args.firstUnderlyingBlock),
+            lastUnderlyingBlock: toBN(args.lastUnderlyingBlock),
+            lastUnderlyingTimestamp: toBN(args.lastUnderlyingTimestamp),
+        });
+    }
+
+    handleRedemptionFinished(requestId: BN): void {
+        this.pendingRedemptions.delete(String(requestId));
+        this.paidRedemptions.delete(String(requestId));
+    }
+
+    handleUnderlyingTransaction(transaction: ITransaction): void {
+        const redemption = this.redemptionPaidBy(transaction);
+        if (redemption == null) return;
+        // the agent paid, so the redemption will be confirmed (by the agent or by anybody after a while)
+        this.log(`RedemptionDefaultKeeper ${this.formatAddress(this.address)}: redemption ${redemption.requestId} of ${this.formatAddress(redemption.agentVault)} was paid in ${transaction.hash}`);
+        this.paidRedemptions.add(String(redemption.requestId));
+    }
+
+    handleUnderlyingTransactionRemoved(transaction: ITransaction): void {
+        const redemption = this.redemptionPaidBy(transaction);
+        if (redemption == null || !this.paidRedemptions.has(String(redemption.requestId))) return;
+        // payment was dropped by reorganization - if it is mined again, the redemption will be marked as paid again
+        this.log(`RedemptionDefaultKeeper ${this.formatAddress(this.address)}: payment ${transaction.hash} for redemption ${redemption.requestId} removed by reorganization`);
+        this.paidRedemptions.delete(String(redemption.requestId));
+    }
+
+    // The pending redemption that the transaction pays in full (if any).
+    redemptionPaidBy(transaction: ITransaction): PendingRedemption | undefined {
+        if (!PaymentReference.isValid(transaction.reference)) return undefined;
+        const redemption = this.pendingRedemptions.get(String(PaymentReference.decodeId(transaction.reference)));
+        if (redemption == null || redemption.paymentReference !== transaction.reference) return undefined;
+        const receivedUBA = sumBN(transaction.outputs.filter(([address]) => address === redemption.paymentAddress), ([, amount]) => amount);
+        return receivedUBA.gte(redemption.paymentAmount) ? redemption : undefined;
+    }
+
+    handleUnderlyingBlock(block: IBlockId): void {
+        const finalizedBlockNumber = block.number - this.context.chain.finalizationBlocks;
+        for (const [key, redemption] of this.pendingRedemptions) {
+            if (this.defaultingRedemptions.has(key) || this.paidRedemptions.has(key)) continue;
+            // quick check by block number only, the timestamp is checked in defaultRedemption
+            if (redemption.lastUnderlyingBlock.gten(finalizedBlockNumber)) continue;
+            this.defaultingRedemptions.add(key);
+            this.runner.startThread(async (scope) => {
+                try {
+                    await this.defaultRedemption(scope, redemption, finalizedBlockNumber);
+                } finally {
+                    this.defaultingRedemptions.delete(key);
+                }
+            });
+        }
+    }
+
+    async defaultRedemption(scope: EventScope, redemption: PendingRedemption, finalizedBlockNumber: number) {
+        const finalizedBlock = await this.context.chain.getBlockAt(finalizedBlockNumber);
+        if (finalizedBlock == null || redemption.lastUnderlyingTimestamp.gten(finalizedBlock.timestamp)) return;    // too early
+        const attestationWindowEnd = redemption.lastUnderlyingTimestamp.add(toBN(this.state.settings.attestationWindowSeconds));
+        try {
+            const agentOwner = await this.isAgentVaultOwner(redemption.agentVault, this.address);
+            const sender = this.defaultSender(redemption, agentOwner);
+            if (sender == null) {
+                this.pendingRedemptions.delete(String(redemption.requestId));
+            } else if (attestationWindowEnd.gten(finalizedBlock.timestamp)) {
+                await this.redemptionPaymentDefault(redemption, sender);
+            } else if (agentOwner) {
+                await this.finishRedemptionWithoutPayment(redemption);
+            } else {
+                this.log(`RedemptionDefaultKeeper ${this.formatAddress(this.address)}: non-payment proof for request ${redemption.requestId} expired, leaving it to the agent owner`);
+                this.pendingRedemptions.delete(String(redemption.requestId));
+            }
+        } catch (e) {
+            if (errorIncluded(e, NOT_ALLOWED_ERRORS)) {
+                this.log(`RedemptionDefaultKeeper ${this.formatAddress(this.address)}: not allowed to default redemption ${redemption.requestId} (${(e as Error).message})`);
+                this.pendingRedemptions.delete(String(redemption.requestId));
+                return;
+            }
+            // redemption may have been finished by someone else; attestation failures are retried on the next block
+            scope.exitOnExpectedError(e, ["invalid redemption status", "invalid request id", "redemption default too early", "should default first", AttestationHelperError]);
+        }
+    }
+
+    async redemptionPaymentDefault(redemption: PendingRedemption, sender: string) {
+        this.log(`RedemptionDefaultKeeper ${this.formatAddress(this.address)}: redemption default for request ${redemption.requestId} of ${this.formatAddress(redemption.agentVault)}`);
+        const proof = await this.context.attestationProvider.proveReferencedPaymentNonexistence(
+            redemption.paymentAddress,
+            redemption.paymentReference,
+            redemption.paymentAmount,
+            redemption.firstUnderlyingBlock.toNumber(),
+            redemption.lastUnderlyingBlock.toNumber(),
+            redemption.lastUnderlyingTimestamp.toNumber());
+        await this.sendTransaction(this.context.assetManager, 'redemptionPaymentDefault', [proof, redemption.requestId], { from: sender });
+    }
+
+    async finishRedemptionWithoutPayment(redemption: PendingRedemption) {
+        this.log(`RedemptionDefaultKeeper ${this.formatAddress(this.address)}: non-payment proof expired, finishing request ${redemption.requestId} of ${this.formatAddress(redemption.agentVault)} without payment`);
+        const proof = await this.context.attestationProvider.proveConfirmedBlockHeightExists(Number(this.state.settings.attestationWindowSeconds));
+        await this.sendTransaction(this.context.assetManager, 'finishRedemptionWithoutPayment', [proof, redemption.requestId], { from: this.address });
+    }
+
+    isRedeemerOrExecutor(redemption: PendingRedemption) {
+        return redemption.executor === this.address || redemption.redeemer === this.address;
+    }
+
+    // Address from which the keeper may call `redemptionPaymentDefault` for the redemption (undefined if it doesn't handle it).
+    defaultSender(redemption: PendingRedemption, agentOwner: boolean) {
+        if (agentOwner || this.isRedeemerOrExecutor(redemption)) return this.address;
+        if (this.redeemers?.has(redemption.redeemer)) return redemption.redeemer;
+        return undefined;
+    }
+}
@@ -1,7 +1,7 @@
 import { AssetManagerSettings, CollateralType } from "../fasset/AssetManagerTypes";
 import { AMGSettings, amgToTokenWeiPrice, convertAmgToTokenWei, convertAmgToUBA, convertTokenWeiToAMG, convertTokenWeiToUBA, convertUBAToAmg, convertUBAToTokenWei } from "../fasset/Conversions";
 import { BNish, toBN } from "../utils/helpers";
-import { TokenPrice, TokenPriceReader } from "./TokenPrice";
+import { TokenPrice, TokenPriceSource } from "./TokenPrice";
 
 export class AMGPrice {
     constructor(
@@ -93,7 +93,7 @@ export class CollateralPrice extends AMGPriceConverter {
         return new CollateralPrice(collateral, assetPrice, tokenPrice, amgPrice);
     }
 
-    static async forCollateral(priceReader: TokenPriceReader, settings: AssetManagerSettings, collateral: CollateralType, trusted: boolean = false) {
+    static async forCollateral(priceReader: TokenPriceSource, settings: AssetManagerSettings, collateral: CollateralType, trusted: boolean = false) {
         const assetPrice = await priceReader.getPrice(collateral.assetFtsoSymbol, trusted, settings.maxTrustedPriceAgeSeconds);
         const tokenPrice = collateral.tokenFtsoSymbol ? await priceReader.getPrice(collateral.tokenFtsoSymbol, trusted, settings.maxTrustedPriceAgeSeconds) : undefined;
         const amgPrice = AMGPrice.forTokenPrices(settings, collateral, assetPrice, tokenPrice);
@@ -0,0 +1,100 @@
+import { CollateralType } from "../fasset/AssetManagerTypes";
+import { MAX_BIPS, toBN } from "../utils/helpers";
+import { TokenPrice } from "./TokenPrice";
+import { TrackedAgentState } from "./TrackedAgentState";
+import { TrackedState } from "./TrackedState";
+
+export interface ThresholdPrices {
+    collateralRatioBIPS: BN;
+    // asset/USD price at which the threshold is reached (with unchanged token price)
+    assetPrice: TokenPrice;
+    // required asset price move, in percent (positive means increase)
+    assetPriceMovePct: number;
+    // token/USD price at which the threshold is reached (with unchanged asset price);
+    // undefined for collaterals with direct asset/token price pair
+    tokenPrice?: TokenPrice;
+    tokenPriceMovePct?: number;
+}
+
+export interface CollateralLiquidationPrices {
+    collateral: CollateralType;
+    collateralRatioBIPS: BN;
+    ccb: ThresholdPrices;
+    liquidation: ThresholdPrices;
+    recovery: ThresholdPrices;
+}
+
+export interface AgentLiquidationPrices {
+    agent: TrackedAgentState;
+    vault?: CollateralLiquidationPrices;
+    pool?: CollateralLiquidationPrices;
+    // the smallest asset price move (in percent) that puts the agent into liquidation (negative if already below)
+    distanceToLiquidationPct: number;
+}
+
+/**
+ * Prices at which the agent enters CCB (below minCollateralRatioBIPS), liquidation (below ccbMinCollateralRatioBIPS)
+ * and fully recovers from liquidation (above safetyMinCollateralRatioBIPS), for vault and pool collateral.
+ * Collateral ratio is proportional to token price / asset price, so each threshold price is the current price
+ * scaled by the ratio between the current and the threshold collateral ratio. The calculation starts from the
+ * collateral ratio as used by the asset manager (the higher of FTSO and trusted price ratio) and current FTSO prices.
+ * Collaterals are omitted when the agent has no backing (infinite collateral ratio).
+ */
+export function agentLiquidationPrices(agent: TrackedAgentState): AgentLiquidationPrices {
+    const vault = collateralLiquidationPrices(agent, agent.vaultCollateral);
+    const pool = collateralLiquidationPrices(agent, agent.poolWNatCollateral);
+    const distances = [vault, pool].map(prices => prices?.liquidation.assetPriceMovePct ?? Infinity);
+    return { agent, vault, pool, distanceToLiquidationPct: Math.min(...distances) };
+}
+
+/**
+ * Liquidation prices for all tracked agents, the ones closest to liquidation first.
+ */
+export function allAgentsLiquidationPrices(state: TrackedState): AgentLiquidationPrices[] {
+    const result = Array.from(state.agents.values()).map(agent => agentLiquidationPrices(agent));
+    // (distance is Infinity for agents without backing, so subtraction can't be used)
+    result.sort((a, b) => a.distanceToLiquidationPct < b.distanceToLiquidationPct ? -1 : a.distanceToLiquidationPct > b.distanceToLiquidationPct ? 1 : 0);
+    return result;
+}
+
+export function collateralLiquidationPrices(agent: TrackedAgentState, collateral: CollateralType): CollateralLiquidationPrices | undefined {
+    const collateralRatioBIPS = agent.collateralRatioBIPS(collateral);
+    // collateralRatioBIPS returns max uint256 when there is no backing
+    if (collateralRatioBIPS.bitLength() > 128) return undefined;
+    const price = agent.parent.prices.get(collateral);
+    const thresholdPrices = (thresholdBIPS: BN): ThresholdPrices => {
+        const assetPrice = scalePrice(price.assetPrice, collateralRatioBIPS, thresholdBIPS);
+        const assetPriceMovePct = movePct(collateralRatioBIPS, thresholdBIPS);
+        if (price.tokenPrice == null) {
+            return { collateralRatioBIPS: thresholdBIPS, assetPrice, assetPriceMovePct };
+        }
+        const tokenPrice = scalePrice(price.tokenPrice, thresholdBIPS, collateralRatioBIPS);
+        const tokenPriceMovePct = movePct(thresholdBIPS, collateralRatioBIPS);
+        return { collateralRatioBIPS: thresholdBIPS, assetPrice, assetPriceMovePct, tokenPrice, tokenPriceMovePct };
+    };
+    return {
+        collateral,
+        collateralRatioBIPS,
+        ccb: thresholdPrices(toBN(collateral.minCollateralRatioBIPS)),
+        liquidation: thresholdPrices(toBN(collateral.ccbMinCollateralRatioBIPS)),
+        recovery: thresholdPrices(toBN(collateral.safetyMinCollateralRatioBIPS)),
+    };
+}
+
+function scalePrice(price: TokenPrice, multiplier: BN, divisor: BN) {
+    return new TokenPrice(price.price.mul(multiplier).div(divisor), price.timestamp, price.decimals);
+}
+
+function movePct(multiplier: BN, divisor: BN) {
+    return (Number(multiplier) / Number(divisor) - 1) * 100;
+}
+
+export function formatLiquidationPrices(prices: AgentLiquidationPrices) {
+    const formatCollateral = (name: string, cp?: CollateralLiquidationPrices) => {
+        if (cp == null) return `${name}: no backing`;
+        const formatThreshold = (tp: ThresholdPrices) => `${tp.assetPrice} (${tp.assetPriceMovePct.toFixed(2)}%)`;
+        return `${name}: CR=${(Number(cp.collateralRatioBIPS) / MAX_BIPS).toFixed(3)}  asset price ccb=${formatThreshold(cp.ccb)}` +
+            `  liquidation=${formatThreshold(cp.liquidation)}  recovery=${formatThreshold(cp.recovery)}`;
+    };
+    return `${prices.agent.name()}  ${formatCollateral("vault", prices.vault)}  ${formatCollateral("pool", prices.pool)}`;
+}
@@ -0,0 +1,136 @@
+import { AgentStatus, AssetManagerSettings } from "../fasset/AssetManagerTypes";
+import { convertAmgToUBA, roundUBAToAmg } from "../fasset/Conversions";
+import { IAssetContext } from "../fasset/IAssetContext";
+import { BN_ZERO, MAX_BIPS, minBN, toBN } from "../utils/helpers";
+import { AMGPrice } from "./CollateralPrice";
+import { TrackedState } from "./TrackedState";
+
+export interface MintingAgentOffer {
+    agentVault: string;
+    feeBIPS: BN;
+    poolFeeShareBIPS: BN;
+    freeCollateralLots: BN;
+}
+
+export interface MintingQuote {
+    agentVault: string;
+    lots: BN;
+    // all lots that can currently be minted by this agent
+    maxLots: BN;
+    feeBIPS: BN;
+    poolFeeShareBIPS: BN;
+    valueUBA: BN;
+    mintingFeeUBA: BN;
+    // part of the minting fee that goes to the collateral pool
+    poolFeeUBA: BN;
+    reservationFeeNATWei: BN;
+    // the amount the minter has to pay on the underlying chain (value + minting fee)
+    totalUnderlyingUBA: BN;
+}
+
+export interface MintingPlan {
+    quotes: MintingQuote[];
+    lots: BN;
+    // lots that no available agent can mint
+    unfilledLots: BN;
+    totalUnderlyingUBA: BN;
+    totalReservationFeeNATWei: BN;
+}
+
+/**
+ * Calculates minting costs for available agents, the same way as CollateralReservations.reserveCollateral.
+ * Offers are ranked by minting fee; among agents with the same fee, the ones with more free lots go first.
+ * Free collateral lots are only informative (they change with prices and other mintings), so the actual
+ * reservation may still fail with "not enough free collateral".
+ */
+export class MintingQuoter {
+    constructor(
+        public settings: AssetManagerSettings,
+        // price of AMG in pool collateral (NAT), used for reservation fee
+        public natAmgPrice: AMGPrice,
+    ) { }
+
+    static forTrackedState(state: TrackedState) {
+        return new MintingQuoter(state.settings, state.prices.get(state.poolWNatColateral).amgPrice);
+    }
+
+    /**
+     * Quotes for minting `lots` lots in a single reservation, best first. Agents that can't mint `lots` are skipped.
+     */
+    rankedQuotes(offers: MintingAgentOffer[], lots: BN): MintingQuote[] {
+        return this.rankOffers(offers)
+            .filter(offer => offer.freeCollateralLots.gte(lots))
+            .map(offer => this.quote(offer, lots));
+    }
+
+    /**
+     * Split minting of `lots` lots over the cheapest agents.
+     */
+    splitMinting(offers: MintingAgentOffer[], lots: BN): MintingPlan {
+        const quotes: MintingQuote[] = [];
+        let remainingLots = lots;
+        for (const offer of this.rankOffers(offers)) {
+            if (remainingLots.isZero()) break;
+            const agentLots = minBN(remainingLots, offer.freeCollateralLots);
+            if (agentLots.isZero()) continue;
+            quotes.push(this.quote(offer, agentLots));
+            remainingLots = remainingLots.sub(agentLots);
+        }
+        return {
+            quotes,
+            lots,
+            unfilledLots: remainingLots,
+            totalUnderlyingUBA: quotes.reduce((sum, q) => sum.add(q.totalUnderlyingUBA), BN_ZERO),
+            totalReservationFeeNATWei: quotes.reduce((sum, q) => sum.add(q.reservationFeeNATWei), BN_ZERO),
+        };
+    }
+
+    quote(offer: MintingAgentOffer, lots: BN): MintingQuote {
+        const valueAMG = lots.mul(toBN(this.settings.lotSizeAMG));
+        const valueUBA = convertAmgToUBA(this.settings, valueAMG);
+        const mintingFeeUBA = valueUBA.mul(offer.feeBIPS).divn(MAX_BIPS);
+        const poolFeeUBA = roundUBAToAmg(this.settings, mintingFeeUBA.mul(offer.poolFeeShareBIPS).divn(MAX_BIPS));
+        return {
+            agentVault: offer.agentVault,
+            lots,
+            maxLots: offer.freeCollateralLots,
+            feeBIPS: offer.feeBIPS,
+            poolFeeShareBIPS: offer.poolFeeShareBIPS,
+            valueUBA,
+            mintingFeeUBA,
+            poolFeeUBA,
+            reservationFeeNATWei: this.reservationFee(lots),
+            totalUnderlyingUBA: valueUBA.add(mintingFeeUBA),
+        };
+    }
+
+    reservationFee(lots: BN) {
+        const valueNATWei = this.natAmgPrice.convertAmgToTokenWei(lots.mul(toBN(this.settings.lotSizeAMG)));
+        return valueNATWei.mul(toBN(this.settings.collateralReservationFeeBIPS)).divn(MAX_BIPS);
+    }
+
+    private rankOffers(offers: MintingAgentOffer[]) {
+        return [...offers].sort((a, b) => {
+            const feeCmp = a.feeBIPS.cmp(b.feeBIPS);
+            return feeCmp !== 0 ? feeCmp : b.freeCollateralLots.cmp(a.freeCollateralLots);
+        });
+    }
+}
+
+/**
+ * Read available agents from the asset manager. Pool fee share is taken from tracked state when available.
+ */
+export async function readMintingOffers(context: IAssetContext, state?: TrackedState, chunkSize: number = 100): Promise<MintingAgentOffer[]> {
+    const offers: MintingAgentOffer[] = [];
+    for (let start = 0; ; start += chunkSize) {
+        const { 0: agents, 1: totalLength } = await context.assetManager.getAvailableAgentsDetailedList(start, start + chunkSize);
+        for (const info of agents) {
+            const trackedAgent = state?.getAgent(info.agentVault);
+            if (trackedAgent && trackedAgent.status !== AgentStatus.NORMAL) continue;
+            const poolFeeShareBIPS = trackedAgent?.poolFeeShareBIPS ?? toBN((await context.assetManager.getAgentInfo(info.agentVault)).poolFeeShareBIPS);
+            offers.push({ agentVault: info.agentVault, feeBIPS: toBN(info.feeBIPS), poolFeeShareBIPS, freeCollateralLots: toBN(info.freeCollateralLots) });
+        }
+        if (start + chunkSize >= Number(totalLength)) break;
+    }
+    return offers;
+}
@@ -0,0 +1,228 @@
+import { EventSubscription, TriggerableEvent } from "../utils/events/ScopedEvents";
+import { BN_ZERO, MAX_BIPS, exp10, filterStackTrace, maxBN, minBN, toBN } from "../utils/helpers";
+import { ILogger } from "../utils/logging";
+import { TokenPrice, TokenPriceReader, TokenPriceSource } from "./TokenPrice";
+import { TrackedState } from "./TrackedState";
+
+export interface PriceStaleAlert {
+    type: 'stale';
+    symbol: string;
+    trusted: boolean;
+    price: TokenPrice;
+    // FTSO price age is relative to the latest block, trusted price age is relative to the FTSO price
+    ageSeconds: BN;
+    maxAgeSeconds: BN;
+}
+
+export interface PriceDivergedAlert {
+    type: 'diverged';
+    symbol: string;
+    ftsoPrice: TokenPrice;
+    trustedPrice: TokenPrice;
+    divergenceBIPS: BN;
+    maxDivergenceBIPS: BN;
+}
+
+export interface PriceMissingAlert {
+    type: 'missing';
+    symbol: string;
+    trusted: boolean;
+    error: string;
+}
+
+export interface PriceEpochStuckAlert {
+    type: 'epochStuck';
+    lastPriceEpochAt: BN;
+    secondsSinceLastEpoch: BN;
+}
+
+export type PriceAlert = PriceStaleAlert | PriceDivergedAlert | PriceMissingAlert | PriceEpochStuckAlert;
+
+/**
+ * Periodically checks the prices of all collateral and asset symbols.
+ * Reports FTSO prices and price epochs (`PriceEpochFinalized` events) older than `maxTrustedPriceAgeSeconds` from
+ * asset manager settings, trusted prices that the asset manager would ignore (older than `maxTrustedPriceAgeSeconds`
+ * relative to the FTSO price), trusted prices that differ from FTSO prices by more than `maxDivergenceBIPS(symbol)`
+ * and symbols the price reader can't provide. Trusted prices that were never set (zero price or timestamp) are not checked.
+ * Each alert is emitted once, when the condition appears; `recovered` is emitted when it disappears.
+ * Alerts are triggered immediately, not through the tracked state's event queue, so that a blocked queue is reported too.
+ */
+export class PriceMonitor {
+    constructor(
+        public state: TrackedState,
+    ) { }
+
+    checkIntervalMS = 60_000;
+    logger?: ILogger = this.state.logger;
+
+    // events
+    stale = new TriggerableEvent<PriceStaleAlert>(null);
+    diverged = new TriggerableEvent<PriceDivergedAlert>(null);
+    missing = new TriggerableEvent<PriceMissingAlert>(null);
+    epochStuck = new TriggerableEvent<PriceEpochStuckAlert>(null);
+    recovered = new TriggerableEvent<PriceAlert>(null);
+
+    activeAlerts = new Map<string, PriceAlert>();
+    // system time of the last price epoch (or of monitor start)
+    lastPriceEpochAt = BN_ZERO;
+
+    private timer?: NodeJS.Timeout;
+    private pricesUpdatedSubscription?: EventSubscription;
+
+    start() {
+        this.lastPriceEpochAt = this.state.clock.systemTimestamp();
+        this.pricesUpdatedSubscription = this.state.pricesUpdated.subscribe(() => {
+            this.lastPriceEpochAt = this.state.clock.systemTimestamp();
+        });
+        const checkLoop = () => {
+            void this.checkAll()
+                .catch(e => this.log(`PRICE MONITOR check failed: ${filterStackTrace(e)}`))
+                .finally(() => {
+                    if (this.timer) this.timer = setTimeout(checkLoop, this.checkIntervalMS);
+                });
+        };
+        this.timer = setTimeout(checkLoop, this.checkIntervalMS);
+    }
+
+    stop() {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        this.pricesUpdatedSubscription?.unsubscribe();
+        this.pricesUpdatedSubscription = undefined;
+    }
+
+    maxPriceAgeSeconds() {
+        return toBN(this.state.settings.maxTrustedPriceAgeSeconds);
+    }
+
+    /**
+     * The smallest CCB margin (minCollateralRatioBIPS - ccbMinCollateralRatioBIPS, relative to minCollateralRatioBIPS)
+     * of the collaterals priced by the symbol. A bigger difference between FTSO and trusted price means that the
+     * agents can be in liquidation by one price and safe by the other.
+     */
+    maxDivergenceBIPS(symbol: string) {
+        let result: BN | undefined;
+        for (const collateral of this.state.collaterals.list) {
+            if (symbol !== collateral.assetFtsoSymbol && (collateral.directPricePair || symbol !== collateral.tokenFtsoSymbol)) continue;
+            const minCR = toBN(collateral.minCollateralRatioBIPS);
+            const marginBIPS = minCR.sub(toBN(collateral.ccbMinCollateralRatioBIPS)).muln(MAX_BIPS).div(minCR);
+            result = result ? minBN(result, marginBIPS) : marginBIPS;
+        }
+        return result ?? BN_ZERO;
+    }
+
+    symbols() {
+        const symbols = new Set<string>();
+        for (const collateral of this.state.collaterals.list) {
+            symbols.add(collateral.assetFtsoSymbol);
+            if (!collateral.directPricePair) {
+                symbols.add(collateral.tokenFtsoSymbol);
+            }
+        }
+        return symbols;
+    }
+
+    async checkAll() {
+        const source = this.state.priceSource ?? new TokenPriceReader(this.state.context.priceReader);
+        const now = await this.state.clock.evmTimestamp();
+        const maxAge = this.maxPriceAgeSeconds();
+        const raised = new Set<string>();
+        for (const symbol of this.symbols()) {
+            const ftsoPrice = await this.readPrice(source, symbol, false, raised);
+            const trustedPrice = await this.readPrice(source, symbol, true, raised);
+            if (ftsoPrice) {
+                const age = maxBN(now.sub(ftsoPrice.timestamp), BN_ZERO);
+                if (age.gt(maxAge)) {
+                    this.raise(raised, this.stale, { type: 'stale', symbol, trusted: false, price: ftsoPrice, ageSeconds: age, maxAgeSeconds: maxAge });
+                }
+            }
+            if (ftsoPrice && trustedPrice) {
+                if (!trustedPrice.fresh(ftsoPrice, maxAge)) {
+                    const age = ftsoPrice.timestamp.sub(trustedPrice.timestamp);
+                    this.raise(raised, this.stale, { type: 'stale', symbol, trusted: true, price: trustedPrice, ageSeconds: age, maxAgeSeconds: maxAge });
+                } else {
+                    const divergenceBIPS = priceDivergenceBIPS(ftsoPrice, trustedPrice);
+                    const maxDivergenceBIPS = this.maxDivergenceBIPS(symbol);
+                    if (divergenceBIPS.gt(maxDivergenceBIPS)) {
+                        this.raise(raised, this.diverged, { type: 'diverged', symbol, ftsoPrice, trustedPrice, divergenceBIPS, maxDivergenceBIPS });
+                    }
+                }
+            }
+        }
+        const secondsSinceLastEpoch = this.state.clock.systemTimestamp().sub(this.lastPriceEpochAt);
+        if (secondsSinceLastEpoch.gt(maxAge)) {
+            this.raise(raised, this.epochStuck, { type: 'epochStuck', lastPriceEpochAt: this.lastPriceEpochAt, secondsSinceLastEpoch });
+        }
+        for (const [key, alert] of Array.from(this.activeAlerts)) {
+            if (raised.has(key)) continue;
+            this.activeAlerts.delete(key);
+            this.log(`PRICE MONITOR recovered: ${formatPriceAlert(alert)}`);
+            this.recovered.trigger(alert);
+        }
+    }
+
+    private async readPrice(source: TokenPriceSource, symbol: string, trusted: boolean, raised: Set<string>) {
+        try {
+            const price = await source.getRawPrice(symbol, trusted);
+            if (!price.price.isZero() && !price.timestamp.isZero()) return price;
+            // trusted prices are optional - the asset manager ignores them when they aren't set
+            if (!trusted) {
+                this.raise(raised, this.missing, { type: 'missing', symbol, trusted, error: "price not set" });
+            }
+        } catch (e) {
+            this.raise(raised, this.missing, { type: 'missing', symbol, trusted, error: String(e) });
+        }
+        return undefined;
+    }
+
+    private raise<A extends PriceAlert>(raised: Set<string>, event: TriggerableEvent<A>, alert: A) {
+        const key = alertKey(alert);
+        raised.add(key);
+        const isNew = !this.activeAlerts.has(key);
+        this.activeAlerts.set(key, alert);
+        if (isNew) {
+            this.log(`PRICE MONITOR ${formatPriceAlert(alert)}`);
+            event.trigger(alert);
+        }
+    }
+
+    private log(text: string) {
+        this.logger?.log(text);
+    }
+}
+
+function alertKey(alert: PriceAlert) {
+    switch (alert.type) {
+        case 'stale':
+        case 'missing':
+            return `${alert.type}:${alert.symbol}:trusted=${alert.trusted}`;
+        case 'diverged':
+            return `${alert.type}:${alert.symbol}`;
+        case 'epochStuck':
+            return alert.type;
+    }
+}
+
+/**
+ * Relative difference of two prices in BIPS (relative to the first price).
+ */
+export function priceDivergenceBIPS(price: TokenPrice, other: TokenPrice) {
+    const decimals = maxBN(price.decimals, other.decimals);
+    const value = price.price.mul(exp10(decimals.sub(price.decimals)));
+    const otherValue = other.price.mul(exp10(decimals.sub(other.decimals)));
+    if (value.isZero()) return otherValue.isZero() ? BN_ZERO : toBN(MAX_BIPS);
+    return value.sub(otherValue).abs().muln(MAX_BIPS).div(value);
+}
+
+export function formatPriceAlert(alert: PriceAlert) {
+    switch (alert.type) {
+        case 'stale':
+            return `stale ${alert.trusted ? "trusted" : "ftso"} price for ${alert.symbol}: ${alert.price}, age ${alert.ageSeconds}s > ${alert.maxAgeSeconds}s`;
+        case 'diverged':
+            return `ftso and trusted price for ${alert.symbol} diverged: ftso=${alert.ftsoPrice} trusted=${alert.trustedPrice}, difference ${alert.divergenceBIPS} > ${alert.maxDivergenceBIPS} BIPS`;
+        case 'missing':
+            return `missing ${alert.trusted ? "trusted" : "ftso"} price for ${alert.symbol}: ${alert.error}`;
+        case 'epochStuck':
+            return `no price epoch for ${alert.secondsSinceLastEpoch}s`;
+    }
+}
@@ -3,7 +3,7 @@ import { IAssetContext } from "../fasset/IAssetContext";
 import { requireNotNull } from "../utils/helpers";
 import { CollateralIndexedList, CollateralTypeId, isPoolCollateral } from "./CollateralIndexedList";
 import { CollateralPrice } from "./CollateralPrice";
-import { TokenPrice, TokenPriceReader } from "./TokenPrice";
+import { TokenPrice, TokenPriceReader, TokenPriceSource } from "./TokenPrice";
 
 export type StablecoinPrices = { [tokenAddress: string]: TokenPrice };
 
@@ -41,7 +41,7 @@ export class Prices {
         return '(' + Array.from(prices.entries()).map(([symbol, value]) => `${symbol}=${value.toFixed(3)}`).join(', ') + ')';
     }
 
-    static async getFtsoPrices(priceReader: TokenPriceReader, settings: AssetManagerSettings, collaterals: Iterable<CollateralType>, trusted: boolean = false): Promise<Prices> {
+    static async getFtsoPrices(priceReader: TokenPriceSource, settings: AssetManagerSettings, collaterals: Iterable<CollateralType>, trusted: boolean = false): Promise<Prices> {
         const collateralPrices = new CollateralIndexedList<CollateralPrice>();
         for (const collateral of collaterals) {
             const collateralPrice = await CollateralPrice.forCollateral(priceReader, settings, collateral, trusted);
@@ -50,8 +50,9 @@ export class Prices {
         return new Prices(collateralPrices);
     }
 
-    static async getPrices(context: IAssetContext, settings: AssetManagerSettings, collaterals: Iterable<CollateralType>): Promise<[Prices, Prices]> {
-        const priceReader = new TokenPriceReader(context.priceReader);
+    // by default, prices are read from the context's price reader
+    static async getPrices(context: IAssetContext, settings: AssetManagerSettings, collaterals: Iterable<CollateralType>, priceSource?: TokenPriceSource): Promise<[Prices, Prices]> {
+        const priceReader = priceSource ?? new TokenPriceReader(context.priceReader);
         const ftsoPrices = await this.getFtsoPrices(priceReader, settings, collaterals, false);
         const trustedPrices = await this.getFtsoPrices(priceReader, settings, collaterals, true);
         return [ftsoPrices, trustedPrices];
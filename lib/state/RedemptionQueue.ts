@@ -0,0 +1,94 @@
+import { RedemptionTicketCreated, RedemptionTicketDeleted, RedemptionTicketUpdated } from "../../typechain-truffle/AssetManager";
+import { AssetManagerSettings } from "../fasset/AssetManagerTypes";
+import { EvmEventArgs } from "../utils/events/IEvmEvents";
+import { BN_ZERO, MAX_BIPS, minBN, toBN } from "../utils/helpers";
+
+export interface RedemptionTicket {
+    id: BN;
+    agentVault: string;
+    valueUBA: BN;
+}
+
+export interface PredictedAgentRedemption {
+    agentVault: string;
+    lots: BN;
+    valueUBA: BN;
+    feeUBA: BN;
+    // the amount the agent has to pay on the underlying chain (value minus redemption fee)
+    paymentUBA: BN;
+}
+
+export interface RedemptionPrediction {
+    // one redemption request per agent, in the order of creation
+    requests: PredictedAgentRedemption[];
+    redeemedLots: BN;
+    // lots that won't be redeemed (RedemptionRequestIncomplete is emitted when nonzero; redeem() reverts when nothing is redeemed)
+    remainingLots: BN;
+    totalPaymentUBA: BN;
+}
+
+/**
+ * Mirror of the asset manager's redemption queue, built from redemption ticket events.
+ * New tickets are always appended to the queue, so the insertion order of the map is the queue order.
+ * There is no contract method for reading the queue, so the mirror is only complete if events were tracked since
+ * the asset manager was deployed (e.g. with a catch-up from the deployment block).
+ */
+export class TrackedRedemptionQueue {
+    tickets = new Map<string, RedemptionTicket>();     // ticket id => ticket (in queue order)
+
+    handleRedemptionTicketCreated(args: EvmEventArgs<RedemptionTicketCreated>) {
+        const id = toBN(args.redemptionTicketId);
+        this.tickets.set(String(id), { id, agentVault: args.agentVault, valueUBA: toBN(args.ticketValueUBA) });
+    }
+
+    handleRedemptionTicketUpdated(args: EvmEventArgs<RedemptionTicketUpdated>) {
+        const ticket = this.tickets.get(String(args.redemptionTicketId));
+        if (ticket) {
+            ticket.valueUBA = toBN(args.ticketValueUBA);
+        }
+    }
+
+    handleRedemptionTicketDeleted(args: EvmEventArgs<RedemptionTicketDeleted>) {
+        this.tickets.delete(String(args.redemptionTicketId));
+    }
+
+    totalValueUBA() {
+        let total = BN_ZERO;
+        for (const ticket of this.tickets.values()) {
+            total = total.add(ticket.valueUBA);
+        }
+        return total;
+    }
+
+    /**
+     * Predict the outcome of `redeem(lots)` in the current state, following RedemptionRequests.redeem:
+     * at most `maxRedeemedTickets` tickets are taken from the front of the queue and the lots redeemed from
+     * the same agent are joined in a single request.
+     */
+    predictRedemption(settings: AssetManagerSettings, lots: BN): RedemptionPrediction {
+        const lotSizeUBA = toBN(settings.lotSizeAMG).mul(toBN(settings.assetMintingGranularityUBA));
+        const maxRedeemedTickets = Number(settings.maxRedeemedTickets);
+        const byAgent = new Map<string, PredictedAgentRedemption>();
+        let redeemedLots = BN_ZERO;
+        let ticketCount = 0;
+        for (const ticket of this.tickets.values()) {
+            if (ticketCount >= maxRedeemedTickets || redeemedLots.gte(lots)) break;
+            const ticketLots = minBN(lots.sub(redeemedLots), ticket.valueUBA.div(lotSizeUBA));
+            if (ticketLots.isZero()) break;     // the contract stops at a ticket smaller than a lot
+            const request = byAgent.get(ticket.agentVault) ?? { agentVault: ticket.agentVault, lots: BN_ZERO, valueUBA: BN_ZERO, feeUBA: BN_ZERO, paymentUBA: BN_ZERO };
+            request.lots = request.lots.add(ticketLots);
+            byAgent.set(ticket.agentVault, request);
+            redeemedLots = redeemedLots.add(ticketLots);
+            ticketCount += 1;
+        }
+        const requests = Array.from(byAgent.values());
+        let totalPaymentUBA = BN_ZERO;
+        for (const request of requests) {
+            request.valueUBA = request.lots.mul(lotSizeUBA);
+            request.feeUBA = request.valueUBA.mul(toBN(settings.redemptionFeeBIPS)).divn(MAX_BIPS);
+            request.paymentUBA = request.valueUBA.sub(request.feeUBA);
+            totalPaymentUBA = totalPaymentUBA.add(request.paymentUBA);
+        }
+        return { requests, redeemedLots, remainingLots: lots.sub(redeemedLots), totalPaymentUBA };
+    }
+}
@@ -0,0 +1,208 @@
+import { readFileSync } from "fs";
+import { AgentInfo } from "../fasset/AssetManagerTypes";
+import { EventFormatter } from "../utils/events/EventFormatter";
+import { EvmEvent } from "../utils/events/common";
+import { ILogger } from "../utils/logging";
+import { TrackedAgentState } from "./TrackedAgentState";
+
+/**
+ * Agent state values written to the audit log (BN values as decimal strings).
+ */
+export interface AgentStateSnapshot {
+    status: number;
+    publiclyAvailable: boolean;
+    mintedUBA: string;
+    reservedUBA: string;
+    redeemingUBA: string;
+    poolRedeemingUBA: string;
+    dustUBA: string;
+    underlyingBalanceUBA: string;
+    totalVaultCollateralWei: string;
+    totalPoolCollateralNATWei: string;
+}
+
+export interface AgentStateDelta {
+    agentVault: string;
+    agentName: string;
+    // undefined before the agent is created or when its state was (re)loaded from chain
+    before?: AgentStateSnapshot;
+    // undefined after the agent is destroyed
+    after?: AgentStateSnapshot;
+}
+
+export interface AuditRecord {
+    event: string;
+    contract: string;
+    blockNumber?: number;
+    logIndex?: number;
+    transactionHash?: string;
+    args?: Record<string, string>;
+    agents: AgentStateDelta[];
+}
+
+export function agentStateSnapshot(agent: TrackedAgentState): AgentStateSnapshot {
+    return {
+        status: agent.status,
+        publiclyAvailable: agent.publiclyAvailable,
+        mintedUBA: String(agent.mintedUBA),
+        reservedUBA: String(agent.reservedUBA),
+        redeemingUBA: String(agent.redeemingUBA),
+        poolRedeemingUBA: String(agent.poolRedeemingUBA),
+        dustUBA: String(agent.dustUBA),
+        underlyingBalanceUBA: String(agent.underlyingBalanceUBA),
+        totalVaultCollateralWei: String(agent.totalVaultCollateralWei),
+        totalPoolCollateralNATWei: String(agent.totalPoolCollateralNATWei),
+    };
+}
+
+// the fields of getAgentInfo that correspond to the snapshot
+export function agentInfoSnapshot(agentInfo: AgentInfo): AgentStateSnapshot {
+    return {
+        status: Number(agentInfo.status),
+        publiclyAvailable: agentInfo.publiclyAvailable,
+        mintedUBA: String(agentInfo.mintedUBA),
+        reservedUBA: String(agentInfo.reservedUBA),
+        redeemingUBA: String(agentInfo.redeemingUBA),
+        poolRedeemingUBA: String(agentInfo.poolRedeemingUBA),
+        dustUBA: String(agentInfo.dustUBA),
+        underlyingBalanceUBA: String(agentInfo.underlyingBalanceUBA),
+        totalVaultCollateralWei: String(agentInfo.totalVaultCollateralWei),
+        totalPoolCollateralNATWei: String(agentInfo.totalPoolCollateralNATWei),
+    };
+}
+
+export function snapshotDifferences(expected: AgentStateSnapshot, actual: AgentStateSnapshot) {
+    const differences: string[] = [];
+    for (const key of Object.keys(expected) as Array<keyof AgentStateSnapshot>) {
+        if (expected[key] !== actual[key]) {
+            differences.push(`${key}: ${expected[key]} != ${actual[key]}`);
+        }
+    }
+    return differences;
+}
+
+/**
+ * Append-only log of handled events and the resulting agent state changes, one JSON record per line.
+ */
+export class StateAuditLog {
+    constructor(
+        public logger: ILogger,
+        public eventFormatter: EventFormatter,
+    ) { }
+
+    writeEvent(event: EvmEvent, agents: AgentStateDelta[]) {
+        this.write({
+            event: event.event,
+            contract: this.eventFormatter.formatAddress(event.address),
+            blockNumber: event.blockNumber,
+            logIndex: event.logIndex,
+            transactionHash: event.transactionHash,
+            args: this.formatArgs(event),
+            agents: agents,
+        });
+    }
+
+    // state change that is not caused by a single event (e.g. agent state read from chain)
+    writeStateLoaded(reason: string, agent: TrackedAgentState) {
+        this.write({
+            event: reason,
+            contract: this.eventFormatter.formatAddress(agent.address),
+            agents: [{ agentVault: agent.address, agentName: this.eventFormatter.formatAddress(agent.address), after: agentStateSnapshot(agent) }],
+        });
+    }
+
+    agentDelta(agentVault: string, before?: AgentStateSnapshot, after?: AgentStateSnapshot): AgentStateDelta {
+        return { agentVault, agentName: this.eventFormatter.formatAddress(agentVault), before, after };
+    }
+
+    private write(record: AuditRecord) {
+        this.logger.log(JSON.stringify(record));
+    }
+
+    private formatArgs(event: EvmEvent) {
+        const args: Record<string, string> = {};
+        for (const [key, value] of Object.entries(this.eventFormatter.formatArgs(event))) {
+            if (/^\d+$/.test(key) || key === '__length__') continue;    // positional duplicates of named args
+            args[key] = String(value);
+        }
+        return args;
+    }
+}
+
+export function readAuditLog(path: string): AuditRecord[] {
+    return readFileSync(path).toString()
+        .split("\n")
+        .filter(line => line.trim() !== "")
+        .map(line => JSON.parse(line) as AuditRecord);
+}
+
+/**
+ * Continuity check of an audit log. Events are not re-executed - the logged states are only chained together:
+ * every record's `before` state must match the state after the agent's previous record, otherwise some
+ * state change was not logged (reported in `errors`). The last logged states can be compared with actual states.
+ */
+export class AuditLogContinuityCheck {
+    agents = new Map<string, AgentStateSnapshot>();     // agent vault => state after the agent's last record
+    agentNames = new Map<string, string>();
+    errors: string[] = [];
+    recordCount = 0;
+
+    apply(record: AuditRecord) {
+        this.recordCount += 1;
+        for (const delta of record.agents) {
+            this.agentNames.set(delta.agentVault, delta.agentName);
+            const current = this.agents.get(delta.agentVault);
+            if (current && delta.before) {
+                const differences = snapshotDifferences(current, delta.before);
+                if (differences.length > 0) {
+                    this.errors.push(`${delta.agentName} state changed before ${recordInfo(record)} without a log record: ${differences.join(", ")}`);
+                }
+            }
+            if (delta.after) {
+                this.agents.set(delta.agentVault, delta.after);
+            } else {
+                this.agents.delete(delta.agentVault);
+            }
+        }
+    }
+
+    applyAll(records: Iterable<AuditRecord>) {
+        for (const record of records) {
+            this.apply(record);
+        }
+        return this;
+    }
+
+    /**
+     * Compare the last logged states with actual states (e.g. tracked state or `getAgentInfo`).
+     * Returns the list of differences; agents that are missing on either side are also reported.
+     */
+    verify(actualStates: Map<string, AgentStateSnapshot>) {
+        const differences: string[] = [];
+        for (const [agentVault, state] of this.agents) {
+            const name = this.agentNames.get(agentVault) ?? agentVault;
+            const actual = actualStates.get(agentVault);
+            if (!actual) {
+                differences.push(`${name}: missing in actual state`);
+                continue;
+            }
+            for (const difference of snapshotDifferences(state, actual)) {
+                differences.push(`${name}: ${difference}`);
+            }
+        }
+        for (const agentVault of actualStates.keys()) {
+            if (!this.agents.has(agentVault)) {
+                differences.push(`${agentVault}: missing in audit log`);
+            }
+        }
+        return differences;
+    }
+
+    static checkFile(path: string) {
+        return new AuditLogContinuityCheck().applyAll(readAuditLog(path));
+    }
+}
+
+function recordInfo(record: AuditRecord) {
+    return record.blockNumber != null ? `${record.event} at block ${record.blockNumber} (index ${record.logIndex})` : record.event;
+}
@@ -0,0 +1,179 @@
+import { AgentStatus, CollateralClass } from "../fasset/AssetManagerTypes";
+import { BN_ZERO, MAX_BIPS, maxBN, toBN } from "../utils/helpers";
+import { TrackedAgentState } from "./TrackedAgentState";
+import { TrackedState } from "./TrackedState";
+
+interface AgentContribution {
+    status: AgentStatus;
+    mintedUBA: BN;
+    reservedUBA: BN;
+    redeemingUBA: BN;
+    poolRedeemingUBA: BN;
+    vaultCollateralToken: string;
+    vaultCollateralWei: BN;
+    poolCollateralToken: string;
+    poolCollateralWei: BN;
+}
+
+/**
+ * System-wide aggregates over all tracked agents.
+ * Totals are updated incrementally - TrackedState marks agents as changed on their events and collateral transfers,
+ * and only the changed agents' contributions are recomputed when the metrics are read.
+ * Price dependent values (collateral ratios, free lots) are calculated on request.
+ */
+export class TrackedSystemMetrics {
+    constructor(
+        public parent: TrackedState,
+    ) { }
+
+    private contributions = new Map<string, AgentContribution>();   // agent address => last accounted contribution
+    private changedAgents = new Set<string>();
+
+    private _totalMintedUBA = BN_ZERO;
+    private _totalReservedUBA = BN_ZERO;
+    private _totalRedeemingUBA = BN_ZERO;
+    private _totalPoolRedeemingUBA = BN_ZERO;
+    private _vaultCollateralWei = new Map<string, BN>();     // token => total in agent vaults
+    private _poolCollateralWei = new Map<string, BN>();      // token => total in collateral pools
+    private _agentsByStatus = new Map<AgentStatus, number>();
+
+    agentChanged(agentVault: string) {
+        this.changedAgents.add(agentVault);
+    }
+
+    get totalMintedUBA() {
+        this.update();
+        return this._totalMintedUBA;
+    }
+
+    get totalReservedUBA() {
+        this.update();
+        return this._totalReservedUBA;
+    }
+
+    get totalRedeemingUBA() {
+        this.update();
+        return this._totalRedeemingUBA;
+    }
+
+    get totalPoolRedeemingUBA() {
+        this.update();
+        return this._totalPoolRedeemingUBA;
+    }
+
+    // total vault collateral per token
+    get vaultCollateralWei(): ReadonlyMap<string, BN> {
+        this.update();
+        return this._vaultCollateralWei;
+    }
+
+    // total pool collateral per token (there is more than one token only after wNat upgrade)
+    get poolCollateralWei(): ReadonlyMap<string, BN> {
+        this.update();
+        return this._poolCollateralWei;
+    }
+
+    get totalPoolCollateralWei() {
+        let total = BN_ZERO;
+        for (const value of this.poolCollateralWei.values()) {
+            total = total.add(value);
+        }
+        return total;
+    }
+
+    get agentsByStatus(): ReadonlyMap<AgentStatus, number> {
+        this.update();
+        return this._agentsByStatus;
+    }
+
+    /**
+     * System-wide collateral ratio for a collateral class: value of all agents' collateral of the class
+     * (at current FTSO prices) divided by all backed f-assets (reserved, minted and redeeming).
+     */
+    collateralRatioBIPS(collateralClass: CollateralClass) {
+        const isVault = collateralClass === CollateralClass.VAULT;
+        const redeemingUBA = isVault ? this.totalRedeemingUBA : this.totalPoolRedeemingUBA;
+        const backedUBA = this.totalReservedUBA.add(this.totalMintedUBA).add(redeemingUBA);
+        if (backedUBA.isZero()) return undefined;
+        let collateralValueUBA = BN_ZERO;
+        for (const [token, amountWei] of isVault ? this.vaultCollateralWei : this.poolCollateralWei) {
+            const collateral = this.parent.collaterals.getOptional(collateralClass, token);
+            if (!collateral) continue;
+            collateralValueUBA = collateralValueUBA.add(this.parent.prices.get(collateral).convertTokenWeiToUBA(amountWei));
+        }
+        return collateralValueUBA.muln(MAX_BIPS).div(backedUBA);
+    }
+
+    /**
+     * Sum of free collateral lots of all publicly available agents (see TrackedAgentState.freeCollateralLots).
+     */
+    availableFreeLots() {
+        let total = BN_ZERO;
+        for (const agent of this.parent.agents.values()) {
+            if (agent.publiclyAvailable && agent.status === AgentStatus.NORMAL) {
+                total = total.add(agent.freeCollateralLots());
+            }
+        }
+        return total;
+    }
+
+    /**
+     * Amount that can still be minted before reaching `mintingCapAMG`, as checked in Minting.checkMintingCap.
+     * Returns undefined when there is no minting cap.
+     */
+    mintingCapHeadroomUBA() {
+        const settings = this.parent.settings;
+        const mintingCapAMG = toBN(settings.mintingCapAMG);
+        if (mintingCapAMG.isZero()) return undefined;
+        const capUBA = mintingCapAMG.mul(toBN(settings.assetMintingGranularityUBA));
+        return maxBN(capUBA.sub(this.parent.fAssetSupply).sub(this.totalReservedUBA), BN_ZERO);
+    }
+
+    private update() {
+        for (const address of this.changedAgents) {
+            this.subtractContribution(address);
+            const agent = this.parent.getAgent(address);
+            if (agent) {
+                this.addContribution(address, this.agentContribution(agent));
+            }
+        }
+        this.changedAgents.clear();
+    }
+
+    private agentContribution(agent: TrackedAgentState): AgentContribution {
+        return {
+            status: agent.status,
+            mintedUBA: agent.mintedUBA,
+            reservedUBA: agent.reservedUBA,
+            redeemingUBA: agent.redeemingUBA,
+            poolRedeemingUBA: agent.poolRedeemingUBA,
+            vaultCollateralToken: agent.vaultCollateral.token,
+            vaultCollateralWei: agent.totalVaultCollateralWei,
+            poolCollateralToken: agent.poolWNatCollateral.token,
+            poolCollateralWei: agent.totalPoolCollateralNATWei,
+        };
+    }
+
+    private addContribution(address: string, contribution: AgentContribution) {
+        this.applyContribution(contribution, 1);
+        this.contributions.set(address, contribution);
+    }
+
+    private subtractContribution(address: string) {
+        const contribution = this.contributions.get(address);
+        if (!contribution) return;
+        this.applyContribution(contribution, -1);
+        this.contributions.delete(address);
+    }
+
+    private applyContribution(c: AgentContribution, sign: 1 | -1) {
+        const adjust = (total: BN, value: BN) => sign > 0 ? total.add(value) : total.sub(value);
+        this._totalMintedUBA = adjust(this._totalMintedUBA, c.mintedUBA);
+        this._totalReservedUBA = adjust(this._totalReservedUBA, c.reservedUBA);
+        this._totalRedeemingUBA = adjust(this._totalRedeemingUBA, c.redeemingUBA);
+        this._totalPoolRedeemingUBA = adjust(this._totalPoolRedeemingUBA, c.poolRedeemingUBA);
+        this._vaultCollateralWei.set(c.vaultCollateralToken, adjust(this._vaultCollateralWei.get(c.vaultCollateralToken) ?? BN_ZERO, c.vaultCollateralWei));
+        this._poolCollateralWei.set(c.poolCollateralToken, adjust(this._poolCollateralWei.get(c.poolCollateralToken) ?? BN_ZERO, c.poolCollateralWei));
+        this._agentsByStatus.set(c.status, (this._agentsByStatus.get(c.status) ?? 0) + sign);
+    }
+}
@@ -4,15 +4,17 @@ import { ERC20Events } from "../fasset/IAssetContext";
 import { ContractWithEvents } from "../utils/events/truffle";
 import { BN_ZERO, BNish, exp10, getOrCreateAsync, minBN, requireNotNull, toBN } from "../utils/helpers";
 
-const IPriceReader = artifacts.require("IPriceReader");
-const IERC20 = artifacts.require('@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20' as any) as any as IERC20Contract;
+// contract artifacts are only required when used, so that the off-chain price sources don't need the hardhat runtime
+function ierc20Contract() {
+    return artifacts.require('@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20' as any) as any as IERC20Contract;
+}
 
 export async function tokenContract(tokenAddress: string) {
-    return await IERC20.at(tokenAddress) as ContractWithEvents<IERC20Instance, ERC20Events>;
+    return await ierc20Contract().at(tokenAddress) as ContractWithEvents<IERC20Instance, ERC20Events>;
 }
 
 export async function tokenBalance(tokenAddress: string, owner: string) {
-    const token = await IERC20.at(tokenAddress);
+    const token = await ierc20Contract().at(tokenAddress);
     return await token.balanceOf(owner);
 }
 
@@ -59,14 +61,40 @@ export class TokenPrice {
     }
 }
 
-export class TokenPriceReader {
+/**
+ * Source of FTSO and trusted prices by symbol.
+ * Subclasses provide raw prices; the choice between trusted and FTSO price is the same as in the asset manager.
+ */
+export abstract class TokenPriceSource {
+    abstract getRawPrice(symbol: string, trusted: boolean): Promise<TokenPrice>;
+
+    async getPrice(symbol: string, trusted?: false): Promise<TokenPrice>;
+    async getPrice(symbol: string, trusted: boolean, trustedMaxAge: BNish): Promise<TokenPrice>;
+    async getPrice(symbol: string, trusted: boolean = false, trustedMaxAge?: BNish) {
+        const ftsoPrice = await this.getRawPrice(symbol, false);
+        if (trusted) {
+            const trustedPrice = await this.getRawPrice(symbol, true);
+            return trustedPrice.fresh(ftsoPrice, toBN(requireNotNull(trustedMaxAge))) ? trustedPrice : ftsoPrice;
+        } else {
+            return ftsoPrice;
+        }
+    }
+}
+
+/**
+ * Reads prices from the on-chain price reader. Prices are cached, so a new instance is needed for fresh prices.
+ */
+export class TokenPriceReader extends TokenPriceSource {
     priceCache: Map<string, TokenPrice> = new Map();
 
     constructor(
         public priceReader: IPriceReaderInstance
-    ) { }
+    ) {
+        super();
+    }
 
     static async create(settings: { priceReader: string }) {
+        const IPriceReader = artifacts.require("IPriceReader");
         const priceReader = await IPriceReader.at(settings.priceReader);
         return new TokenPriceReader(priceReader);
     }
@@ -78,16 +106,4 @@ export class TokenPriceReader {
             return new TokenPrice(toBN(price), toBN(timestamp), toBN(decimals));
         });
     }
-
-    async getPrice(symbol: string, trusted?: false): Promise<TokenPrice>;
-    async getPrice(symbol: string, trusted: boolean, trustedMaxAge: BNish): Promise<TokenPrice>;
-    async getPrice(symbol: string, trusted: boolean = false, trustedMaxAge?: BNish) {
-        const ftsoPrice = await this.getRawPrice(symbol, false);
-        if (trusted) {
-            const trustedPrice = await this.getRawPrice(symbol, true);
-            return trustedPrice.fresh(ftsoPrice, toBN(requireNotNull(trustedMaxAge))) ? trustedPrice : ftsoPrice;
-        } else {
-            return ftsoPrice;
-        }
-    }
 }
@@ -0,0 +1,148 @@
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { BN_ZERO, BNish, toBN, toBNExp } from "../utils/helpers";
+import { TokenPrice, TokenPriceSource } from "./TokenPrice";
+
+export interface PricePoint {
+    symbol: string;
+    timestamp: number;
+    // decimal price, e.g. "0.02514" (must have at most `decimals` decimal places)
+    price: number | string;
+    decimals: number;
+    // price from trusted providers (when there is no trusted series for a symbol, the FTSO price is used)
+    trusted?: boolean;
+}
+
+function seriesKey(symbol: string, trusted: boolean) {
+    return `${symbol}::trusted=${trusted}`;
+}
+
+/**
+ * Historical price series, e.g. for backtesting on recorded price paths.
+ * Prices are returned as they were at `time` (the last point at or before it); when `time` is not set, the latest prices are used.
+ */
+export class TimeSeriesPriceSource extends TokenPriceSource {
+    constructor(
+        points: PricePoint[],
+    ) {
+        super();
+        for (const point of points) {
+            const key = seriesKey(point.symbol, point.trusted ?? false);
+            const series = this.series.get(key) ?? [];
+            series.push(new TokenPrice(toBNExp(point.price, point.decimals), toBN(point.timestamp), toBN(point.decimals)));
+            this.series.set(key, series);
+        }
+        for (const series of this.series.values()) {
+            series.sort((a, b) => a.timestamp.cmp(b.timestamp));
+        }
+    }
+
+    private series = new Map<string, TokenPrice[]>();   // symbol and trusted flag => prices, sorted by timestamp
+
+    time?: BN;
+
+    setTime(timestamp: BNish) {
+        this.time = toBN(timestamp);
+    }
+
+    // all distinct timestamps, sorted (useful for stepping through the series)
+    timestamps() {
+        const timestamps = new Map<string, BN>();
+        for (const series of this.series.values()) {
+            for (const price of series) {
+                timestamps.set(String(price.timestamp), price.timestamp);
+            }
+        }
+        return Array.from(timestamps.values()).sort((a, b) => a.cmp(b));
+    }
+
+    async getRawPrice(symbol: string, trusted: boolean) {
+        const series = this.series.get(seriesKey(symbol, trusted)) ?? this.series.get(seriesKey(symbol, false));
+        if (series == null) {
+            throw new Error(`No price series for ${symbol}`);
+        }
+        const price = this.time != null ? this.lastPriceAt(series, this.time) : series[series.length - 1];
+        if (price == null) {
+            throw new Error(`No price for ${symbol} at ${this.time}`);
+        }
+        return price;
+    }
+
+    private lastPriceAt(series: TokenPrice[], time: BN): TokenPrice | undefined {
+        // binary search for the last price with timestamp <= time
+        let [low, high] = [0, series.length];
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (series[mid].timestamp.lte(time)) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low > 0 ? series[low - 1] : undefined;
+    }
+
+    static fromJson(json: string) {
+        return new TimeSeriesPriceSource(JSON.parse(json) as PricePoint[]);
+    }
+
+    /**
+     * Parse CSV with header line and columns `timestamp,symbol,price,decimals` and optional `trusted` (true/false or 1/0).
+     */
+    static fromCsv(csv: string) {
+        const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line !== "");
+        const header = (lines.shift() ?? "").split(",").map(name => name.trim());
+        for (const column of ["timestamp", "symbol", "price", "decimals"]) {
+            if (!header.includes(column)) throw new Error(`Missing column '${column}' in price csv`);
+        }
+        const points = lines.map(line => {
+            const fields = line.split(",").map(field => field.trim());
+            const value = (column: string) => fields[header.indexOf(column)];
+            const trusted = header.includes("trusted") && ["true", "1"].includes(value("trusted").toLowerCase());
+            return { symbol: value("symbol"), timestamp: Number(value("timestamp")), price: value("price"), decimals: Number(value("decimals")), trusted };
+        });
+        return new TimeSeriesPriceSource(points);
+    }
+
+    // file format is chosen by extension (.csv or json otherwise)
+    static load(path: string) {
+        const content = readFileSync(path).toString();
+        return extname(path).toLowerCase() === ".csv" ? TimeSeriesPriceSource.fromCsv(content) : TimeSeriesPriceSource.fromJson(content);
+    }
+}
+
+/**
+ * Prices set directly by the caller, e.g. for static scenarios in simulations.
+ * Prices are timestamped with the source's current `timestamp`, which only changes through `setTime` or `skipTime`.
+ */
+export class ScriptedPriceSource extends TokenPriceSource {
+    private prices = new Map<string, TokenPrice>();
+
+    timestamp = BN_ZERO;
+
+    setTime(timestamp: BNish) {
+        this.timestamp = toBN(timestamp);
+    }
+
+    skipTime(seconds: BNish) {
+        this.timestamp = this.timestamp.add(toBN(seconds));
+    }
+
+    setPrice(symbol: string, price: number | string, decimals: number = 5, trusted: boolean = false) {
+        this.prices.set(seriesKey(symbol, trusted), new TokenPrice(toBNExp(price, decimals), this.timestamp, toBN(decimals)));
+    }
+
+    setPrices(prices: Record<string, number | string>, decimals: number = 5, trusted: boolean = false) {
+        for (const [symbol, price] of Object.entries(prices)) {
+            this.setPrice(symbol, price, decimals, trusted);
+        }
+    }
+
+    async getRawPrice(symbol: string, trusted: boolean) {
+        const price = this.prices.get(seriesKey(symbol, trusted)) ?? this.prices.get(seriesKey(symbol, false));
+        if (price == null) {
+            throw new Error(`No price for ${symbol}`);
+        }
+        return price;
+    }
+}
@@ -1,21 +1,41 @@
+import { BlockNumber } from "web3-core";
 import {
-    AgentAvailable, AgentVaultCreated, AvailableAgentExited, CollateralReservationDeleted, CollateralReserved, DustChanged, LiquidationPerformed, MintingExecuted, MintingPaymentDefault,
-    RedeemedInCollateral, RedemptionDefault, RedemptionPaymentBlocked, RedemptionPaymentFailed, RedemptionPerformed, RedemptionRequested, RedemptionTicketCreated, RedemptionTicketDeleted,
-    RedemptionTicketUpdated, SelfClose, UnderlyingBalanceToppedUp, UnderlyingWithdrawalAnnounced, UnderlyingWithdrawalCancelled, UnderlyingWithdrawalConfirmed
+    AgentAvailable, AgentCollateralTypeChanged, AgentSettingChangeAnnounced, AgentVaultCreated, AvailableAgentExitAnnounced, AvailableAgentExited, CollateralReservationDeleted,
+    CollateralReserved, DuplicatePaymentConfirmed, DustChanged, IllegalPaymentConfirmed, LiquidationPerformed, MintingExecuted, MintingPaymentDefault, PoolTokenRedemptionAnnounced,
+    RedeemedInCollateral, RedemptionDefault, RedemptionPaymentBlocked, RedemptionPerformed, RedemptionRejected, RedemptionRequested, RedemptionTicketCreated,
+    RedemptionTicketDeleted, RedemptionTicketUpdated, SelfClose, UnderlyingBalanceChanged, UnderlyingBalanceTooLow, UnderlyingWithdrawalAnnounced,
+    UnderlyingWithdrawalCancelled, UnderlyingWithdrawalConfirmed, VaultCollateralWithdrawalAnnounced
 } from "../../typechain-truffle/AssetManager";
 import { AgentInfo, AgentSetting, AgentStatus, CollateralType, CollateralClass } from "../fasset/AssetManagerTypes";
 import { roundUBAToAmg } from "../fasset/Conversions";
 import { EvmEventArgs } from "../utils/events/IEvmEvents";
-import { EventArgs } from "../utils/events/common";
-import { BN_ONE, BN_ZERO, BNish, MAX_BIPS, formatBN, maxBN, toBN } from "../utils/helpers";
+import { EventScope } from "../utils/events/ScopedEvents";
+import { EventArgs, EvmEvent } from "../utils/events/common";
+import { BN_ONE, BN_ZERO, BNish, MAX_BIPS, filterStackTrace, formatBN, maxBN, minBN, toBN } from "../utils/helpers";
 import { ILogger } from "../utils/logging";
 import { Prices } from "./Prices";
+import { tokenContract } from "./TokenPrice";
+import { TrackedPoolState } from "./TrackedPoolState";
 import { TrackedState } from "./TrackedState";
 
 const MAX_UINT256 = toBN(1).shln(256).subn(1);
 
 export type InitialAgentData = EventArgs<AgentVaultCreated> & { poolWNat: string };
 
+// announced vault collateral withdrawal or pool token redemption
+// (the amount is the announced one - partial withdrawals are not tracked)
+export interface AnnouncedWithdrawal {
+    amountWei: BN;
+    allowedAt: BN;
+}
+
+export interface AnnouncedSettingChange {
+    value: BN;
+    validAt: BN;
+}
+
+export type FullLiquidationReason = 'illegalPayment' | 'duplicatePayment' | 'underlyingBalanceTooLow';
+
 export class TrackedAgentState {
     constructor(
         public parent: TrackedState,
@@ -43,6 +63,11 @@ export class TrackedAgentState {
     underlyingAddressString: string;
     collateralPoolAddress: string;
 
+    // collateral pool
+    pool = new TrackedPoolState(this);
+    // subscriptions to the collateral pool and pool token events, finished when the agent is destroyed or replaced
+    poolSubscriptions = new EventScope();
+
     // agent's settings
     vaultCollateral: CollateralType;
     poolWNatCollateral: CollateralType;
@@ -62,9 +87,25 @@ export class TrackedAgentState {
     // state
     totalVaultCollateralWei: BN = BN_ZERO;
     totalPoolCollateralNATWei: BN = BN_ZERO;
-    ccbStartTimestamp: BN = BN_ZERO;                // 0 - not in ccb/liquidation
-    liquidationStartTimestamp: BN = BN_ZERO;        // 0 - not in liquidation
+    ccbStartTimestamp: BN = BN_ZERO;                // 0 - not in ccb or in liquidation that didn't start in ccb
+    liquidationStartTimestamp: BN = BN_ZERO;        // 0 - not in ccb/liquidation; for liquidation started in ccb, the end of ccb
+    // collaterals that were under the liquidation threshold in current liquidation (as Agent.collateralsUnderwater);
+    // unknown for liquidations started before tracking
+    underwaterCollaterals = new Set<CollateralClass>();
     announcedUnderlyingWithdrawalId: BN = BN_ZERO;  // 0 - not announced
+    exitAvailableAllowedAt: BN = BN_ZERO;           // 0 - exit from available list not announced
+
+    // pending timelocked operations (the ones announced before tracking started are unknown)
+    announcedVaultCollateralWithdrawal?: AnnouncedWithdrawal;
+    announcedPoolTokenRedemption?: AnnouncedWithdrawal;
+    announcedSettingChanges = new Map<string, AnnouncedSettingChange>();   // setting name => change
+
+    // last handled asset manager event for this agent (for diagnostics)
+    lastEvent?: EvmEvent;
+
+    // successful challenges and balance checks
+    fullLiquidationReason?: FullLiquidationReason;
+    illegalTransactionHashes = new Set<string>();
 
     // aggregates
     reservedUBA: BN = BN_ZERO;
@@ -109,18 +150,74 @@ export class TrackedAgentState {
         this.publiclyAvailable = true;
     }
 
+    handleAvailableAgentExitAnnounced(args: EvmEventArgs<AvailableAgentExitAnnounced>) {
+        this.exitAvailableAllowedAt = toBN(args.exitAllowedAt);
+    }
+
     handleAvailableAgentExited(args: EvmEventArgs<AvailableAgentExited>) {
         this.publiclyAvailable = false;
+        this.exitAvailableAllowedAt = BN_ZERO;
     }
 
     // handlers: agent settings
 
+    handleSettingChangeAnnounced(args: EvmEventArgs<AgentSettingChangeAnnounced>) {
+        this.announcedSettingChanges.set(args.name, { value: toBN(args.value), validAt: toBN(args.validAt) });
+    }
+
     handleSettingChanged(name: string, value: BNish) {
+        this.announcedSettingChanges.delete(name);
         if (!["feeBIPS", "poolFeeShareBIPS", "mintingVaultCollateralRatioBIPS", "mintingPoolCollateralRatioBIPS",
             "buyFAssetByAgentFactorBIPS", "poolExitCollateralRatioBIPS", "poolTopupCollateralRatioBIPS", "poolTopupTokenPriceFactorBIPS"].includes(name)) return;
         this[name as AgentSetting] = toBN(value);
     }
 
+    // handlers: collateral
+
+    handleAgentCollateralTypeChanged(args: EvmEventArgs<AgentCollateralTypeChanged>) {
+        const collateral = this.parent.collaterals.get(args.collateralClass, args.token);
+        if (Number(collateral.collateralClass) === CollateralClass.VAULT) {
+            this.vaultCollateral = collateral;
+        } else {
+            this.poolWNatCollateral = collateral;
+        }
+        // transfers of the new token weren't tracked before the switch
+        void this.updateCollateralBalanceAt(collateral, args.$event.blockNumber)
+            .catch(e => {
+                // e.g. the node doesn't keep historical state
+                this.parent.logger?.log(`!!! ERROR reading collateral balance of agent ${this.address} at block ${args.$event.blockNumber}, using latest: ${filterStackTrace(e)}`);
+                return this.updateCollateralBalanceAt(collateral, 'latest');
+            })
+            .catch(e => this.parent.logger?.log(`!!! ERROR reading collateral balance of agent ${this.address}: ${filterStackTrace(e)}`));
+    }
+
+    handleVaultCollateralWithdrawalAnnounced(args: EvmEventArgs<VaultCollateralWithdrawalAnnounced>) {
+        this.announcedVaultCollateralWithdrawal = this.announcedWithdrawal(args.amountWei, args.withdrawalAllowedAt);
+    }
+
+    handlePoolTokenRedemptionAnnounced(args: EvmEventArgs<PoolTokenRedemptionAnnounced>) {
+        this.announcedPoolTokenRedemption = this.announcedWithdrawal(args.amountWei, args.withdrawalAllowedAt);
+    }
+
+    private announcedWithdrawal(amountWei: BNish, allowedAt: BNish): AnnouncedWithdrawal | undefined {
+        // announcement with zero amount cancels the previous one
+        return toBN(amountWei).isZero() ? undefined : { amountWei: toBN(amountWei), allowedAt: toBN(allowedAt) };
+    }
+
+    private async updateCollateralBalanceAt(collateral: CollateralType, blockNumber: BlockNumber) {
+        const token = await tokenContract(collateral.token);
+        const isVault = Number(collateral.collateralClass) === CollateralClass.VAULT;
+        // balance at the end of switch block (transfers later in the same block would be counted twice, but that is very unlikely)
+        const balance = toBN(await token.contract.methods.balanceOf(isVault ? this.address : this.collateralPoolAddress).call({}, blockNumber));
+        if (isVault) {
+            this.totalVaultCollateralWei = balance;
+        } else {
+            this.totalPoolCollateralNATWei = balance;
+        }
+        this.parent.metrics.agentChanged(this.address);
+        this.parent.auditLog?.writeStateLoaded('CollateralBalanceRead', this);
+    }
+
     // handlers: minting
 
     handleCollateralReserved(args: EvmEventArgs<CollateralReserved>) {
@@ -131,10 +228,7 @@ export class TrackedAgentState {
 
     handleMintingExecuted(args: EvmEventArgs<MintingExecuted>) {
         const mintedAmountUBA = toBN(args.mintedAmountUBA);
-        const agentFeeUBA = toBN(args.agentFeeUBA);
         const poolFeeUBA = toBN(args.poolFeeUBA);
-        // update underlying free balance
-        this.underlyingBalanceUBA = this.underlyingBalanceUBA.add(mintedAmountUBA).add(agentFeeUBA).add(poolFeeUBA);
         // create redemption ticket
         this.mintedUBA = this.mintedUBA.add(mintedAmountUBA).add(poolFeeUBA);
         // delete collateral reservation
@@ -161,16 +255,14 @@ export class TrackedAgentState {
 
     handleRedemptionPerformed(args: EvmEventArgs<RedemptionPerformed>): void {
         this.updateRedeemingUBA(args.requestId, toBN(args.redemptionAmountUBA).neg());
-        this.underlyingBalanceUBA = this.underlyingBalanceUBA.sub(args.spentUnderlyingUBA);
     }
 
-    handleRedemptionPaymentFailed(args: EvmEventArgs<RedemptionPaymentFailed>): void {
-        this.underlyingBalanceUBA = this.underlyingBalanceUBA.sub(args.spentUnderlyingUBA);
+    handleRedemptionPaymentBlocked(args: EvmEventArgs<RedemptionPaymentBlocked>): void {
+        this.updateRedeemingUBA(args.requestId, toBN(args.redemptionAmountUBA).neg());
     }
 
-    handleRedemptionPaymentBlocked(args: EvmEventArgs<RedemptionPaymentBlocked>): void {
+    handleRedemptionRejected(args: EvmEventArgs<RedemptionRejected>): void {
         this.updateRedeemingUBA(args.requestId, toBN(args.redemptionAmountUBA).neg());
-        this.underlyingBalanceUBA = this.underlyingBalanceUBA.sub(args.spentUnderlyingUBA);
     }
 
     handleRedemptionDefault(args: EvmEventArgs<RedemptionDefault>): void {
@@ -215,28 +307,84 @@ export class TrackedAgentState {
 
     // handlers: status
 
+    // Timestamps and underwater collaterals follow Liquidation._upgradeLiquidationPhase and startFullLiquidation.
     handleStatusChange(status: AgentStatus, timestamp?: BN): void {
         if (timestamp && this.status === AgentStatus.NORMAL && status === AgentStatus.CCB) {
             this.ccbStartTimestamp = timestamp;
+            this.liquidationStartTimestamp = timestamp.add(toBN(this.parent.settings.ccbTimeSeconds));
+            this.markUnderwaterCollaterals(collateral => collateral.minCollateralRatioBIPS);
         }
-        if (timestamp && (this.status === AgentStatus.NORMAL || this.status === AgentStatus.CCB) && (status === AgentStatus.LIQUIDATION || status === AgentStatus.FULL_LIQUIDATION)) {
+        if (timestamp && (this.status === AgentStatus.NORMAL || this.status === AgentStatus.CCB) && status === AgentStatus.LIQUIDATION) {
+            this.ccbStartTimestamp = BN_ZERO;
             this.liquidationStartTimestamp = timestamp;
+            this.markUnderwaterCollaterals(collateral => collateral.ccbMinCollateralRatioBIPS);
+        }
+        if (timestamp && this.status !== AgentStatus.FULL_LIQUIDATION && this.status !== AgentStatus.DESTROYING && status === AgentStatus.FULL_LIQUIDATION) {
+            // liquidation that is already past ccb keeps its start, but full liquidation doesn't add ccb time
+            const inLiquidationPhase = this.status === AgentStatus.LIQUIDATION || (this.status === AgentStatus.CCB && timestamp.gt(this.liquidationStartTimestamp));
+            if (!inLiquidationPhase) {
+                this.liquidationStartTimestamp = timestamp;
+            } else if (!this.ccbStartTimestamp.isZero()) {
+                this.liquidationStartTimestamp = this.ccbStartTimestamp;
+            }
+            this.ccbStartTimestamp = BN_ZERO;
+        }
+        if (status === AgentStatus.NORMAL) {
+            this.ccbStartTimestamp = BN_ZERO;
+            this.liquidationStartTimestamp = BN_ZERO;
+            this.underwaterCollaterals.clear();
         }
         this.status = status;
     }
 
-    // handlers: underlying withdrawal
+    private markUnderwaterCollaterals(thresholdBIPS: (collateral: CollateralType) => BNish) {
+        this.underwaterCollaterals.clear();
+        for (const collateral of [this.vaultCollateral, this.poolWNatCollateral]) {
+            if (this.collateralRatioBIPS(collateral).lt(toBN(thresholdBIPS(collateral)))) {
+                this.underwaterCollaterals.add(Number(collateral.collateralClass));
+            }
+        }
+    }
+
+    // handlers: underlying balance
+
+    // The contract reports the new balance after every change. Events like MintingExecuted are emitted before or
+    // after the balance change (depending on the operation), so the balance is only taken from this event.
+    handleUnderlyingBalanceChanged(args: EvmEventArgs<UnderlyingBalanceChanged>): void {
+        this.underlyingBalanceUBA = toBN(args.underlyingBalanceUBA);
+    }
 
-    handleUnderlyingBalanceToppedUp(args: EvmEventArgs<UnderlyingBalanceToppedUp>): void {
-        this.underlyingBalanceUBA = this.underlyingBalanceUBA.add(args.depositedUBA);
+    handleUnderlyingBalanceTooLow(args: EvmEventArgs<UnderlyingBalanceTooLow>): void {
+        this.setFullLiquidationReason('underlyingBalanceTooLow');
     }
 
+    // handlers: challenges
+
+    handleIllegalPaymentConfirmed(args: EvmEventArgs<IllegalPaymentConfirmed>): void {
+        this.setFullLiquidationReason('illegalPayment');
+        this.illegalTransactionHashes.add(args.transactionHash);
+    }
+
+    handleDuplicatePaymentConfirmed(args: EvmEventArgs<DuplicatePaymentConfirmed>): void {
+        this.setFullLiquidationReason('duplicatePayment');
+        this.illegalTransactionHashes.add(args.transactionHash1);
+        this.illegalTransactionHashes.add(args.transactionHash2);
+    }
+
+    private setFullLiquidationReason(reason: FullLiquidationReason) {
+        // only the first cause is interesting, full liquidation never ends
+        if (this.fullLiquidationReason == null) {
+            this.fullLiquidationReason = reason;
+        }
+    }
+
+    // handlers: underlying withdrawal
+
     handleUnderlyingWithdrawalAnnounced(args: EvmEventArgs<UnderlyingWithdrawalAnnounced>): void {
         this.announcedUnderlyingWithdrawalId = args.announcementId;
     }
 
     handleUnderlyingWithdrawalConfirmed(args: EvmEventArgs<UnderlyingWithdrawalConfirmed>): void {
-        this.underlyingBalanceUBA = this.underlyingBalanceUBA.sub(args.spentUBA);
         this.announcedUnderlyingWithdrawalId = BN_ZERO;
     }
 
@@ -325,6 +473,36 @@ export class TrackedAgentState {
         return this.status;
     }
 
+    /**
+     * Lots that can currently be minted, as in AgentCollateral.freeCollateralLots.
+     * The requirement for agent's own pool tokens is not tracked, so the result may be too high for agents with few pool tokens.
+     */
+    freeCollateralLots() {
+        return minBN(this.freeSingleCollateralLots(this.vaultCollateral), this.freeSingleCollateralLots(this.poolWNatCollateral));
+    }
+
+    private freeSingleCollateralLots(collateral: CollateralType) {
+        const isVault = Number(collateral.collateralClass) === CollateralClass.VAULT;
+        const price = this.parent.prices.get(collateral);
+        const systemMinCollateralRatioBIPS = toBN(collateral.minCollateralRatioBIPS);
+        const mintingMinCollateralRatioBIPS = maxBN(isVault ? this.mintingVaultCollateralRatioBIPS : this.mintingPoolCollateralRatioBIPS, systemMinCollateralRatioBIPS);
+        const backedAMG = price.convertUBAToAmg(this.reservedUBA.add(this.mintedUBA));
+        const mintingCollateralWei = price.convertAmgToTokenWei(backedAMG).mul(mintingMinCollateralRatioBIPS).divn(MAX_BIPS);
+        const redeemingAMG = price.convertUBAToAmg(isVault ? this.redeemingUBA : this.poolRedeemingUBA);
+        const redeemingCollateralWei = price.convertAmgToTokenWei(redeemingAMG).mul(systemMinCollateralRatioBIPS).divn(MAX_BIPS);
+        const announcedWithdrawalWei = (isVault ? this.announcedVaultCollateralWithdrawal?.amountWei : undefined) ?? BN_ZERO;
+        const lockedCollateralWei = mintingCollateralWei.add(redeemingCollateralWei).add(announcedWithdrawalWei);
+        const collateralWei = isVault ? this.totalVaultCollateralWei : this.totalPoolCollateralNATWei;
+        const freeCollateralWei = maxBN(collateralWei.sub(lockedCollateralWei), BN_ZERO);
+        const lotCollateralWei = price.convertAmgToTokenWei(this.parent.settings.lotSizeAMG).mul(mintingMinCollateralRatioBIPS).divn(MAX_BIPS);
+        return lotCollateralWei.isZero() ? BN_ZERO : freeCollateralWei.div(lotCollateralWei);
+    }
+
+    // liquidation transition at the current EVM time
+    async currentLiquidationTransition() {
+        return this.possibleLiquidationTransition(await this.parent.clock.evmTimestamp());
+    }
+
     possibleLiquidationTransition(timestamp: BN) {
         const vaultCollateralTransition = this.possibleLiquidationTransitionForCollateral(this.vaultCollateral, timestamp);
         const poolTransition = this.possibleLiquidationTransitionForCollateral(this.poolWNatCollateral, timestamp);
@@ -0,0 +1,220 @@
+import { Entered, Exited, IncompleteSelfCloseExit } from "../../typechain-truffle/CollateralPool";
+import { AMG_TOKENWEI_PRICE_SCALE } from "../fasset/Conversions";
+import { EvmEventArgs } from "../utils/events/IEvmEvents";
+import { BN_ZERO, MAX_BIPS, ZERO_ADDRESS, formatBN, maxBN, minBN, toBN } from "../utils/helpers";
+import { TrackedAgentState } from "./TrackedAgentState";
+
+// same as ICollateralPool.TokenExitType
+export enum TokenExitType { MAXIMIZE_FEE_WITHDRAWAL, MINIMIZE_FEE_DEBT, KEEP_RATIO }
+
+export interface PoolExitAmounts {
+    tokenShareWei: BN;
+    natShareWei: BN;
+    // f-asset fees transferred to the holder
+    freeFAssetFeeShareUBA: BN;
+    // part of the holder's fee debt that is burned together with the tokens
+    debtFAssetFeeShareUBA: BN;
+}
+
+/**
+ * State of an agent's collateral pool, tracked from pool, pool token and f-asset events. Calculations follow CollateralPool.
+ * Pool NAT collateral is the pool's tracked wNat balance (`totalPoolCollateralNATWei` of the agent) and total f-asset fees
+ * are tracked from f-asset transfers to and from the pool, so both include any direct (untracked) transfers to the pool.
+ * When the agent is created from its current chain state, only the totals and the agent's own tokens are read; other holders
+ * are known after their first token transfer and their fee debt after their first enter or exit or `loadHolder` (see `fAssetFeeDebtKnown`).
+ */
+export class TrackedPoolState {
+    constructor(
+        public agent: TrackedAgentState,
+    ) { }
+
+    poolTokenAddress?: string;
+
+    // pool tokens
+    poolTokenSupply = BN_ZERO;
+    poolTokenBalances = new Map<string, BN>();     // holder => pool tokens
+
+    // f-asset fees
+    totalFAssetFees = BN_ZERO;
+    totalFAssetFeeDebt = BN_ZERO;
+    fAssetFeeDebts = new Map<string, BN>();         // holder => fee debt
+
+    // false when the pool was initialized from chain state - then only the loaded holders' fee debts are known
+    allFAssetFeeDebtsKnown = true;
+
+    get totalCollateralNATWei() {
+        return this.agent.totalPoolCollateralNATWei;
+    }
+
+    get totalVirtualFAssetFees() {
+        return this.totalFAssetFees.add(this.totalFAssetFeeDebt);
+    }
+
+    // f-assets backed by the pool (as in AssetManager.getFAssetsBackedByPool)
+    get agentBackedFAssetUBA() {
+        return this.agent.reservedUBA.add(this.agent.mintedUBA).add(this.agent.poolRedeemingUBA);
+    }
+
+    // init
+
+    initializeState(poolTokenSupply: BN, totalFAssetFees: BN, totalFAssetFeeDebt: BN) {
+        this.poolTokenSupply = poolTokenSupply;
+        this.totalFAssetFees = totalFAssetFees;
+        this.totalFAssetFeeDebt = totalFAssetFeeDebt;
+        this.allFAssetFeeDebtsKnown = false;
+    }
+
+    loadHolder(holder: string, poolTokens: BN, fAssetFeeDebt: BN) {
+        this.poolTokenBalances.set(holder, poolTokens);
+        this.fAssetFeeDebts.set(holder, fAssetFeeDebt);
+    }
+
+    // handlers: pool enter and exit
+
+    handleEntered(args: EvmEventArgs<Entered>) {
+        this.setFAssetFeeDebt(args.tokenHolder, toBN(args.newFAssetFeeDebt));
+    }
+
+    handleExited(args: EvmEventArgs<Exited>) {
+        this.setFAssetFeeDebt(args.tokenHolder, toBN(args.newFAssetFeeDebt));
+    }
+
+    handleIncompleteSelfCloseExit(args: EvmEventArgs<IncompleteSelfCloseExit>) {
+        this.agent.parent.logger?.log(`POOL ${this.agent.name()}: incomplete self-close exit, burned tokens ${formatBN(args.burnedTokensWei)}, redeemed ${formatBN(args.redeemedFAssetUBA)}`);
+    }
+
+    // handlers: pool token and f-asset transfers
+
+    handlePoolTokenTransfer(from: string, to: string, amount: BN) {
+        if (from === ZERO_ADDRESS) {
+            this.poolTokenSupply = this.poolTokenSupply.add(amount);
+        } else {
+            this.poolTokenBalances.set(from, this.poolTokensOf(from).sub(amount));
+        }
+        if (to === ZERO_ADDRESS) {
+            this.poolTokenSupply = this.poolTokenSupply.sub(amount);
+        } else {
+            this.poolTokenBalances.set(to, this.poolTokensOf(to).add(amount));
+        }
+    }
+
+    handleFAssetFeeDeposit(amount: BN) {
+        this.totalFAssetFees = this.totalFAssetFees.add(amount);
+    }
+
+    handleFAssetFeeWithdrawal(amount: BN) {
+        this.totalFAssetFees = this.totalFAssetFees.sub(amount);
+    }
+
+    private setFAssetFeeDebt(holder: string, debt: BN) {
+        this.totalFAssetFeeDebt = this.totalFAssetFeeDebt.sub(this.fAssetFeeDebtOf(holder)).add(debt);
+        this.fAssetFeeDebts.set(holder, debt);
+    }
+
+    // holder calculations
+
+    poolTokensOf(holder: string) {
+        return this.poolTokenBalances.get(holder) ?? BN_ZERO;
+    }
+
+    /**
+     * False for holders whose fee debt hasn't been loaded or tracked since the pool was initialized from chain state
+     * (their fee debt is then taken as 0, so `fAssetFeesOf` and the derived values are too high).
+     */
+    fAssetFeeDebtKnown(holder: string) {
+        return this.allFAssetFeeDebtsKnown || this.fAssetFeeDebts.has(holder);
+    }
+
+    fAssetFeeDebtOf(holder: string) {
+        return this.fAssetFeeDebts.get(holder) ?? BN_ZERO;
+    }
+
+    virtualFAssetFeesOf(holder: string) {
+        const tokens = this.poolTokensOf(holder);
+        if (tokens.isZero()) return BN_ZERO;
+        return this.totalVirtualFAssetFees.mul(tokens).div(this.poolTokenSupply);
+    }
+
+    // only correct for holders with known fee debt (see `fAssetFeeDebtKnown`)
+    fAssetFeesOf(holder: string) {
+        const free = maxBN(this.virtualFAssetFeesOf(holder).sub(this.fAssetFeeDebtOf(holder)), BN_ZERO);
+        return minBN(free, this.totalFAssetFees);
+    }
+
+    /**
+     * NAT and f-asset fees received for burning `tokenShareWei` pool tokens in `CollateralPool.exit`.
+     * The checks for exit CR and minimal remaining supply and balance are not performed.
+     */
+    exitAmounts(holder: string, tokenShareWei: BN, exitType: TokenExitType = TokenExitType.MAXIMIZE_FEE_WITHDRAWAL): PoolExitAmounts {
+        const natShareWei = this.poolTokenSupply.isZero() ? BN_ZERO : tokenShareWei.mul(this.totalCollateralNATWei).div(this.poolTokenSupply);
+        const [debtFAssetFeeShareUBA, freeFAssetFeeShareUBA] = this.debtAndFreeFAssetFeesFromTokenShare(holder, tokenShareWei, exitType);
+        return { tokenShareWei, natShareWei, freeFAssetFeeShareUBA, debtFAssetFeeShareUBA };
+    }
+
+    /**
+     * The amount of f-assets the holder has to provide (besides own fees) to self-close exit with `tokenShareWei` tokens,
+     * as in `CollateralPool.fAssetRequiredForSelfCloseExit`. Uses current FTSO prices.
+     */
+    fAssetRequiredForSelfCloseExit(holder: string, tokenShareWei: BN) {
+        if (this.poolTokenSupply.isZero()) return BN_ZERO;
+        const natShareWei = this.totalCollateralNATWei.mul(tokenShareWei).div(this.poolTokenSupply);
+        const requiredFAssets = this.fAssetRequiredToNotSpoilCR(natShareWei);
+        return maxBN(requiredFAssets.sub(this.fAssetFeesOf(holder)), BN_ZERO);
+    }
+
+    /**
+     * Does the pool collateral ratio stay above exit CR after withdrawing `natShareWei` in a normal exit.
+     */
+    staysAboveExitCR(natShareWei: BN) {
+        return this.staysAboveCR(natShareWei, this.agent.poolExitCollateralRatioBIPS);
+    }
+
+    private debtAndFreeFAssetFeesFromTokenShare(holder: string, tokenShareWei: BN, exitType: TokenExitType): [BN, BN] {
+        const tokens = this.poolTokensOf(holder);
+        if (tokens.isZero()) return [BN_ZERO, BN_ZERO];
+        const virtualFAsset = this.virtualFAssetFeesOf(holder);
+        const debtFAsset = this.fAssetFeeDebtOf(holder);
+        const fAssetShare = virtualFAsset.mul(tokenShareWei).div(tokens);
+        let debtShare: BN;
+        let freeShare: BN;
+        if (exitType === TokenExitType.MAXIMIZE_FEE_WITHDRAWAL) {
+            freeShare = minBN(fAssetShare, maxBN(virtualFAsset.sub(debtFAsset), BN_ZERO));
+            debtShare = fAssetShare.sub(freeShare);
+        } else if (exitType === TokenExitType.MINIMIZE_FEE_DEBT) {
+            debtShare = minBN(fAssetShare, debtFAsset);
+            freeShare = fAssetShare.sub(debtShare);
+        } else {
+            debtShare = virtualFAsset.isZero() ? BN_ZERO : debtFAsset.mul(fAssetShare).div(virtualFAsset);
+            freeShare = fAssetShare.sub(debtShare);
+        }
+        // the contract caps the shares because of rounding errors
+        return [minBN(debtShare, this.totalFAssetFeeDebt), minBN(freeShare, this.totalFAssetFees)];
+    }
+
+    private fAssetRequiredToNotSpoilCR(natShareWei: BN) {
+        const backedFAsset = this.agentBackedFAssetUBA;
+        const exitCR = this.agent.poolExitCollateralRatioBIPS;
+        if (this.staysAboveCR(BN_ZERO, exitCR)) {
+            // f-assets required for CR to stay above exit CR
+            const [priceMul, priceDiv] = this.assetPriceNatWei();
+            const allowedFAsset = priceDiv.mul(this.totalCollateralNATWei.sub(natShareWei)).muln(MAX_BIPS).div(priceMul.mul(exitCR));
+            return maxBN(backedFAsset.sub(allowedFAsset), BN_ZERO);
+        } else {
+            // f-assets that preserve pool CR
+            if (this.totalCollateralNATWei.isZero()) return BN_ZERO;
+            return backedFAsset.mul(natShareWei).div(this.totalCollateralNATWei);
+        }
+    }
+
+    private staysAboveCR(withdrawnNatWei: BN, crBIPS: BN) {
+        const [priceMul, priceDiv] = this.assetPriceNatWei();
+        return this.totalCollateralNATWei.sub(withdrawnNatWei).mul(priceDiv)
+            .gte(this.agentBackedFAssetUBA.mul(priceMul).mul(crBIPS).divn(MAX_BIPS));
+    }
+
+    // as in AssetManager.assetPriceNatWei
+    private assetPriceNatWei(): [BN, BN] {
+        const price = this.agent.parent.prices.get(this.agent.poolWNatCollateral);
+        return [price.amgPrice.amgToTokenWei, AMG_TOKENWEI_PRICE_SCALE.mul(toBN(this.agent.parent.settings.assetMintingGranularityUBA))];
+    }
+}
@@ -1,20 +1,41 @@
-import { AgentStatus, AssetManagerSettings, CollateralType } from "../fasset/AssetManagerTypes";
-import { AssetManagerEvents, IAssetContext } from "../fasset/IAssetContext";
+import { BlockNumber } from "web3-core";
+import { AgentInfo, AgentStatus, AssetManagerSettings, CollateralClass, CollateralType } from "../fasset/AssetManagerTypes";
+import { CollateralPoolInstance, CollateralPoolTokenInstance } from "../../typechain-truffle";
+import { RedemptionRequestIncomplete } from "../../typechain-truffle/AssetManager";
+import { AssetManagerEvents, CollateralPoolEvents, CollateralPoolTokenEvents, IAssetContext } from "../fasset/IAssetContext";
 import { UnderlyingChainEvents } from "../underlying-chain/UnderlyingChainEvents";
+import { ITransaction } from "../underlying-chain/interfaces/IBlockChain";
+import { CatchupEvmEvents } from "../utils/events/CatchupEvmEvents";
 import { EventFormatter } from "../utils/events/EventFormatter";
-import { IEvmEvents } from "../utils/events/IEvmEvents";
-import { EventExecutionQueue, TriggerableEvent } from "../utils/events/ScopedEvents";
+import { EvmEventArgs, IEvmEvents } from "../utils/events/IEvmEvents";
+import { EventEmitter, EventExecutionQueue, TriggerableEvent } from "../utils/events/ScopedEvents";
 import { EvmEvent, ExtractedEventArgs } from "../utils/events/common";
-import { BN_ZERO, toBN } from "../utils/helpers";
+import { ContractWithEvents } from "../utils/events/truffle";
+import { IClock } from "../utils/clock";
+import { BN_ZERO, BNish, checkedCast, filterStackTrace, isNotNull, toBN } from "../utils/helpers";
 import { stringifyJson } from "../utils/json-bn";
 import { ILogger } from "../utils/logging";
 import { web3DeepNormalize, web3Normalize } from "../utils/web3normalize";
 import { CollateralList, isPoolCollateral } from "./CollateralIndexedList";
 import { Prices } from "./Prices";
-import { tokenContract } from "./TokenPrice";
+import { TrackedRedemptionQueue } from "./RedemptionQueue";
+import { StateAuditLog, agentStateSnapshot } from "./StateAuditLog";
+import { TrackedSystemMetrics } from "./SystemMetrics";
+import { TokenPriceSource, tokenContract } from "./TokenPrice";
 import { InitialAgentData, TrackedAgentState } from "./TrackedAgentState";
 
 const CollateralPool = artifacts.require("CollateralPool");
+const CollateralPoolToken = artifacts.require("CollateralPoolToken");
+
+// truffle typings don't support the block parameter, so calls at a block use the underlying web3 contract
+async function callAtBlock(contract: Truffle.ContractInstance, method: string, args: unknown[], blockNumber: BlockNumber): Promise<any> {
+    return await contract.contract.methods[method](...args).call({}, blockNumber);
+}
+
+export interface UnderlyingPaymentRemoved {
+    agent: TrackedAgentState;
+    transaction: ITransaction;
+}
 
 export class TrackedState {
     constructor(
@@ -23,12 +44,24 @@ export class TrackedState {
         public chainEvents: UnderlyingChainEvents,
         public eventFormatter: EventFormatter,
         public eventQueue: EventExecutionQueue,
+        public clock: IClock,
     ) {
     }
 
     // state
     fAssetSupply = BN_ZERO;
 
+    // underlying block, as last proved to the asset manager
+    currentUnderlyingBlock = BN_ZERO;
+    currentUnderlyingBlockTimestamp = BN_ZERO;
+    currentUnderlyingBlockUpdatedAt = BN_ZERO;
+
+    // global redemption ticket queue
+    redemptionQueue = new TrackedRedemptionQueue();
+
+    // system-wide aggregates over agents
+    metrics = new TrackedSystemMetrics(this);
+
     // must call initialize to init prices and settings
     prices!: Prices;
     trustedPrices!: Prices;
@@ -46,9 +79,28 @@ export class TrackedState {
     // settings
     logger?: ILogger;
     deleteDestroyedAgents = true;
+    // when set, prices are read from this source instead of the asset manager's price reader
+    priceSource?: TokenPriceSource;
+    // when set, all handled events and resulting agent state changes are written here
+    auditLog?: StateAuditLog;
+
+    // true while historical events are being replayed
+    catchingUp = false;
+
+    // lots that redeemers requested, but weren't redeemed (the queue was exhausted or too many tickets), since tracking started
+    unredeemedLots = new Map<string, BN>();     // redeemer => total remaining lots
 
     // synthetic events
     pricesUpdated = new TriggerableEvent<void>(this.eventQueue);
+    redemptionRequestIncomplete = new TriggerableEvent<EvmEventArgs<RedemptionRequestIncomplete>>(this.eventQueue);
+    // agent's underlying payment was removed from the chain by reorganization (triggered once for each paying agent)
+    underlyingPaymentRemoved = new TriggerableEvent<UnderlyingPaymentRemoved>(this.eventQueue);
+
+    // agents that were destroyed or replaced, so their pool handlers must not be registered any more
+    private releasedAgents = new WeakSet<TrackedAgentState>();
+
+    // dispatchers of the tracked state's own asset manager event handlers (see `trackedEvent`)
+    private trackedEvents = new Map<string, TriggerableEvent<any>>();
 
     // async initialization part
     async initialize() {
@@ -63,111 +115,200 @@ export class TrackedState {
         }
         [this.prices, this.trustedPrices] = await this.getPrices();
         this.fAssetSupply = await this.context.fAsset.totalSupply();
+        const currentUnderlyingBlock = await this.context.assetManager.currentUnderlyingBlock();
+        this.currentUnderlyingBlock = toBN(currentUnderlyingBlock[0]);
+        this.currentUnderlyingBlockTimestamp = toBN(currentUnderlyingBlock[1]);
+        this.currentUnderlyingBlockUpdatedAt = toBN(currentUnderlyingBlock[2]);
         this.registerHandlers();
     }
 
+    /**
+     * Initialize and replay historical events from `truffleEvents.fromBlock` before going live.
+     * The `truffleEvents` must be an instance of CatchupEvmEvents.
+     * Agents that exist before `fromBlock` are first loaded with their on-chain state at the block before `fromBlock`,
+     * so the replayed events continue from that state.
+     */
+    async initializeWithCatchup() {
+        const catchupEvents = checkedCast(this.truffleEvents, CatchupEvmEvents);
+        this.catchingUp = true;
+        try {
+            await this.initialize();
+            // fAsset supply and agents are replayed from the state before the first replayed block
+            const stateBlock = catchupEvents.fromBlock - 1;
+            this.fAssetSupply = await this.fAssetSupplyAt(stateBlock);
+            await this.loadAgentsAt(stateBlock);
+            await catchupEvents.catchUp();
+            // queued handlers must also see the replay flag
+            this.eventQueue.runAll();
+        } finally {
+            this.catchingUp = false;
+        }
+        // prices were not refreshed during replay
+        [this.prices, this.trustedPrices] = await this.getPrices();
+        this.pricesUpdated.trigger();
+    }
+
+    private async fAssetSupplyAt(blockNumber: number) {
+        if (blockNumber < 0) return BN_ZERO;
+        return toBN(await callAtBlock(this.context.fAsset, 'totalSupply', [], blockNumber));
+    }
+
+    private async loadAgentsAt(blockNumber: number) {
+        if (blockNumber < 0) return;
+        const pageSize = 100;
+        for (let start = 0; ; start += pageSize) {
+            const { 0: agentVaults, 1: totalLength } = await callAtBlock(this.context.assetManager, 'getAllAgents', [start, start + pageSize], blockNumber);
+            for (const agentVault of agentVaults as string[]) {
+                await this.createAgentVaultWithStateAt(agentVault, blockNumber);
+            }
+            if (start + pageSize >= Number(totalLength)) break;
+        }
+    }
+
     async getPrices(): Promise<[Prices, Prices]> {
-        return await Prices.getPrices(this.context, this.settings, this.collaterals);
+        return await Prices.getPrices(this.context, this.settings, this.collaterals, this.priceSource);
     }
 
     registerHandlers() {
         // track total supply of fAsset
-        this.assetManagerEvent('MintingExecuted').subscribe(args => {
+        this.trackedEvent('MintingExecuted').subscribe(args => {
             this.fAssetSupply = this.fAssetSupply.add(toBN(args.mintedAmountUBA).add(toBN(args.poolFeeUBA)));
         });
-        this.assetManagerEvent('RedemptionRequested').subscribe(args => {
+        this.trackedEvent('RedemptionRequested').subscribe(args => {
             this.fAssetSupply = this.fAssetSupply.sub(toBN(args.valueUBA));
         });
-        this.assetManagerEvent('RedeemedInCollateral').subscribe(args => {
+        this.trackedEvent('RedeemedInCollateral').subscribe(args => {
             this.fAssetSupply = this.fAssetSupply.sub(toBN(args.redemptionAmountUBA));
         });
-        this.assetManagerEvent('SelfClose').subscribe(args => {
+        this.trackedEvent('SelfClose').subscribe(args => {
             this.fAssetSupply = this.fAssetSupply.sub(toBN(args.valueUBA));
         });
-        this.assetManagerEvent('LiquidationPerformed').subscribe(args => {
+        this.trackedEvent('LiquidationPerformed').subscribe(args => {
             this.fAssetSupply = this.fAssetSupply.sub(toBN(args.valueUBA));
         });
         // track setting changes
-        this.assetManagerEvent('SettingChanged').subscribe(args => {
+        this.trackedEvent('SettingChanged').subscribe(args => {
             if (!(args.name in this.settings)) assert.fail(`Invalid setting change ${args.name}`);
             this.logger?.log(`SETTING CHANGED ${args.name} FROM ${(this.settings as any)[args.name]} TO ${args.value}`);
             (this.settings as any)[args.name] = web3Normalize(args.value);
         });
-        this.assetManagerEvent('SettingArrayChanged').subscribe(args => {
+        this.trackedEvent('SettingArrayChanged').subscribe(args => {
             if (!(args.name in this.settings)) assert.fail(`Invalid setting array change ${args.name}`);
             this.logger?.log(`SETTING ARRAY CHANGED ${args.name} FROM ${stringifyJson((this.settings as any)[args.name])} TO ${stringifyJson(args.value)}`);
             (this.settings as any)[args.name] = web3DeepNormalize(args.value);
         });
+        // track redemption queue
+        this.trackedEvent('RedemptionTicketCreated').subscribe(args => this.redemptionQueue.handleRedemptionTicketCreated(args));
+        this.trackedEvent('RedemptionTicketUpdated').subscribe(args => this.redemptionQueue.handleRedemptionTicketUpdated(args));
+        this.trackedEvent('RedemptionTicketDeleted').subscribe(args => this.redemptionQueue.handleRedemptionTicketDeleted(args));
+        // track f-asset fees in collateral pools (mint/burn is seen as transfer from/to address(0))
+        this.truffleEvents.event(this.context.fAsset, 'Transfer').immediate().subscribe(args => {
+            this.agentsByPool.get(args.from)?.pool.handleFAssetFeeWithdrawal(toBN(args.value));
+            this.agentsByPool.get(args.to)?.pool.handleFAssetFeeDeposit(toBN(args.value));
+        });
+        // track contract address changes
+        this.trackedEvent('ContractChanged').subscribe(args => {
+            this.logger?.log(`CONTRACT CHANGED ${args.name} TO ${args.value}`);
+            if (args.name === 'wNat') {
+                // the new pool collateral type was added just before (CollateralTypeAdded)
+                this.poolWNatColateral = this.collaterals.get(CollateralClass.POOL, args.value);
+            } else if (args.name in this.settings) {
+                (this.settings as any)[args.name] = args.value;
+            }
+        });
+        // track underlying block
+        this.trackedEvent('CurrentUnderlyingBlockUpdated').subscribe(args => {
+            this.currentUnderlyingBlock = toBN(args.underlyingBlockNumber);
+            this.currentUnderlyingBlockTimestamp = toBN(args.underlyingBlockTimestamp);
+            this.currentUnderlyingBlockUpdatedAt = toBN(args.updatedAt);
+        });
+        // redemption of less lots than requested (not enough tickets or too many tickets in one request)
+        this.trackedEvent('RedemptionRequestIncomplete').subscribe(args => this.handleRedemptionRequestIncomplete(args));
         // track collateral token changes
-        this.assetManagerEvent('CollateralTypeAdded').subscribe(args => {
+        this.trackedEvent('CollateralTypeAdded').subscribe(args => {
             void this.addCollateralType({ ...args, validUntil: BN_ZERO });
         });
-        this.assetManagerEvent('CollateralRatiosChanged').subscribe(args => {
+        this.trackedEvent('CollateralRatiosChanged').subscribe(args => {
             const collateral = this.collaterals.get(args.collateralClass, args.collateralToken);
             collateral.minCollateralRatioBIPS = toBN(args.minCollateralRatioBIPS);
             collateral.ccbMinCollateralRatioBIPS = toBN(args.ccbMinCollateralRatioBIPS);
             collateral.safetyMinCollateralRatioBIPS = toBN(args.safetyMinCollateralRatioBIPS);
         });
-        this.assetManagerEvent('CollateralTypeDeprecated').subscribe(args => {
+        this.trackedEvent('CollateralTypeDeprecated').subscribe(args => {
             const collateral = this.collaterals.get(args.collateralClass, args.collateralToken);
             collateral.validUntil = toBN(args.validUntil);
         });
         // track price changes
         this.truffleEvents.event(this.context.ftsoManager, 'PriceEpochFinalized').subscribe(async args => {
+            if (this.catchingUp) return;    // replayed price epochs would all fetch current prices
             const [prices, trustedPrices] = await this.getPrices();
             this.logger?.log(`PRICES CHANGED  ftso=${this.prices}->${prices}  trusted=${this.trustedPrices}->${trustedPrices}`);
             [this.prices, this.trustedPrices] = [prices, trustedPrices];
             // trigger event
             this.pricesUpdated.trigger();
         });
+        // underlying chain reorganizations (handled immediately, so that actors get the removal before the replacement transactions)
+        this.chainEvents.transactionRemovedEvent().immediate().subscribe(transaction => this.handleUnderlyingTransactionRemoved(transaction));
         // agents
         this.registerAgentHandlers();
     }
 
     private registerAgentHandlers() {
         // agent create / destroy
-        this.assetManagerEvent('AgentVaultCreated').subscribe(args => this.createAgentVault({ ...args, poolWNat: this.poolWNatColateral.token }));
-        this.assetManagerEvent('AgentDestroyed').subscribe(args => this.destroyAgent(args.agentVault));
+        this.trackedEvent('AgentVaultCreated').subscribe(args => this.createAgentVault({ ...args, poolWNat: this.poolWNatColateral.token }));
+        this.trackedEvent('AgentDestroyed').subscribe(args => this.destroyAgent(args.agentVault));
         // status changes
-        this.assetManagerEvent('AgentInCCB').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleStatusChange(AgentStatus.CCB, args.timestamp));
-        this.assetManagerEvent('LiquidationStarted').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleStatusChange(AgentStatus.LIQUIDATION, args.timestamp));
-        this.assetManagerEvent('FullLiquidationStarted').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleStatusChange(AgentStatus.FULL_LIQUIDATION, args.timestamp));
-        this.assetManagerEvent('LiquidationEnded').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleStatusChange(AgentStatus.NORMAL));
-        this.assetManagerEvent('AgentDestroyAnnounced').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleStatusChange(AgentStatus.DESTROYING));
+        this.trackedEvent('AgentInCCB').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleStatusChange(AgentStatus.CCB, args.timestamp));
+        this.trackedEvent('LiquidationStarted').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleStatusChange(AgentStatus.LIQUIDATION, args.timestamp));
+        this.trackedEvent('FullLiquidationStarted').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleStatusChange(AgentStatus.FULL_LIQUIDATION, args.timestamp));
+        this.trackedEvent('LiquidationEnded').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleStatusChange(AgentStatus.NORMAL));
+        this.trackedEvent('AgentDestroyAnnounced').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleStatusChange(AgentStatus.DESTROYING));
         // enter/exit available agents list
-        this.assetManagerEvent('AgentAvailable').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleAgentAvailable(args));
-        this.assetManagerEvent('AvailableAgentExited').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleAvailableAgentExited(args));
+        this.trackedEvent('AgentAvailable').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleAgentAvailable(args));
+        this.trackedEvent('AvailableAgentExited').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleAvailableAgentExited(args));
+        this.trackedEvent('AvailableAgentExitAnnounced').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleAvailableAgentExitAnnounced(args));
         // agent settings
-        this.assetManagerEvent('AgentSettingChanged').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleSettingChanged(args.name, args.value));
+        this.trackedEvent('AgentSettingChangeAnnounced').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleSettingChangeAnnounced(args));
+        this.trackedEvent('AgentSettingChanged').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleSettingChanged(args.name, args.value));
+        // agent collateral
+        this.trackedEvent('AgentCollateralTypeChanged').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleAgentCollateralTypeChanged(args));
+        this.trackedEvent('VaultCollateralWithdrawalAnnounced').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleVaultCollateralWithdrawalAnnounced(args));
+        this.trackedEvent('PoolTokenRedemptionAnnounced').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handlePoolTokenRedemptionAnnounced(args));
         // minting
-        this.assetManagerEvent('CollateralReserved').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleCollateralReserved(args));
-        this.assetManagerEvent('MintingExecuted').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleMintingExecuted(args));
-        this.assetManagerEvent('MintingPaymentDefault').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleMintingPaymentDefault(args));
-        this.assetManagerEvent('CollateralReservationDeleted').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleCollateralReservationDeleted(args));
+        this.trackedEvent('CollateralReserved').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleCollateralReserved(args));
+        this.trackedEvent('MintingExecuted').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleMintingExecuted(args));
+        this.trackedEvent('MintingPaymentDefault').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleMintingPaymentDefault(args));
+        this.trackedEvent('CollateralReservationDeleted').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleCollateralReservationDeleted(args));
         // redemption and self-close
-        this.assetManagerEvent('RedemptionRequested').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleRedemptionRequested(args));
-        this.assetManagerEvent('RedemptionPerformed').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleRedemptionPerformed(args));
-        this.assetManagerEvent('RedemptionDefault').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleRedemptionDefault(args));
-        this.assetManagerEvent('RedemptionPaymentBlocked').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleRedemptionPaymentBlocked(args));
-        this.assetManagerEvent('RedemptionPaymentFailed').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleRedemptionPaymentFailed(args));
-        this.assetManagerEvent('RedeemedInCollateral').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleRedeemedInCollateral(args));
-        this.assetManagerEvent('SelfClose').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleSelfClose(args));
+        this.trackedEvent('RedemptionRequested').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleRedemptionRequested(args));
+        this.trackedEvent('RedemptionPerformed').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleRedemptionPerformed(args));
+        this.trackedEvent('RedemptionDefault').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleRedemptionDefault(args));
+        this.trackedEvent('RedemptionPaymentBlocked').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleRedemptionPaymentBlocked(args));
+        this.trackedEvent('RedemptionRejected').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleRedemptionRejected(args));
+        this.trackedEvent('RedeemedInCollateral').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleRedeemedInCollateral(args));
+        this.trackedEvent('SelfClose').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleSelfClose(args));
+        // underlying balance
+        this.trackedEvent('UnderlyingBalanceChanged').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleUnderlyingBalanceChanged(args));
+        this.trackedEvent('UnderlyingBalanceTooLow').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleUnderlyingBalanceTooLow(args));
+        // challenges
+        this.trackedEvent('IllegalPaymentConfirmed').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleIllegalPaymentConfirmed(args));
+        this.trackedEvent('DuplicatePaymentConfirmed').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleDuplicatePaymentConfirmed(args));
         // underlying topup and withdrawal
-        this.assetManagerEvent('UnderlyingBalanceToppedUp').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleUnderlyingBalanceToppedUp(args));
-        this.assetManagerEvent('UnderlyingWithdrawalAnnounced').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleUnderlyingWithdrawalAnnounced(args));
-        this.assetManagerEvent('UnderlyingWithdrawalConfirmed').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleUnderlyingWithdrawalConfirmed(args));
-        this.assetManagerEvent('UnderlyingWithdrawalCancelled').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleUnderlyingWithdrawalCancelled(args));
+        this.trackedEvent('UnderlyingWithdrawalAnnounced').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleUnderlyingWithdrawalAnnounced(args));
+        this.trackedEvent('UnderlyingWithdrawalConfirmed').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleUnderlyingWithdrawalConfirmed(args));
+        this.trackedEvent('UnderlyingWithdrawalCancelled').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleUnderlyingWithdrawalCancelled(args));
         // track tickets
-        this.assetManagerEvent('RedemptionTicketCreated').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleRedemptionTicketCreated(args));
-        this.assetManagerEvent('RedemptionTicketUpdated').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleRedemptionTicketUpdated(args));
-        this.assetManagerEvent('RedemptionTicketDeleted').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleRedemptionTicketDeleted(args));
+        this.trackedEvent('RedemptionTicketCreated').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleRedemptionTicketCreated(args));
+        this.trackedEvent('RedemptionTicketUpdated').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleRedemptionTicketUpdated(args));
+        this.trackedEvent('RedemptionTicketDeleted').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleRedemptionTicketDeleted(args));
         // track dust
-        this.assetManagerEvent('DustChanged').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleDustChanged(args));
+        this.trackedEvent('DustChanged').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleDustChanged(args));
         // liquidation
-        this.assetManagerEvent('LiquidationPerformed').subscribe(args => this.getAgentTriggerAdd(args.agentVault)?.handleLiquidationPerformed(args));
+        this.trackedEvent('LiquidationPerformed').subscribe(args => this.getAgentTriggerAdd(args.agentVault, args.$event)?.handleLiquidationPerformed(args));
     }
 
     private async addCollateralType(data: CollateralType) {
+        const existing = this.collaterals.getOptional(data);
         const collateral: CollateralType = {
             collateralClass: toBN(data.collateralClass),
             token: data.token,
@@ -181,35 +322,79 @@ export class TrackedState {
             safetyMinCollateralRatioBIPS: toBN(data.safetyMinCollateralRatioBIPS),
         };
         this.collaterals.add(collateral);
-        await this.registerCollateralHandlers(data.token);
+        // collateral type may already be known e.g. when replaying historical events
+        if (!existing) {
+            await this.registerCollateralHandlers(data.token);
+        }
         return collateral;
     }
 
     private async registerCollateralHandlers(tokenAddress: string) {
         const token = await tokenContract(tokenAddress);
-        this.truffleEvents.event(token, 'Transfer').immediate().subscribe(args => {
+        const transfer = this.truffleEvents.event(token, 'Transfer').immediate();
+        const agentVaults = (addresses: string[]) => addresses
+            .map(address => this.agents.get(address) ?? this.agentsByPool.get(address))
+            .filter(isNotNull)
+            .map(agent => agent.address);
+        this.audited(transfer, args => agentVaults([args.from, args.to])).subscribe(args => {
             this.agents.get(args.from)?.withdrawCollateral(tokenAddress, toBN(args.value));
             this.agents.get(args.to)?.depositCollateral(tokenAddress, toBN(args.value));
             this.agentsByPool.get(args.from)?.withdrawPoolCollateral(tokenAddress, toBN(args.value));
             this.agentsByPool.get(args.to)?.depositPoolCollateral(tokenAddress, toBN(args.value));
+            for (const agent of [this.agents.get(args.from), this.agents.get(args.to), this.agentsByPool.get(args.from), this.agentsByPool.get(args.to)]) {
+                if (agent) this.metrics.agentChanged(agent.address);
+            }
         });
     }
 
+    handleRedemptionRequestIncomplete(args: EvmEventArgs<RedemptionRequestIncomplete>) {
+        const remainingLots = toBN(args.remainingLots);
+        this.unredeemedLots.set(args.redeemer, (this.unredeemedLots.get(args.redeemer) ?? BN_ZERO).add(remainingLots));
+        this.logger?.log(`REDEMPTION INCOMPLETE redeemer=${this.eventFormatter.formatAddress(args.redeemer)} remainingLots=${remainingLots}`);
+        this.redemptionRequestIncomplete.trigger(args);
+    }
+
+    handleUnderlyingTransactionRemoved(transaction: ITransaction) {
+        // a transaction can have several inputs from the same address (e.g. on UTXO chains)
+        const agents = new Set(transaction.inputs.map(([address]) => this.agentsByUnderlying.get(address)).filter(isNotNull));
+        for (const agent of agents) {
+            this.logger?.log(`UNDERLYING PAYMENT REMOVED agent=${agent.name()} tx=${transaction.hash}`);
+            this.underlyingPaymentRemoved.trigger({ agent, transaction });
+        }
+    }
+
     getAgent(address: string): TrackedAgentState | undefined {
         return this.agents.get(address);
     }
 
-    getAgentTriggerAdd(address: string): TrackedAgentState | undefined {
+    getAgentTriggerAdd(address: string, event?: EvmEvent): TrackedAgentState | undefined {
         const agent = this.agents.get(address);
-        if (!agent) {
+        if (!agent && !this.catchingUp) {
             void this.createAgentVaultWithCurrentState(address); // create in background
         }
+        if (agent) {
+            if (event) agent.lastEvent = event;
+            this.metrics.agentChanged(address);
+        }
         return agent;
     }
 
     async createAgentVaultWithCurrentState(address: string) {
-        const agentInfo = await this.context.assetManager.getAgentInfo(address);
-        const poolWNat = await CollateralPool.at(agentInfo.collateralPool).then(pool => pool.wNat());
+        await this.createAgentVaultWithStateAt(address, 'latest');
+    }
+
+    /**
+     * Create the agent's tracked state from its on-chain state at `blockNumber`.
+     */
+    async createAgentVaultWithStateAt(address: string, blockNumber: BlockNumber) {
+        const agentInfo: AgentInfo = await callAtBlock(this.context.assetManager, 'getAgentInfo', [address], blockNumber);
+        const collateralPool = await CollateralPool.at(agentInfo.collateralPool);
+        const poolWNat: string = await callAtBlock(collateralPool, 'wNat', [], blockNumber);
+        const poolToken = await CollateralPoolToken.at(await callAtBlock(collateralPool, 'poolToken', [], blockNumber));
+        const poolTokenSupply = toBN(await callAtBlock(poolToken, 'totalSupply', [], blockNumber));
+        const totalFAssetFees = toBN(await callAtBlock(collateralPool, 'totalFAssetFees', [], blockNumber));
+        const totalFAssetFeeDebt = toBN(await callAtBlock(collateralPool, 'totalFAssetFeeDebt', [], blockNumber));
+        const agentFAssetFeeDebt = toBN(await callAtBlock(collateralPool, 'fAssetFeeDebtOf', [address], blockNumber));
         const agent = this.createAgentVault({
             agentVault: address,
             owner: agentInfo.ownerManagementAddress,
@@ -227,27 +412,57 @@ export class TrackedState {
             poolTopupTokenPriceFactorBIPS: agentInfo.poolTopupTokenPriceFactorBIPS,
         });
         agent.initializeState(agentInfo);
+        this.auditLog?.writeStateLoaded('AgentStateLoaded', agent);
+        agent.pool.initializeState(poolTokenSupply, totalFAssetFees, totalFAssetFeeDebt);
+        agent.pool.loadHolder(address, toBN(agentInfo.totalAgentPoolTokensWei), agentFAssetFeeDebt);
     }
 
     createAgentVault(data: InitialAgentData) {
+        const replaced = this.agents.get(data.agentVault);
+        if (replaced) this.releasePoolHandlers(replaced);
         const agent = this.newAgent(data);
         this.agents.set(data.agentVault, agent);
         this.agentsByUnderlying.set(data.underlyingAddress, agent);
         this.agentsByPool.set(data.collateralPool, agent);
+        this.metrics.agentChanged(data.agentVault);
+        const poolHandlersRegistered = this.registerPoolHandlers(agent)    // must be called async
+            .catch(e => this.logger?.log(`!!! ERROR registering collateral pool handlers for agent ${agent.name()}: ${filterStackTrace(e)}`));
+        if (this.catchingUp) {
+            // replay must not skip the pool events
+            checkedCast(this.truffleEvents, CatchupEvmEvents).waitFor(poolHandlersRegistered);
+        }
         return agent;
     }
 
+    private async registerPoolHandlers(agent: TrackedAgentState) {
+        const collateralPool: ContractWithEvents<CollateralPoolInstance, CollateralPoolEvents> = await CollateralPool.at(agent.collateralPoolAddress);
+        agent.pool.poolTokenAddress = await collateralPool.poolToken();
+        const poolToken: ContractWithEvents<CollateralPoolTokenInstance, CollateralPoolTokenEvents> = await CollateralPoolToken.at(agent.pool.poolTokenAddress);
+        if (this.releasedAgents.has(agent)) return;     // destroyed or replaced while registering
+        this.truffleEvents.event(collateralPool, 'Entered').immediate().subscribeIn(agent.poolSubscriptions, args => agent.pool.handleEntered(args));
+        this.truffleEvents.event(collateralPool, 'Exited').immediate().subscribeIn(agent.poolSubscriptions, args => agent.pool.handleExited(args));
+        this.truffleEvents.event(collateralPool, 'IncompleteSelfCloseExit').immediate().subscribeIn(agent.poolSubscriptions, args => agent.pool.handleIncompleteSelfCloseExit(args));
+        this.truffleEvents.event(poolToken, 'Transfer').immediate().subscribeIn(agent.poolSubscriptions, args => agent.pool.handlePoolTokenTransfer(args.from, args.to, toBN(args.value)));
+    }
+
+    private releasePoolHandlers(agent: TrackedAgentState) {
+        this.releasedAgents.add(agent);
+        agent.poolSubscriptions.finish();
+    }
+
     protected newAgent(data: InitialAgentData) {
         return new TrackedAgentState(this, data);
     }
 
     destroyAgent(address: string) {
         const agent = this.getAgent(address);
+        if (agent) this.releasePoolHandlers(agent);
         if (agent && this.deleteDestroyedAgents) {
             this.agents.delete(address);
             this.agentsByUnderlying.delete(agent.underlyingAddressString);
             this.agentsByPool.delete(agent.collateralPoolAddress);
         }
+        this.metrics.agentChanged(address);
     }
 
     // helpers
@@ -256,12 +471,53 @@ export class TrackedState {
         return this.truffleEvents.event(this.context.assetManager, event, filter).immediate();
     }
 
+    /**
+     * Asset manager event for the tracked state's own handlers. All the handlers of an event run in a single
+     * audited subscription, so every event is written to the audit log once, with the state change of all handlers.
+     */
+    protected trackedEvent<N extends AssetManagerEvents['name']>(event: N): EventEmitter<ExtractedEventArgs<AssetManagerEvents, N> & { $event: EvmEvent }> {
+        let dispatcher = this.trackedEvents.get(event);
+        if (!dispatcher) {
+            const newDispatcher = new TriggerableEvent<ExtractedEventArgs<AssetManagerEvents, N> & { $event: EvmEvent }>();
+            const emitter = this.assetManagerEvent(event) as EventEmitter<ExtractedEventArgs<AssetManagerEvents, N> & { $event: EvmEvent }>;
+            this.audited(emitter, args => {
+                const agentVault: unknown = (args as { agentVault?: unknown }).agentVault;
+                return typeof agentVault === 'string' ? [agentVault] : [];
+            }).subscribe(args => newDispatcher.trigger(args));
+            this.trackedEvents.set(event, newDispatcher);
+            dispatcher = newDispatcher;
+        }
+        return dispatcher;
+    }
+
+    // handlers of the returned emitter write the handled events and the state changes of the listed agents to the audit log
+    private audited<E extends { $event: EvmEvent }>(emitter: EventEmitter<E>, agentVaults: (args: E) => string[]) {
+        return new EventEmitter<E>(null, handler => emitter.subscribe(args => {
+            const auditLog = this.auditLog;
+            if (!auditLog) return handler(args);
+            const addresses = agentVaults(args);
+            const before = addresses.map(address => this.agentSnapshot(address));
+            handler(args);
+            const deltas = addresses.map((address, i) => auditLog.agentDelta(address, before[i], this.agentSnapshot(address)));
+            auditLog.writeEvent(args.$event, deltas);
+        }));
+    }
+
+    private agentSnapshot(address: string) {
+        const agent = this.agents.get(address);
+        return agent ? agentStateSnapshot(agent) : undefined;
+    }
+
     // getters
 
     lotSize() {
         return toBN(this.settings.lotSizeAMG).mul(toBN(this.settings.assetMintingGranularityUBA));
     }
 
+    predictRedemption(lots: BNish) {
+        return this.redemptionQueue.predictRedemption(this.settings, toBN(lots));
+    }
+
     // logs
 
     expect(condition: boolean, message: string, event: EvmEvent) {
@@ -0,0 +1,134 @@
+import { AgentInfo, AgentStatus } from "../fasset/AssetManagerTypes";
+import { expectErrors, filterStackTrace, formatBN, sleep, toBN } from "../utils/helpers";
+import { ILogger } from "../utils/logging";
+import { tokenBalance } from "./TokenPrice";
+import { TrackedAgentState } from "./TrackedAgentState";
+import { TrackedState } from "./TrackedState";
+
+export interface AgentDrift {
+    field: string;
+    actual: string;
+    tracked: string;
+}
+
+/**
+ * Periodically compares tracked agent state with the on-chain state (`getAgentInfo` and collateral token balances),
+ * to detect lost or mishandled events.
+ * On-chain state is read at the latest block, while some events may still be in flight, so an agent is only reported
+ * when the difference persists after `recheckDelayMS`.
+ */
+export class TrackedStateReconciler {
+    constructor(
+        public state: TrackedState,
+    ) { }
+
+    intervalMS = 300_000;
+    recheckDelayMS = 10_000;
+    // replace drifted agents with the agent state read from chain
+    resync = false;
+    logger?: ILogger = this.state.logger;
+
+    // number of agents with detected drift
+    driftCount = 0;
+
+    private timer?: NodeJS.Timeout;
+
+    start() {
+        const reconcileLoop = () => {
+            void this.reconcileAll()
+                .catch(e => this.log(`RECONCILER failed: ${filterStackTrace(e)}`))
+                .finally(() => {
+                    if (this.timer) this.timer = setTimeout(reconcileLoop, this.intervalMS);
+                });
+        };
+        this.timer = setTimeout(reconcileLoop, this.intervalMS);
+    }
+
+    stop() {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+    }
+
+    async reconcileAll() {
+        for (const agent of Array.from(this.state.agents.values())) {
+            await this.reconcileAgent(agent);
+        }
+    }
+
+    /**
+     * Check a single agent and report (and optionally resync) persistent drift.
+     * Returns the list of differences (empty if the agent matches the chain).
+     */
+    async reconcileAgent(agent: TrackedAgentState): Promise<AgentDrift[]> {
+        let drift = await this.findDrift(agent);
+        if (drift == null || drift.length === 0) return drift ?? [];
+        // re-check, in case the differences were caused by events that weren't processed yet
+        await sleep(this.recheckDelayMS);
+        if (this.state.getAgent(agent.address) !== agent) return [];    // destroyed or replaced meanwhile
+        drift = await this.findDrift(agent);
+        if (drift == null || drift.length === 0) return drift ?? [];
+        this.driftCount += 1;
+        const lastEvent = agent.lastEvent ? this.state.eventInfo(agent.lastEvent) : "no events";
+        this.log(`RECONCILER drift for agent ${agent.name()} (last ${lastEvent}):`);
+        for (const item of drift) {
+            this.log(`    ${item.field}: actual=${item.actual} tracked=${item.tracked}`);
+        }
+        if (this.resync) {
+            this.log(`RECONCILER resyncing agent ${agent.name()}`);
+            await this.state.createAgentVaultWithCurrentState(agent.address);
+        }
+        return drift;
+    }
+
+    /**
+     * Returns undefined if the agent doesn't exist on chain any more.
+     */
+    async findDrift(agent: TrackedAgentState): Promise<AgentDrift[] | undefined> {
+        const agentInfo = await this.state.context.assetManager.getAgentInfo(agent.address)
+            .catch(e => expectErrors(e, ['invalid agent vault address']));
+        if (!agentInfo) {
+            this.log(`RECONCILER agent ${agent.name()} doesn't exist on chain any more`);
+            if (this.resync) {
+                this.state.destroyAgent(agent.address);
+            }
+            return undefined;
+        }
+        const vaultCollateralWei = await tokenBalance(agent.vaultCollateral.token, agent.address);
+        const poolCollateralWei = await tokenBalance(agent.poolWNatCollateral.token, agent.collateralPoolAddress);
+        const drift: AgentDrift[] = [];
+        const compare = (field: string, actual: BN | string, tracked: BN | string) => {
+            const different = typeof actual === 'string' ? actual !== tracked : !toBN(actual).eq(toBN(tracked));
+            if (different) {
+                drift.push({ field, actual: this.formatValue(actual), tracked: this.formatValue(tracked) });
+            }
+        };
+        compare("mintedUBA", toBN(agentInfo.mintedUBA), agent.mintedUBA);
+        compare("reservedUBA", toBN(agentInfo.reservedUBA), agent.reservedUBA);
+        compare("redeemingUBA", toBN(agentInfo.redeemingUBA), agent.redeemingUBA);
+        compare("poolRedeemingUBA", toBN(agentInfo.poolRedeemingUBA), agent.poolRedeemingUBA);
+        compare("dustUBA", toBN(agentInfo.dustUBA), agent.dustUBA);
+        compare("freeUnderlyingBalanceUBA", toBN(agentInfo.freeUnderlyingBalanceUBA), agent.freeUnderlyingBalanceUBA);
+        compare("vaultCollateralToken", agentInfo.vaultCollateralToken, agent.vaultCollateral.token);
+        compare("totalVaultCollateralWei", vaultCollateralWei, agent.totalVaultCollateralWei);
+        compare("totalPoolCollateralNATWei", poolCollateralWei, agent.totalPoolCollateralNATWei);
+        if (!this.statusMatches(agentInfo, agent)) {
+            drift.push({ field: "status", actual: AgentStatus[Number(agentInfo.status)], tracked: AgentStatus[agent.status] });
+        }
+        return drift;
+    }
+
+    private statusMatches(agentInfo: AgentInfo, agent: TrackedAgentState) {
+        const actualStatus = Number(agentInfo.status);
+        // CCB timeout doesn't emit an event, so getAgentInfo may already report liquidation
+        if (agent.status === AgentStatus.CCB && actualStatus === AgentStatus.LIQUIDATION) return true;
+        return actualStatus === agent.status;
+    }
+
+    private formatValue(value: BN | string) {
+        return typeof value === 'string' ? value : formatBN(value);
+    }
+
+    private log(text: string) {
+        this.logger?.log(text);
+    }
+}
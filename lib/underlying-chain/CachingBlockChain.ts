@@ -0,0 +1,213 @@
+import BN from "bn.js";
+import { errorIncluded, sleep } from "../utils/helpers";
+import { ILogger } from "../utils/logging";
+import { LruCache } from "../utils/lru-cache";
+import { IBlock, IBlockChain, IBlockId, ITransaction } from "./interfaces/IBlockChain";
+
+const TRANSIENT_ERRORS = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "socket hang up", "timed out", "status 429", "status 502", "status 503", "rate limit", "Too Many Requests"];
+
+export interface BlockChainCacheStatistics {
+    // calls answered from cache
+    hits: number;
+    // calls that needed a request to the underlying chain
+    misses: number;
+    // calls that joined an identical request already in flight
+    deduplicated: number;
+    // retried requests (after transient errors)
+    retries: number;
+}
+
+/**
+ * IBlockChain decorator that reduces the number of requests to the wrapped chain (e.g. a throttled indexer).
+ * - Transactions, transaction blocks and blocks are cached (LRU), but only when they are final, so that reorganizations
+ *   are never hidden. A transaction is cached when its block is known to be final - either from `getTransactionBlock`
+ *   or, when a fetched block (e.g. by polling) contained it at a final depth, after one confirming block lookup.
+ * - Identical concurrent requests share one underlying request.
+ * - Requests are spaced to at most `requestsPerSecond` and retried with exponential backoff on transient errors.
+ * Balances and block height are never cached.
+ */
+export class CachingBlockChain implements IBlockChain {
+    constructor(
+        public chain: IBlockChain,
+    ) { }
+
+    logger?: ILogger;
+
+    requestsPerSecond?: number;     // undefined means unlimited
+    maxRetries = 3;
+    retryDelayMS = 1000;            // doubled on every retry
+    heightRefreshMS = 5000;         // max age of block height used for deciding finality
+
+    stats: BlockChainCacheStatistics = { hits: 0, misses: 0, deduplicated: 0, retries: 0 };
+
+    private transactions = new LruCache<string, ITransaction>(10_000);
+    private transactionBlocks = new LruCache<string, IBlockId>(10_000);
+    private blocksByHash = new LruCache<string, IBlock>(1000);
+    private blocksByNumber = new LruCache<number, IBlock>(1000);
+    // txHash => number of a fetched block that contained it (maybe not final, so only a hint)
+    private seenTransactionBlocks = new LruCache<string, number>(50_000);
+    private inFlight = new Map<string, Promise<unknown>>();
+    private nextRequestTime = 0;
+    private knownHeight?: { height: number, time: number };
+
+    get maxCachedTransactions() {
+        return this.transactions.maxSize;
+    }
+
+    set maxCachedTransactions(value: number) {
+        this.transactions.maxSize = this.transactionBlocks.maxSize = value;
+    }
+
+    get maxCachedBlocks() {
+        return this.blocksByHash.maxSize;
+    }
+
+    set maxCachedBlocks(value: number) {
+        this.blocksByHash.maxSize = this.blocksByNumber.maxSize = value;
+    }
+
+    get finalizationBlocks() {
+        return this.chain.finalizationBlocks;
+    }
+
+    get secondsPerBlock() {
+        return this.chain.secondsPerBlock;
+    }
+
+    async getTransaction(txHash: string): Promise<ITransaction | null> {
+        const cached = this.cacheLookup(this.transactions, txHash);
+        if (cached != null) return cached;
+        const transaction = await this.request(`getTransaction:${txHash}`, () => this.chain.getTransaction(txHash));
+        if (transaction != null && await this.isTransactionFinal(txHash)) {
+            this.transactions.set(txHash, transaction);
+        }
+        return transaction;
+    }
+
+    async getTransactionBlock(txHash: string): Promise<IBlockId | null> {
+        const cached = this.cacheLookup(this.transactionBlocks, txHash);
+        if (cached != null) return cached;
+        return await this.fetchTransactionBlock(txHash);
+    }
+
+    async getBalance(address: string): Promise<BN> {
+        return await this.request(`getBalance:${address}`, () => this.chain.getBalance(address));
+    }
+
+    async getBlock(blockHash: string): Promise<IBlock | null> {
+        const cached = this.cacheLookup(this.blocksByHash, blockHash);
+        if (cached != null) return cached;
+        const block = await this.request(`getBlock:${blockHash}`, () => this.chain.getBlock(blockHash));
+        this.recordBlockTransactions(block);
+        await this.cacheBlockIfFinal(block);
+        return block;
+    }
+
+    async getBlockAt(blockNumber: number): Promise<IBlock | null> {
+        const cached = this.cacheLookup(this.blocksByNumber, blockNumber);
+        if (cached != null) return cached;
+        const block = await this.request(`getBlockAt:${blockNumber}`, () => this.chain.getBlockAt(blockNumber));
+        this.recordBlockTransactions(block);
+        await this.cacheBlockIfFinal(block);
+        return block;
+    }
+
+    async getBlockHeight(): Promise<number> {
+        const height = await this.request(`getBlockHeight`, () => this.chain.getBlockHeight());
+        this.knownHeight = { height, time: Date.now() };
+        return height;
+    }
+
+    clearCache() {
+        this.transactions.clear();
+        this.transactionBlocks.clear();
+        this.blocksByHash.clear();
+        this.blocksByNumber.clear();
+        this.seenTransactionBlocks.clear();
+    }
+
+    private cacheLookup<K, V>(cache: LruCache<K, V>, key: K): V | undefined {
+        const value = cache.get(key);
+        if (value != null) {
+            this.stats.hits++;
+        } else {
+            this.stats.misses++;
+        }
+        return value;
+    }
+
+    private async fetchTransactionBlock(txHash: string) {
+        const block = await this.request(`getTransactionBlock:${txHash}`, () => this.chain.getTransactionBlock(txHash));
+        if (block != null && await this.isFinal(block.number)) {
+            this.transactionBlocks.set(txHash, block);
+        }
+        return block;
+    }
+
+    // Cached transaction blocks are always final. Otherwise the block is only looked up (the seen block may have been
+    // replaced by reorganization) when the transaction is likely final, so that fetching a transaction costs no extra request.
+    private async isTransactionFinal(txHash: string) {
+        if (this.transactionBlocks.has(txHash)) return true;
+        const seenBlockNumber = this.seenTransactionBlocks.get(txHash);
+        if (seenBlockNumber == null || !await this.isFinal(seenBlockNumber)) return false;
+        await this.fetchTransactionBlock(txHash);
+        return this.transactionBlocks.has(txHash);
+    }
+
+    private recordBlockTransactions(block: IBlock | null) {
+        if (block == null) return;
+        for (const txHash of block.transactions) {
+            this.seenTransactionBlocks.set(txHash, block.number);
+        }
+    }
+
+    private async cacheBlockIfFinal(block: IBlock | null) {
+        if (block == null || !await this.isFinal(block.number)) return;
+        this.blocksByHash.set(block.hash, block);
+        this.blocksByNumber.set(block.number, block);
+    }
+
+    // Stale height only makes fewer blocks final, so a recently fetched height is good enough.
+    private async isFinal(blockNumber: number) {
+        if (this.knownHeight == null || Date.now() - this.knownHeight.time >= this.heightRefreshMS) {
+            await this.getBlockHeight();
+        }
+        return blockNumber + this.chain.finalizationBlocks <= this.knownHeight!.height;
+    }
+
+    // Run the request, unless an identical one is already in flight - then wait for its result.
+    private request<T>(key: string, call: () => Promise<T>): Promise<T> {
+        const pending = this.inFlight.get(key);
+        if (pending != null) {
+            this.stats.deduplicated++;
+            return pending as Promise<T>;
+        }
+        const promise = this.withRetries(call).finally(() => this.inFlight.delete(key));
+        this.inFlight.set(key, promise);
+        return promise;
+    }
+
+    private async withRetries<T>(call: () => Promise<T>): Promise<T> {
+        for (let retry = 0; ; retry++) {
+            await this.waitForRequestSlot();
+            try {
+                return await call();
+            } catch (e) {
+                if (!errorIncluded(e, TRANSIENT_ERRORS) || retry >= this.maxRetries) throw e;
+                this.stats.retries++;
+                this.logger?.log(`CACHING CHAIN retrying after error: ${(e as Error).message}`);
+                await sleep(this.retryDelayMS * 2 ** retry);
+            }
+        }
+    }
+
+    private async waitForRequestSlot() {
+        if (this.requestsPerSecond == null) return;
+        const now = Date.now();
+        const requestTime = Math.max(now, this.nextRequestTime);
+        this.nextRequestTime = requestTime + 1000 / this.requestsPerSecond;
+        if (requestTime > now) {
+            await sleep(requestTime - now);
+        }
+    }
+}
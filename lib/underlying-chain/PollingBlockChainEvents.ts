@@ -0,0 +1,257 @@
+import { Dict, filterStackTrace, toBN } from "../utils/helpers";
+import { ILogger } from "../utils/logging";
+import { IPersistentStore } from "../utils/persistent-store";
+import { IBlock, IBlockChain, ITransaction, TxInputOutput } from "./interfaces/IBlockChain";
+import { BlockHandler, IBlockChainEvents, TransactionHandler } from "./interfaces/IBlockChainEvents";
+
+export interface RecentBlock {
+    number: number;
+    hash: string;
+    // reported transactions that have transaction removed handlers (needed for reporting removal after reorganization)
+    transactions: ITransaction[];
+}
+
+export interface BlockChainEventsCursor {
+    // last block whose handlers have been called
+    lastBlock: number;
+    // processed blocks within finalization window, used for detecting reorganizations
+    recentBlocks?: RecentBlock[];
+}
+
+const TRANSACTION_FILTER_KEYS = ['hash', 'from', 'to', 'reference'];
+
+export function transactionMatchesFilter(filter: Dict<string>, transaction: ITransaction) {
+    for (const [key, value] of Object.entries(filter)) {
+        switch (key) {
+            case 'hash': {
+                if (transaction.hash !== value) return false;
+                break;
+            }
+            case 'reference': {
+                if (transaction.reference?.toLowerCase() !== value.toLowerCase()) return false;
+                break;
+            }
+            case 'from': {
+                if (!transaction.inputs.some(([address, _]) => address === value)) return false;
+                break;
+            }
+            case 'to': {
+                if (!transaction.outputs.some(([address, _]) => address === value)) return false;
+                break;
+            }
+            default: throw new Error(`Invalid transaction filter ${key}`);
+        }
+    }
+    return true;
+}
+
+function validateTransactionFilter(filter: Dict<string> | null) {
+    for (const key of Object.keys(filter ?? {})) {
+        if (!TRANSACTION_FILTER_KEYS.includes(key)) throw new Error(`Invalid transaction filter ${key}`);
+    }
+}
+
+function restoreRecentBlock(recent: RecentBlock): RecentBlock {
+    // amounts in inputs/outputs are stored in tuples, so BN keys deserialization doesn't convert them
+    const restoreIO = (ios: TxInputOutput[]) => ios.map(([address, amount]): TxInputOutput => [address, toBN(amount)]);
+    const transactions = recent.transactions.map(tx => ({ ...tx, inputs: restoreIO(tx.inputs), outputs: restoreIO(tx.outputs) }));
+    return { ...recent, transactions };
+}
+
+/**
+ * IBlockChainEvents implementation for chains that only have request/response api.
+ * Polls `getBlockHeight()` and calls handlers for every new block in order. Block transactions are fetched with `getTransaction`,
+ * but only when some transaction handler may need them.
+ * The cursor (last processed block) is saved after each block, so after restart processing resumes at the next block;
+ * without a saved cursor, processing starts after the current block height (or at `start(fromBlock)`).
+ * Processed blocks within the finalization window are tracked to detect reorganizations (changed block hash or parent hash).
+ * On reorganization, transaction removed handlers are called for the transactions of dropped blocks (newest first)
+ * and the blocks after the fork point are processed again, so the replacement transactions are reported anew.
+ */
+export class PollingBlockChainEvents implements IBlockChainEvents {
+    constructor(
+        public chain: IBlockChain,
+        public cursorStore?: IPersistentStore<BlockChainEventsCursor>,
+    ) {
+        const cursor = cursorStore?.load();
+        this.lastBlock = cursor?.lastBlock;
+        this.recentBlocks = cursor?.recentBlocks?.map(restoreRecentBlock) ?? [];
+    }
+
+    pollIntervalMS = 5000;
+    logger?: ILogger;
+
+    lastBlock?: number;
+    recentBlocks: RecentBlock[];
+
+    private blockHandlers = new Map<string, BlockHandler>();
+    private transactionHandlers = new Map<string, [filter: Dict<string> | null, handler: TransactionHandler]>();
+    private transactionRemovedHandlers = new Map<string, [filter: Dict<string> | null, handler: TransactionHandler]>();
+    private lastSubscriptionId = 0;
+    private timer?: NodeJS.Timeout;
+
+    addBlockHandler(handler: BlockHandler): string {
+        const subscriptionId = String(++this.lastSubscriptionId);
+        this.blockHandlers.set(subscriptionId, handler);
+        return subscriptionId;
+    }
+
+    addTransactionHandler(filter: Dict<string> | null, handler: TransactionHandler): string {
+        validateTransactionFilter(filter);
+        const subscriptionId = String(++this.lastSubscriptionId);
+        this.transactionHandlers.set(subscriptionId, [filter, handler]);
+        return subscriptionId;
+    }
+
+    addTransactionRemovedHandler(filter: Dict<string> | null, handler: TransactionHandler): string {
+        validateTransactionFilter(filter);
+        const subscriptionId = String(++this.lastSubscriptionId);
+        this.transactionRemovedHandlers.set(subscriptionId, [filter, handler]);
+        return subscriptionId;
+    }
+
+    removeHandler(subscriptionId: string): void {
+        this.blockHandlers.delete(subscriptionId);
+        this.transactionHandlers.delete(subscriptionId);
+        this.transactionRemovedHandlers.delete(subscriptionId);
+    }
+
+    // Start polling. When `fromBlock` is given, it overrides the saved cursor.
+    start(fromBlock?: number) {
+        if (fromBlock != null) {
+            this.lastBlock = fromBlock - 1;
+            this.recentBlocks = [];
+        }
+        const pollLoop = () => {
+            void this.poll()
+                .catch(e => this.logger?.log(`CHAIN EVENTS poll failed: ${filterStackTrace(e)}`))
+                .finally(() => {
+                    if (this.timer) this.timer = setTimeout(pollLoop, this.pollIntervalMS);
+                });
+        };
+        this.timer = setTimeout(pollLoop, 0);
+    }
+
+    stop() {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+    }
+
+    // Process all blocks after `lastBlock` up to the current height.
+    async poll() {
+        const height = await this.chain.getBlockHeight();
+        if (this.lastBlock == null) {
+            this.setLastBlock(height);
+            return;
+        }
+        // lastBlock may have been moved back (e.g. in tests)
+        this.recentBlocks = this.recentBlocks.filter(recent => recent.number <= this.lastBlock!);
+        await this.rewindReorganizedBlocks();
+        while (this.lastBlock < height) {
+            const blockWithTransactions = await this.getBlockWithTransactions(this.lastBlock + 1);
+            if (blockWithTransactions == null) break;   // node is not there yet
+            const [block, transactions] = blockWithTransactions;
+            const parent = this.recentBlocks[this.recentBlocks.length - 1];
+            if (block.parentHash != null && parent?.number === block.number - 1 && block.parentHash !== parent.hash) {
+                // reorganization happened after the last check; if nothing was rewound, the node is inconsistent, so retry on next poll
+                if (!await this.rewindReorganizedBlocks()) break;
+                continue;
+            }
+            this.notify(block, transactions);
+            this.addRecentBlock(block, transactions);
+            this.setLastBlock(block.number);
+        }
+    }
+
+    // Compare recent blocks with the chain and undo the ones that were replaced. Returns true if any block was undone.
+    protected async rewindReorganizedBlocks() {
+        let rewound = false;
+        while (this.recentBlocks.length > 0) {
+            const recent = this.recentBlocks[this.recentBlocks.length - 1];
+            const block = await this.chain.getBlockAt(recent.number);
+            if (block == null || block.hash === recent.hash) break;     // block not available yet or not changed
+            this.recentBlocks.pop();
+            this.notifyRemoved(recent.transactions);
+            this.lastBlock = recent.number - 1;
+            rewound = true;
+        }
+        if (rewound) {
+            this.logger?.log(`CHAIN EVENTS reorganization detected, reprocessing from block ${this.lastBlock! + 1}`);
+            if (this.recentBlocks.length === 0) {
+                this.logger?.log(`CHAIN EVENTS reorganization is deeper than tracked blocks, transactions before block ${this.lastBlock! + 1} may have been removed`);
+            }
+            this.setLastBlock(this.lastBlock!);
+        }
+        return rewound;
+    }
+
+    // Block and its transactions that may be needed by handlers (chains with better api can fetch these in one request).
+    protected async getBlockWithTransactions(blockNumber: number): Promise<[IBlock, ITransaction[]] | null> {
+        const block = await this.chain.getBlockAt(blockNumber);
+        if (block == null) return null;
+        const transactions: ITransaction[] = [];
+        for (const txHash of block.transactions) {
+            if (!this.transactionNeeded(txHash)) continue;
+            const transaction = await this.chain.getTransaction(txHash);
+            if (transaction == null) {
+                throw new Error(`Transaction ${txHash} in block ${blockNumber} not found`);
+            }
+            transactions.push(transaction);
+        }
+        return [block, transactions];
+    }
+
+    protected transactionNeeded(txHash: string) {
+        for (const [filter, _] of [...this.transactionHandlers.values(), ...this.transactionRemovedHandlers.values()]) {
+            if (filter?.hash == null || filter.hash === txHash) return true;
+        }
+        return false;
+    }
+
+    protected notify(block: IBlock, transactions: ITransaction[]) {
+        for (const handler of Array.from(this.blockHandlers.values())) {
+            this.callHandler(() => handler({ hash: block.hash, number: block.number }));
+        }
+        for (const [filter, handler] of Array.from(this.transactionHandlers.values())) {
+            for (const transaction of transactions) {
+                if (filter == null || transactionMatchesFilter(filter, transaction)) {
+                    this.callHandler(() => handler(transaction));
+                }
+            }
+        }
+    }
+
+    protected notifyRemoved(transactions: ITransaction[]) {
+        for (const [filter, handler] of Array.from(this.transactionRemovedHandlers.values())) {
+            for (const transaction of [...transactions].reverse()) {
+                if (filter == null || transactionMatchesFilter(filter, transaction)) {
+                    this.callHandler(() => handler(transaction));
+                }
+            }
+        }
+    }
+
+    private addRecentBlock(block: IBlock, transactions: ITransaction[]) {
+        // only keep transactions whose removal may be reported, so that the cursor stays small
+        const removable = transactions.filter(transaction => Array.from(this.transactionRemovedHandlers.values())
+            .some(([filter, _]) => filter == null || transactionMatchesFilter(filter, transaction)));
+        this.recentBlocks.push({ number: block.number, hash: block.hash, transactions: removable });
+        const windowSize = Math.max(this.chain.finalizationBlocks, 1);
+        if (this.recentBlocks.length > windowSize) {
+            this.recentBlocks.splice(0, this.recentBlocks.length - windowSize);
+        }
+    }
+
+    private setLastBlock(blockNumber: number) {
+        this.lastBlock = blockNumber;
+        this.cursorStore?.save({ lastBlock: blockNumber, recentBlocks: this.recentBlocks });
+    }
+
+    private callHandler(call: () => void) {
+        try {
+            call();
+        } catch (e) {
+            this.logger?.log(`CHAIN EVENTS handler failed: ${filterStackTrace(e)}`);
+        }
+    }
+}
@@ -34,6 +34,15 @@ export class UnderlyingChainEvents {
             return ClearableSubscription.of(() => this.events.removeHandler(subscriptionId));
         });
     }
+
+    // Transactions removed from the chain by reorganization. Never triggered if the events source doesn't support removal.
+    transactionRemovedEvent(filter: { [name: string]: string; } | null = null): EventEmitter<ITransaction> {
+        return new EventEmitter(this.executionQueue, handler => {
+            if (this.events.addTransactionRemovedHandler == null) return ClearableSubscription.of(() => {});
+            const subscriptionId = this.events.addTransactionRemovedHandler(filter, handler);
+            return ClearableSubscription.of(() => this.events.removeHandler(subscriptionId));
+        });
+    }
     
     async waitForUnderlyingTransaction(scope: EventScope | undefined, txHash: string, maxBlocksToWaitForTx?: number) {
         const transaction = await this.chain.getTransaction(txHash);
@@ -47,14 +56,18 @@ export class UnderlyingChainEvents {
         return event.name === 'found' ? event.args : null;
     }
 
-    async waitForUnderlyingTransactionFinalization(scope: EventScope | undefined, txHash: string, maxBlocksToWaitForTx?: number) {
-        const transaction = await this.waitForUnderlyingTransaction(scope, txHash, maxBlocksToWaitForTx);
-        if (transaction == null) return null;
-        // find transaction block
-        const block = await this.chain.getTransactionBlock(txHash);
-        if (block == null) return null;
-        // wait for finalization
-        await this.blockHeightReachedEvent(block.number + this.chain.finalizationBlocks).wait(scope);
-        return transaction;
+    async waitForUnderlyingTransactionFinalization(scope: EventScope | undefined, txHash: string, maxBlocksToWaitForTx?: number): Promise<ITransaction | null> {
+        while (true) {
+            const transaction = await this.waitForUnderlyingTransaction(scope, txHash, maxBlocksToWaitForTx);
+            if (transaction == null) return null;
+            // find transaction block
+            const block = await this.chain.getTransactionBlock(txHash);
+            if (block == null) return null;
+            // wait for finalization
+            await this.blockHeightReachedEvent(block.number + this.chain.finalizationBlocks).wait(scope);
+            // if the block was replaced by reorganization in the meantime, the transaction may be missing or in another block
+            const finalBlock = await this.chain.getTransactionBlock(txHash);
+            if (finalBlock?.hash === block.hash) return transaction;
+        }
     }
 }
@@ -0,0 +1,194 @@
+import BN from "bn.js";
+import { BN_ZERO, sumBN, toBN, toBNExp } from "../utils/helpers";
+import { JsonRpcClient, JsonRpcError } from "./JsonRpcClient";
+import { SourceId } from "./SourceId";
+import { IBlock, IBlockChain, IBlockId, ITransaction, TX_SUCCESS, TxInputOutput } from "./interfaces/IBlockChain";
+
+export const UTXO_DECIMALS = 8;
+
+// bitcoind error codes
+const RPC_METHOD_NOT_FOUND = -32601;
+const RPC_INVALID_ADDRESS_OR_KEY = -5;     // e.g. unknown transaction or block hash
+const RPC_INVALID_PARAMETER = -8;          // e.g. block height out of range
+
+export interface UtxoChainParameters {
+    finalizationBlocks: number;
+    secondsPerBlock: number;
+    // rpc method for signing with the node's wallet (Dogecoin doesn't have `signrawtransactionwithwallet`)
+    signMethod: string;
+    // smaller change outputs are added to the fee (in satoshi)
+    dustLimit: number;
+    // fee rate used when the node can't estimate it (satoshi per byte)
+    fallbackFeeRate: number;
+}
+
+const BTC_PARAMETERS: UtxoChainParameters = { finalizationBlocks: 6, secondsPerBlock: 600, signMethod: "signrawtransactionwithwallet", dustLimit: 546, fallbackFeeRate: 10 };
+const DOGE_PARAMETERS: UtxoChainParameters = { finalizationBlocks: 60, secondsPerBlock: 60, signMethod: "signrawtransaction", dustLimit: 1_000_000, fallbackFeeRate: 1000 };
+const LTC_PARAMETERS: UtxoChainParameters = { finalizationBlocks: 12, secondsPerBlock: 150, signMethod: "signrawtransactionwithwallet", dustLimit: 5460, fallbackFeeRate: 10 };
+
+export const UTXO_CHAIN_PARAMETERS: Record<SourceId, UtxoChainParameters> = {
+    [SourceId.BTC]: BTC_PARAMETERS,
+    [SourceId.testBTC]: BTC_PARAMETERS,
+    [SourceId.DOGE]: DOGE_PARAMETERS,
+    [SourceId.testDOGE]: DOGE_PARAMETERS,
+    [SourceId.LTC]: LTC_PARAMETERS,
+};
+
+export function utxoChainParameters(sourceId: SourceId) {
+    const parameters = UTXO_CHAIN_PARAMETERS[sourceId];
+    if (parameters == null) throw new Error(`Not an UTXO chain: ${sourceId}`);
+    return parameters;
+}
+
+// Transaction and block hashes are returned '0x'-prefixed (like bytes32 in contract events and proofs).
+export function normalizeUtxoHash(hash: string) {
+    return "0x" + hash.replace(/^0x/i, "").toLowerCase();
+}
+
+// Hash in the format used by bitcoind.
+export function utxoNativeHash(hash: string) {
+    return hash.replace(/^0x/i, "").toLowerCase();
+}
+
+// Convert amount in coins to satoshi. Rpc amounts are returned as strings by the chain's client (doubles can't
+// represent all amounts of 10M coins or more with 8 decimals exactly).
+export function toSatoshi(value: number | string) {
+    return toBNExp(value, UTXO_DECIMALS);
+}
+
+// Convert satoshi to amount string, as accepted by rpc (strings avoid float rounding).
+export function fromSatoshi(value: BN) {
+    const digits = value.toString().padStart(UTXO_DECIMALS + 1, "0");
+    return `${digits.slice(0, -UTXO_DECIMALS)}.${digits.slice(-UTXO_DECIMALS)}`;
+}
+
+// Address of an output script (`address` in newer nodes, `addresses` in older nodes and Dogecoin).
+export function scriptAddress(scriptPubKey: any): string | null {
+    return scriptPubKey.address ?? scriptPubKey.addresses?.[0] ?? null;
+}
+
+/**
+ * Payment reference is the data of the transaction's single OP_RETURN output, if it is 32 bytes long.
+ */
+export function utxoPaymentReference(vout: any[]): string | null {
+    const dataOutputs = vout.filter(output => output.scriptPubKey.type === "nulldata");
+    if (dataOutputs.length !== 1) return null;
+    const match = /^6a20([0-9a-f]{64})$/i.exec(dataOutputs[0].scriptPubKey.hex);
+    return match ? "0x" + match[1].toLowerCase() : null;
+}
+
+/**
+ * IBlockChain implementation over Bitcoin Core style rpc (also works with Dogecoin and Litecoin nodes).
+ * `getTransaction` requires the node to have `txindex` enabled (for non-wallet transactions and for resolving input addresses).
+ */
+export class UtxoBlockChain implements IBlockChain {
+    constructor(
+        public client: JsonRpcClient,
+        public parameters: UtxoChainParameters,
+    ) {
+        // amounts in coins must be parsed exactly
+        client.decimalsAsStrings = true;
+        this.finalizationBlocks = parameters.finalizationBlocks;
+        this.secondsPerBlock = parameters.secondsPerBlock;
+    }
+
+    finalizationBlocks: number;
+    secondsPerBlock: number;
+
+    static forUrl(url: string, sourceId: SourceId) {
+        return new UtxoBlockChain(new JsonRpcClient(url, 30_000, "1.0"), utxoChainParameters(sourceId));
+    }
+
+    async rpc(method: string, params: unknown[]): Promise<any> {
+        return await this.client.call(method, params);
+    }
+
+    // Only transactions included in a block are reported (mempool transactions return null, as in other IBlockChain implementations).
+    async getTransaction(txHash: string): Promise<ITransaction | null> {
+        const tx = await this.getRawTransaction(txHash);
+        if (tx == null || tx.blockhash == null) return null;
+        const inputs: TxInputOutput[] = await Promise.all(tx.vin.filter((vin: any) => vin.coinbase == null).map((vin: any) => this.resolvePrevout(vin)));
+        const outputs: TxInputOutput[] = tx.vout
+            .filter((vout: any) => vout.scriptPubKey.type !== "nulldata")
+            .map((vout: any) => [scriptAddress(vout.scriptPubKey) ?? "", toSatoshi(vout.value)]);
+        if (inputs.length === 0) {
+            // coinbase - there are no real inputs, but the fee must not be negative
+            inputs.push(["", sumBN(outputs, ([_, amount]) => amount)]);
+        }
+        return {
+            hash: normalizeUtxoHash(tx.txid),
+            inputs: inputs,
+            outputs: outputs,
+            reference: utxoPaymentReference(tx.vout),
+            status: TX_SUCCESS,     // failed transactions are never included in blocks
+        };
+    }
+
+    async getTransactionBlock(txHash: string): Promise<IBlockId | null> {
+        const tx = await this.getRawTransaction(txHash);
+        if (tx == null || tx.blockhash == null) return null;
+        const header = await this.rpc("getblockheader", [tx.blockhash, true])
+            .catch(e => notFound(e, RPC_INVALID_ADDRESS_OR_KEY));
+        // the block may be orphaned by now, in which case confirmations is -1
+        if (header == null || header.confirmations < 0) return null;
+        return { hash: normalizeUtxoHash(header.hash), number: header.height };
+    }
+
+    // Sum of unspent outputs of the address. Uses `scantxoutset` if available, otherwise only works for addresses watched by the node's wallet.
+    async getBalance(address: string): Promise<BN> {
+        try {
+            const result = await this.rpc("scantxoutset", ["start", [`addr(${address})`]]);
+            return toSatoshi(result.total_amount);
+        } catch (e) {
+            if (!(e instanceof JsonRpcError && e.code === RPC_METHOD_NOT_FOUND)) throw e;
+        }
+        const unspent: any[] = await this.rpc("listunspent", [0, 9999999, [address]]);
+        return unspent.reduce((total: BN, utxo: any) => total.add(toSatoshi(utxo.amount)), BN_ZERO);
+    }
+
+    async getBlock(blockHash: string): Promise<IBlock | null> {
+        const block = await this.rpc("getblock", [utxoNativeHash(blockHash), true])
+            .catch(e => notFound(e, RPC_INVALID_ADDRESS_OR_KEY));
+        if (block == null || block.confirmations < 0) return null;
+        return {
+            hash: normalizeUtxoHash(block.hash),
+            number: block.height,
+            timestamp: block.time,
+            transactions: block.tx.map(normalizeUtxoHash),
+            parentHash: block.previousblockhash != null ? normalizeUtxoHash(block.previousblockhash) : undefined,
+        };
+    }
+
+    async getBlockAt(blockNumber: number): Promise<IBlock | null> {
+        const blockHash = await this.rpc("getblockhash", [blockNumber])
+            .catch(e => notFound(e, RPC_INVALID_PARAMETER));
+        return blockHash != null ? await this.getBlock(blockHash) : null;
+    }
+
+    async getBlockHeight(): Promise<number> {
+        return await this.rpc("getblockcount", []);
+    }
+
+    private async getRawTransaction(txHash: string) {
+        return await this.rpc("getrawtransaction", [utxoNativeHash(txHash), true])
+            .catch(e => notFound(e, RPC_INVALID_ADDRESS_OR_KEY));
+    }
+
+    // newer nodes can include the spent output in the input (`prevout`), otherwise the spent transaction is fetched
+    private async resolvePrevout(vin: any): Promise<TxInputOutput> {
+        if (vin.prevout != null) {
+            return [scriptAddress(vin.prevout.scriptPubKey) ?? "", toSatoshi(vin.prevout.value)];
+        }
+        const prevTx = await this.getRawTransaction(vin.txid);
+        if (prevTx == null) {
+            throw new Error(`Cannot resolve input ${vin.txid}:${vin.vout} (is txindex enabled?)`);
+        }
+        const prevout = prevTx.vout[vin.vout];
+        return [scriptAddress(prevout.scriptPubKey) ?? "", toSatoshi(prevout.value)];
+    }
+}
+
+function notFound(error: unknown, code: number): null {
+    if (error instanceof JsonRpcError && error.code === code) return null;
+    throw error;
+}
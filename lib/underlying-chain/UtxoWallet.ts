@@ -0,0 +1,175 @@
+import BN from "bn.js";
+import { BNish, BN_ZERO, minBN, sumBN, toBN } from "../utils/helpers";
+import { UtxoBlockChain, fromSatoshi, normalizeUtxoHash, toSatoshi } from "./UtxoBlockChain";
+import { IBlockChainWallet, TransactionOptions, TransactionOptionsWithFee } from "./interfaces/IBlockChainWallet";
+
+export interface Utxo {
+    txid: string;
+    vout: number;
+    address: string;
+    amount: BN;
+}
+
+// estimated serialized sizes in bytes (p2pkh inputs, which are the largest standard ones)
+const TX_OVERHEAD_BYTES = 10;
+const INPUT_BYTES = 148;
+const OUTPUT_BYTES = 34;
+const DATA_OUTPUT_BYTES = 43;
+
+/**
+ * Wallet for Bitcoin-family chains. Coin selection and fee estimation are done here; transactions are signed
+ * by the node's wallet, so the keys of the source addresses must be imported in the node (e.g. `importprivkey`).
+ * Change is returned to the source addresses.
+ * Transactions from the same source address are created one at a time, so that each one lists the utxos after
+ * the node's wallet has marked the inputs of the previous one as spent.
+ */
+export class UtxoWallet implements IBlockChainWallet {
+    constructor(
+        public chain: UtxoBlockChain,
+    ) { }
+
+    // confirmation target for `estimatesmartfee`
+    feeTargetBlocks = 6;
+    minConfirmations = 1;
+
+    private addressLocks = new Map<string, Promise<unknown>>();
+
+    async addTransaction(sourceAddress: string, targetAddress: string, amount: BNish, reference: string | null, options?: TransactionOptionsWithFee): Promise<string> {
+        return await this.withAddressLocks([sourceAddress], () => this.createTransaction(sourceAddress, targetAddress, amount, reference, options));
+    }
+
+    // Each source address pays its `spend` amount (change goes back to it). The difference between total spent and received
+    // amount is the fee budget; the estimated fee is used and the rest returned to the first source.
+    async addMultiTransaction(spend: { [address: string]: BNish; }, receive: { [address: string]: BNish; }, reference: string | null, options?: TransactionOptions): Promise<string> {
+        return await this.withAddressLocks(Object.keys(spend), () => this.createMultiTransaction(spend, receive, reference, options));
+    }
+
+    private async createTransaction(sourceAddress: string, targetAddress: string, amount: BNish, reference: string | null, options?: TransactionOptionsWithFee): Promise<string> {
+        const value = toBN(amount);
+        const maxFee = options?.maxFee != null ? toBN(options.maxFee) : null;
+        const feeRate = await this.estimateFeeRate();
+        const hasData = reference != null;
+        // the fee grows with every added input, so select until the inputs cover the amount and the fee for the inputs so far
+        const utxos = await this.listUnspent([sourceAddress]);
+        const selected: Utxo[] = [];
+        let fee = BN_ZERO;
+        for (const utxo of utxos) {
+            selected.push(utxo);
+            fee = this.estimateFee(feeRate, selected.length, 2, hasData);
+            if (maxFee != null) fee = minBN(fee, maxFee);
+            if (sumUtxos(selected).gte(value.add(fee))) break;
+        }
+        const change = sumUtxos(selected).sub(value).sub(fee);
+        if (change.isNeg()) {
+            throw new Error(`Insufficient funds on ${sourceAddress}: need ${value.add(fee)}, have ${sumUtxos(utxos)}`);
+        }
+        const outputs = new Map<string, BN>([[targetAddress, value]]);
+        this.addChange(outputs, sourceAddress, change);
+        return await this.sendTransaction(selected, outputs, reference);
+    }
+
+    private async createMultiTransaction(spend: { [address: string]: BNish; }, receive: { [address: string]: BNish; }, reference: string | null, options?: TransactionOptions): Promise<string> {
+        const spendAmounts = Object.entries(spend).map(([address, amount]) => [address, toBN(amount)] as [string, BN]);
+        const receiveAmounts = Object.entries(receive).map(([address, amount]) => [address, toBN(amount)] as [string, BN]);
+        const totalSpend = sumBN(spendAmounts, ([_, amount]) => amount);
+        const totalReceive = sumBN(receiveAmounts, ([_, amount]) => amount);
+        const feeRate = await this.estimateFeeRate();
+        const selected: Utxo[] = [];
+        const changes: Array<[string, BN]> = [];
+        for (const [address, amount] of spendAmounts) {
+            const utxos = this.selectUtxos(await this.listUnspent([address]), amount);
+            if (utxos == null) {
+                throw new Error(`Insufficient funds on ${address}: need ${amount}`);
+            }
+            selected.push(...utxos);
+            changes.push([address, sumUtxos(utxos).sub(amount)]);
+        }
+        const fee = this.estimateFee(feeRate, selected.length, receiveAmounts.length + changes.length, reference != null);
+        const feeBudget = totalSpend.sub(totalReceive);
+        if (feeBudget.lt(fee)) {
+            throw new Error(`Fee budget ${feeBudget} is less than estimated fee ${fee}`);
+        }
+        if (changes.length > 0) {
+            changes[0][1] = changes[0][1].add(feeBudget.sub(fee));
+        }
+        const outputs = new Map<string, BN>();
+        for (const [address, amount] of receiveAmounts) {
+            outputs.set(address, (outputs.get(address) ?? BN_ZERO).add(amount));
+        }
+        for (const [address, change] of changes) {
+            this.addChange(outputs, address, change);
+        }
+        return await this.sendTransaction(selected, outputs, reference);
+    }
+
+    // fee rate in satoshi per byte
+    async estimateFeeRate() {
+        const result = await this.chain.rpc("estimatesmartfee", [this.feeTargetBlocks]);
+        if (result?.feerate == null || result.feerate <= 0) {
+            return toBN(this.chain.parameters.fallbackFeeRate);
+        }
+        return toSatoshi(result.feerate).divn(1000);  // feerate is per kB
+    }
+
+    estimateFee(feeRate: BN, inputs: number, outputs: number, hasData: boolean) {
+        const bytes = TX_OVERHEAD_BYTES + inputs * INPUT_BYTES + outputs * OUTPUT_BYTES + (hasData ? DATA_OUTPUT_BYTES : 0);
+        return feeRate.muln(bytes);
+    }
+
+    // spendable outputs of the addresses, largest first
+    async listUnspent(addresses: string[]): Promise<Utxo[]> {
+        const unspent: any[] = await this.chain.rpc("listunspent", [this.minConfirmations, 9999999, addresses]);
+        return unspent
+            .filter(utxo => utxo.spendable !== false)
+            .map(utxo => ({ txid: utxo.txid, vout: utxo.vout, address: utxo.address, amount: toSatoshi(utxo.amount) }))
+            .sort((a, b) => b.amount.cmp(a.amount));
+    }
+
+    // largest-first selection of utxos covering the amount, or null if there aren't enough
+    selectUtxos(utxos: Utxo[], amount: BN): Utxo[] | null {
+        const selected: Utxo[] = [];
+        for (const utxo of utxos) {
+            if (sumUtxos(selected).gte(amount)) break;
+            selected.push(utxo);
+        }
+        return sumUtxos(selected).gte(amount) ? selected : null;
+    }
+
+    private addChange(outputs: Map<string, BN>, address: string, change: BN) {
+        // dust change is left to the fee
+        if (change.ltn(this.chain.parameters.dustLimit)) return;
+        outputs.set(address, (outputs.get(address) ?? BN_ZERO).add(change));
+    }
+
+    private async sendTransaction(inputs: Utxo[], outputs: Map<string, BN>, reference: string | null) {
+        const rawOutputs: Record<string, string> = {};
+        for (const [address, amount] of outputs) {
+            rawOutputs[address] = fromSatoshi(amount);
+        }
+        if (reference != null) {
+            rawOutputs.data = reference.replace(/^0x/i, "");
+        }
+        const rawInputs = inputs.map(utxo => ({ txid: utxo.txid, vout: utxo.vout }));
+        const unsignedHex = await this.chain.rpc("createrawtransaction", [rawInputs, rawOutputs]);
+        const signed = await this.chain.rpc(this.chain.parameters.signMethod, [unsignedHex]);
+        if (!signed.complete) {
+            throw new Error(`Signing transaction failed: ${JSON.stringify(signed.errors ?? [])}`);
+        }
+        const txid = await this.chain.rpc("sendrawtransaction", [signed.hex]);
+        return normalizeUtxoHash(txid);
+    }
+
+    // serialize transactions per source address, so that concurrent transactions don't select the same utxos
+    private async withAddressLocks<T>(addresses: string[], action: () => Promise<T>): Promise<T> {
+        const previous = Promise.all(addresses.map(address => (this.addressLocks.get(address) ?? Promise.resolve()).catch(() => {})));
+        const result = previous.then(action);
+        for (const address of addresses) {
+            this.addressLocks.set(address, result);
+        }
+        return await result;
+    }
+}
+
+function sumUtxos(utxos: Utxo[]) {
+    return sumBN(utxos, utxo => utxo.amount);
+}
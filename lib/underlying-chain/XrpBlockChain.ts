@@ -0,0 +1,178 @@
+import BN from "bn.js";
+import { BN_ZERO, toBN } from "../utils/helpers";
+import { IPersistentStore } from "../utils/persistent-store";
+import { JsonRpcClient, JsonRpcError } from "./JsonRpcClient";
+import { BlockChainEventsCursor, PollingBlockChainEvents } from "./PollingBlockChainEvents";
+import { IBlock, IBlockChain, IBlockId, ITransaction, TX_BLOCKED, TX_FAILED, TX_SUCCESS, TxInputOutput } from "./interfaces/IBlockChain";
+
+// XRPL timestamps are seconds since 1.1.2000
+const RIPPLE_EPOCH_OFFSET = 946684800;
+
+// failed payments where the receiver is at fault (e.g. destination requires tag or doesn't accept XRP)
+const BLOCKED_RESULT_CODES = ["tecDST_TAG_NEEDED", "tecNO_DST", "tecNO_DST_INSUF_XRP", "tecNO_PERMISSION"];
+
+// Transaction and ledger hashes are returned '0x'-prefixed lowercase (like bytes32 in contract events and proofs).
+export function normalizeXrpHash(hash: string) {
+    return "0x" + hash.replace(/^0x/i, "").toLowerCase();
+}
+
+// Hash in the format used by rippled.
+export function xrpNativeHash(hash: string) {
+    return hash.replace(/^0x/i, "").toUpperCase();
+}
+
+/**
+ * Payment reference is the data of the transaction's single memo, if it is 32 bytes long.
+ */
+export function xrpPaymentReference(tx: any): string | null {
+    const memos = tx.Memos;
+    if (!Array.isArray(memos) || memos.length !== 1) return null;
+    const memoData = memos[0]?.Memo?.MemoData;
+    if (typeof memoData !== "string" || !/^[0-9a-fA-F]{64}$/.test(memoData)) return null;
+    return "0x" + memoData.toLowerCase();
+}
+
+export function xrpTransactionStatus(resultCode: string) {
+    if (resultCode === "tesSUCCESS") return TX_SUCCESS;
+    if (BLOCKED_RESULT_CODES.includes(resultCode)) return TX_BLOCKED;
+    return TX_FAILED;
+}
+
+/**
+ * Convert transaction json (as returned by `tx` or in expanded `ledger`) to ITransaction.
+ * Only XRP payments transfer value; for other transactions (and issued currency payments) only the fee is spent.
+ * Failed transactions (tec codes) are included in ledgers and charge the fee, so they are reported with zero received amount.
+ */
+export function xrpTransactionToITransaction(tx: any, meta: any): ITransaction {
+    const fee = toBN(tx.Fee);
+    const status = xrpTransactionStatus(meta.TransactionResult);
+    const inputs: TxInputOutput[] = [];
+    const outputs: TxInputOutput[] = [];
+    if (tx.TransactionType === "Payment") {
+        // delivered_amount differs from Amount for partial payments
+        const delivered = meta.delivered_amount ?? meta.DeliveredAmount ?? tx.Amount;
+        const received = status === TX_SUCCESS && typeof delivered === "string" ? toBN(delivered) : BN_ZERO;
+        inputs.push([tx.Account, received.add(fee)]);
+        outputs.push([tx.Destination, received]);
+    } else {
+        inputs.push([tx.Account, fee]);
+    }
+    return {
+        hash: normalizeXrpHash(tx.hash),
+        inputs: inputs,
+        outputs: outputs,
+        reference: xrpPaymentReference(tx),
+        status: status,
+    };
+}
+
+/**
+ * IBlockChain implementation over rippled JSON-RPC. Blocks are ledgers; only validated ledgers and transactions are reported.
+ */
+export class XrpBlockChain implements IBlockChain {
+    constructor(
+        public client: JsonRpcClient,
+    ) { }
+
+    finalizationBlocks: number = 3;
+    secondsPerBlock: number = 4;
+
+    static forUrl(url: string) {
+        return new XrpBlockChain(new JsonRpcClient(url));
+    }
+
+    // rippled reports errors in result (e.g. `txnNotFound`), so they are converted to JsonRpcError with error name as code.
+    async rpc(method: string, params: object): Promise<any> {
+        const result = await this.client.call(method, [params]);
+        if (result?.status === "error") {
+            throw new JsonRpcError(`${method}: ${result.error_message ?? result.error}`, result.error);
+        }
+        return result;
+    }
+
+    async getTransaction(txHash: string): Promise<ITransaction | null> {
+        const result = await this.getValidatedTransaction(txHash);
+        return result != null ? xrpTransactionToITransaction(result, result.meta) : null;
+    }
+
+    async getTransactionBlock(txHash: string): Promise<IBlockId | null> {
+        const result = await this.getValidatedTransaction(txHash);
+        if (result == null) return null;
+        const ledger = await this.getLedger({ ledger_index: result.ledger_index });
+        return ledger != null ? { hash: ledger.hash, number: ledger.number } : null;
+    }
+
+    async getBalance(address: string): Promise<BN> {
+        const result = await this.rpc("account_info", { account: address, ledger_index: "validated" })
+            .catch(e => this.notFound(e, "actNotFound"));
+        return result != null ? toBN(result.account_data.Balance) : BN_ZERO;
+    }
+
+    async getBlock(blockHash: string): Promise<IBlock | null> {
+        return await this.getLedger({ ledger_hash: xrpNativeHash(blockHash) });
+    }
+
+    async getBlockAt(blockNumber: number): Promise<IBlock | null> {
+        return await this.getLedger({ ledger_index: blockNumber });
+    }
+
+    async getBlockHeight(): Promise<number> {
+        const result = await this.rpc("ledger", { ledger_index: "validated" });
+        return Number(result.ledger_index ?? result.ledger.ledger_index);
+    }
+
+    // Ledger with full transactions (used for polling). Returns null if the ledger doesn't exist or isn't validated.
+    async getLedgerTransactions(blockNumber: number): Promise<[IBlock, ITransaction[]] | null> {
+        const result = await this.rpc("ledger", { ledger_index: blockNumber, transactions: true, expand: true })
+            .catch(e => this.notFound(e, "lgrNotFound"));
+        if (result == null || !result.validated) return null;
+        const transactions: ITransaction[] = result.ledger.transactions.map((tx: any) => xrpTransactionToITransaction(tx, tx.metaData ?? tx.meta));
+        return [this.toIBlock(result.ledger, transactions.map(tx => tx.hash)), transactions];
+    }
+
+    private async getValidatedTransaction(txHash: string) {
+        const result = await this.rpc("tx", { transaction: xrpNativeHash(txHash), binary: false })
+            .catch(e => this.notFound(e, "txnNotFound"));
+        return result != null && result.validated ? result : null;
+    }
+
+    private async getLedger(params: object) {
+        const result = await this.rpc("ledger", { ...params, transactions: true, expand: false })
+            .catch(e => this.notFound(e, "lgrNotFound"));
+        if (result == null || !result.validated) return null;
+        return this.toIBlock(result.ledger, result.ledger.transactions.map(normalizeXrpHash));
+    }
+
+    private toIBlock(ledger: any, transactions: string[]): IBlock {
+        return {
+            hash: normalizeXrpHash(ledger.ledger_hash ?? ledger.hash),
+            number: Number(ledger.ledger_index),
+            timestamp: Number(ledger.close_time) + RIPPLE_EPOCH_OFFSET,
+            transactions: transactions,
+            parentHash: ledger.parent_hash != null ? normalizeXrpHash(ledger.parent_hash) : undefined,
+        };
+    }
+
+    private notFound(error: unknown, code: string): null {
+        if (error instanceof JsonRpcError && error.code === code) return null;
+        throw error;
+    }
+}
+
+/**
+ * Polling events for XRP ledger. Ledgers are fetched with all transactions in one request.
+ */
+export class XrpBlockChainEvents extends PollingBlockChainEvents {
+    constructor(
+        public chain: XrpBlockChain,
+        cursorStore?: IPersistentStore<BlockChainEventsCursor>,
+    ) {
+        super(chain, cursorStore);
+    }
+
+    override pollIntervalMS = 4000;
+
+    protected override async getBlockWithTransactions(blockNumber: number): Promise<[IBlock, ITransaction[]] | null> {
+        return await this.chain.getLedgerTransactions(blockNumber);
+    }
+}
@@ -0,0 +1,263 @@
+import BN from "bn.js";
+import { createHash, createPrivateKey, createPublicKey, KeyObject, sign, verify } from "crypto";
+
+// XRPL base58 uses its own alphabet
+const XRPL_ALPHABET = "rpshnaf39wBUDNEGHJKLM4PQRST7VWXYZ2bcdeCg65jkm8oFqi1tuvAxyz";
+
+const ACCOUNT_ID_PREFIX = [0x00];
+const ED25519_SEED_PREFIX = [0x01, 0xe1, 0x4b];
+const SECP256K1_SEED_PREFIX = [0x21];
+
+// hash prefixes for signing and transaction id ("STX\0" and "TXN\0")
+const HASH_PREFIX_TX_SIGN = Buffer.from("53545800", "hex");
+const HASH_PREFIX_TX_ID = Buffer.from("54584e00", "hex");
+
+// DER wrapping of raw 32-byte ed25519 private keys
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+
+export class XrpSigningError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+function sha256(data: Buffer) {
+    return createHash("sha256").update(data).digest();
+}
+
+export function sha512Half(data: Buffer) {
+    return createHash("sha512").update(data).digest().subarray(0, 32);
+}
+
+export function base58Encode(data: Buffer) {
+    let value = new BN(data);
+    let result = "";
+    while (!value.isZero()) {
+        result = XRPL_ALPHABET[value.modn(58)] + result;
+        value = value.divn(58);
+    }
+    for (let i = 0; i < data.length && data[i] === 0; i++) {
+        result = XRPL_ALPHABET[0] + result;
+    }
+    return result;
+}
+
+export function base58Decode(text: string) {
+    let value = new BN(0);
+    for (const char of text) {
+        const digit = XRPL_ALPHABET.indexOf(char);
+        if (digit < 0) throw new XrpSigningError(`Invalid base58 character '${char}'`);
+        value = value.muln(58).addn(digit);
+    }
+    let leadingZeros = 0;
+    while (leadingZeros < text.length && text[leadingZeros] === XRPL_ALPHABET[0]) leadingZeros++;
+    const body = value.isZero() ? Buffer.alloc(0) : value.toArrayLike(Buffer, "be");
+    return Buffer.concat([Buffer.alloc(leadingZeros), body]);
+}
+
+function encodeChecked(prefix: number[], payload: Buffer) {
+    const data = Buffer.concat([Buffer.from(prefix), payload]);
+    const checksum = sha256(sha256(data)).subarray(0, 4);
+    return base58Encode(Buffer.concat([data, checksum]));
+}
+
+function decodeChecked(text: string, prefix: number[], payloadLength: number, what: string) {
+    const data = base58Decode(text);
+    const checksum = sha256(sha256(data.subarray(0, -4))).subarray(0, 4);
+    if (data.length !== prefix.length + payloadLength + 4 || !checksum.equals(data.subarray(-4)) || prefix.some((b, i) => data[i] !== b)) {
+        throw new XrpSigningError(`Invalid ${what} '${text}'`);
+    }
+    return data.subarray(prefix.length, -4);
+}
+
+export function decodeAccountId(address: string) {
+    return decodeChecked(address, ACCOUNT_ID_PREFIX, 20, "XRP address");
+}
+
+export function encodeAccountId(accountId: Buffer) {
+    return encodeChecked(ACCOUNT_ID_PREFIX, accountId);
+}
+
+export function isValidXrpAddress(address: string) {
+    try {
+        decodeAccountId(address);
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * Ed25519 key pair, derived from a family seed ("sEd...") the same way as in rippled and xrpl.js.
+ * Secp256k1 seeds are not supported (they need a secp256k1 implementation, which node crypto can't use for XRPL signatures).
+ */
+export class XrpKeyPair {
+    constructor(
+        privateKey: Buffer,
+    ) {
+        this.privateKey = createPrivateKey({ key: Buffer.concat([ED25519_PKCS8_PREFIX, privateKey]), format: "der", type: "pkcs8" });
+        const publicKeyDer = createPublicKey(this.privateKey).export({ format: "der", type: "spki" });
+        this.publicKey = publicKeyDer.subarray(-32);
+        this.address = encodeAccountId(createHash("ripemd160").update(sha256(Buffer.concat([Buffer.from([0xed]), this.publicKey]))).digest());
+    }
+
+    private privateKey: KeyObject;
+
+    // raw 32-byte public key
+    readonly publicKey: Buffer;
+
+    // classic address ("r...")
+    readonly address: string;
+
+    // public key in XRPL format (ED prefix, uppercase hex)
+    get signingPubKey() {
+        return "ED" + this.publicKey.toString("hex").toUpperCase();
+    }
+
+    sign(message: Buffer) {
+        return sign(null, message, this.privateKey);
+    }
+
+    verify(message: Buffer, signature: Buffer) {
+        return verify(null, message, createPublicKey(this.privateKey), signature);
+    }
+
+    static fromSeed(seed: string) {
+        const data = base58Decode(seed);
+        if (data.length === SECP256K1_SEED_PREFIX.length + 16 + 4 && data[0] === SECP256K1_SEED_PREFIX[0]) {
+            throw new XrpSigningError(`secp256k1 seeds are not supported, use an ed25519 seed ("sEd...")`);
+        }
+        const entropy = decodeChecked(seed, ED25519_SEED_PREFIX, 16, "XRP seed");
+        return new XrpKeyPair(createHash("sha512").update(entropy).digest().subarray(0, 32));
+    }
+
+    static encodeSeed(entropy: Buffer) {
+        return encodeChecked(ED25519_SEED_PREFIX, entropy);
+    }
+}
+
+export interface XrpPaymentFields {
+    Account: string;
+    Destination: string;
+    // XRP amounts in drops
+    Amount: string;
+    Fee: string;
+    Sequence: number;
+    LastLedgerSequence?: number;
+    DestinationTag?: number;
+    Flags?: number;
+    // hex encoded memo data
+    Memos?: Array<{ Memo: { MemoData: string } }>;
+}
+
+export interface XrpSignedPayment {
+    tx: XrpPaymentFields & { TransactionType: "Payment", SigningPubKey: string, TxnSignature: string };
+    // hex encoded signed transaction (for `submit`)
+    txBlob: string;
+    // transaction id (uppercase hex, as used by the ledger)
+    hash: string;
+}
+
+/**
+ * Sign an XRP payment locally.
+ */
+export function signPayment(keyPair: XrpKeyPair, payment: XrpPaymentFields): XrpSignedPayment {
+    if (payment.Account !== keyPair.address) {
+        throw new XrpSigningError(`Key for ${keyPair.address} cannot sign payment from ${payment.Account}`);
+    }
+    const unsigned = serializePayment(payment, keyPair.signingPubKey, null);
+    const signature = keyPair.sign(Buffer.concat([HASH_PREFIX_TX_SIGN, unsigned]));
+    const signed = serializePayment(payment, keyPair.signingPubKey, signature);
+    return {
+        tx: { ...payment, TransactionType: "Payment", SigningPubKey: keyPair.signingPubKey, TxnSignature: signature.toString("hex").toUpperCase() },
+        txBlob: signed.toString("hex").toUpperCase(),
+        hash: transactionId(signed).toString("hex").toUpperCase(),
+    };
+}
+
+export function transactionId(signedTx: Buffer) {
+    return sha512Half(Buffer.concat([HASH_PREFIX_TX_ID, signedTx]));
+}
+
+// Binary format of the fields used in payments (fields must be written ordered by type code, then field code).
+// See https://xrpl.org/serialization.html
+const TYPE_UINT16 = 1;
+const TYPE_UINT32 = 2;
+const TYPE_AMOUNT = 6;
+const TYPE_BLOB = 7;
+const TYPE_ACCOUNT = 8;
+const TYPE_OBJECT = 14;
+const TYPE_ARRAY = 15;
+
+const OBJECT_END_MARKER = Buffer.from([0xe1]);
+const ARRAY_END_MARKER = Buffer.from([0xf1]);
+
+const TRANSACTION_TYPE_PAYMENT = 0;
+
+function fieldId(typeCode: number, fieldCode: number) {
+    if (typeCode < 16 && fieldCode < 16) return Buffer.from([(typeCode << 4) | fieldCode]);
+    if (typeCode < 16) return Buffer.from([typeCode << 4, fieldCode]);
+    if (fieldCode < 16) return Buffer.from([fieldCode, typeCode]);
+    return Buffer.from([0, typeCode, fieldCode]);
+}
+
+function uint16(value: number) {
+    const buf = Buffer.alloc(2);
+    buf.writeUInt16BE(value);
+    return buf;
+}
+
+function uint32(value: number) {
+    const buf = Buffer.alloc(4);
+    buf.writeUInt32BE(value);
+    return buf;
+}
+
+function xrpAmount(drops: string) {
+    const value = new BN(drops, 10);
+    if (value.isNeg() || value.bitLength() > 62) throw new XrpSigningError(`Invalid XRP amount ${drops}`);
+    // bit 63 = 0 (XRP), bit 62 = 1 (positive)
+    return value.bincn(62).toArrayLike(Buffer, "be", 8);
+}
+
+function variableLength(data: Buffer) {
+    const length = data.length;
+    if (length <= 192) return Buffer.concat([Buffer.from([length]), data]);
+    if (length <= 12480) {
+        const rest = length - 193;
+        return Buffer.concat([Buffer.from([193 + (rest >>> 8), rest & 0xff]), data]);
+    }
+    throw new XrpSigningError(`Field too long (${length} bytes)`);
+}
+
+function serializePayment(payment: XrpPaymentFields, signingPubKey: string, signature: Buffer | null) {
+    const parts: Buffer[] = [];
+    const field = (typeCode: number, fieldCode: number, value: Buffer) => parts.push(fieldId(typeCode, fieldCode), value);
+    field(TYPE_UINT16, 2, uint16(TRANSACTION_TYPE_PAYMENT));                      // TransactionType
+    field(TYPE_UINT32, 2, uint32(payment.Flags ?? 0));                              // Flags
+    field(TYPE_UINT32, 4, uint32(payment.Sequence));                                // Sequence
+    if (payment.DestinationTag != null) {
+        field(TYPE_UINT32, 14, uint32(payment.DestinationTag));                     // DestinationTag
+    }
+    if (payment.LastLedgerSequence != null) {
+        field(TYPE_UINT32, 27, uint32(payment.LastLedgerSequence));                 // LastLedgerSequence
+    }
+    field(TYPE_AMOUNT, 1, xrpAmount(payment.Amount));                               // Amount
+    field(TYPE_AMOUNT, 8, xrpAmount(payment.Fee));                                  // Fee
+    field(TYPE_BLOB, 3, variableLength(Buffer.from(signingPubKey, "hex")));         // SigningPubKey
+    if (signature != null) {
+        field(TYPE_BLOB, 4, variableLength(signature));                             // TxnSignature
+    }
+    field(TYPE_ACCOUNT, 1, variableLength(decodeAccountId(payment.Account)));       // Account
+    field(TYPE_ACCOUNT, 3, variableLength(decodeAccountId(payment.Destination)));   // Destination
+    if (payment.Memos != null && payment.Memos.length > 0) {
+        parts.push(fieldId(TYPE_ARRAY, 9));                                         // Memos
+        for (const { Memo } of payment.Memos) {
+            parts.push(fieldId(TYPE_OBJECT, 10));                                   // Memo
+            field(TYPE_BLOB, 13, variableLength(Buffer.from(Memo.MemoData, "hex")));   // MemoData
+            parts.push(OBJECT_END_MARKER);
+        }
+        parts.push(ARRAY_END_MARKER);
+    }
+    return Buffer.concat(parts);
+}
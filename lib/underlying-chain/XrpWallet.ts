@@ -0,0 +1,91 @@
+import { BNish, minBN, toBN } from "../utils/helpers";
+import { JsonRpcError } from "./JsonRpcClient";
+import { XrpBlockChain, normalizeXrpHash } from "./XrpBlockChain";
+import { XrpKeyPair, XrpPaymentFields, signPayment } from "./XrpSigning";
+import { IBlockChainWallet, TransactionOptions, TransactionOptionsWithFee } from "./interfaces/IBlockChainWallet";
+
+// submit results for which the transaction was accepted (tec transactions are included in a ledger as failed and charge the fee)
+const ACCEPTED_RESULT_PREFIXES = ["tes", "ter", "tec"];
+
+/**
+ * Wallet that signs XRP payments locally (with ed25519 keys added by `addKey`) and submits them through the chain's rpc.
+ * Only ed25519 family seeds ("sEd...") are supported; secp256k1 seeds (e.g. from rippled's default `wallet_propose`)
+ * are rejected by `addKey`, so such accounts need a new ed25519 key (or a regular key set to one).
+ */
+export class XrpWallet implements IBlockChainWallet {
+    constructor(
+        public chain: XrpBlockChain,
+    ) { }
+
+    // the payment expires if not validated in this many ledgers
+    lastLedgerOffset = 20;
+
+    private keys = new Map<string, XrpKeyPair>();
+    private nextSequence = new Map<string, number>();
+    private accountLocks = new Map<string, Promise<unknown>>();
+
+    // Add signing key for the ed25519 seed's address; returns the address.
+    addKey(seed: string) {
+        const keyPair = XrpKeyPair.fromSeed(seed);
+        this.keys.set(keyPair.address, keyPair);
+        return keyPair.address;
+    }
+
+    async addTransaction(sourceAddress: string, targetAddress: string, amount: BNish, reference: string | null, options?: TransactionOptionsWithFee): Promise<string> {
+        const keyPair = this.keys.get(sourceAddress);
+        if (keyPair == null) {
+            throw new Error(`No key for XRP address ${sourceAddress}`);
+        }
+        // serialize payments per account, so that each gets its own sequence number
+        const previous = this.accountLocks.get(sourceAddress) ?? Promise.resolve();
+        const submission = previous.catch(() => {}).then(() => this.signAndSubmit(keyPair, targetAddress, amount, reference, options));
+        this.accountLocks.set(sourceAddress, submission);
+        return await submission;
+    }
+
+    // XRP payments have a single source and target; the difference between spent and received amount is the max fee.
+    async addMultiTransaction(spend: { [address: string]: BNish; }, receive: { [address: string]: BNish; }, reference: string | null, options?: TransactionOptions): Promise<string> {
+        const spendEntries = Object.entries(spend);
+        const receiveEntries = Object.entries(receive);
+        if (spendEntries.length !== 1 || receiveEntries.length !== 1) {
+            throw new Error("XRP payments must have exactly one source and one target");
+        }
+        const [[sourceAddress, spent], [targetAddress, received]] = [spendEntries[0], receiveEntries[0]];
+        const maxFee = toBN(spent).sub(toBN(received));
+        return await this.addTransaction(sourceAddress, targetAddress, received, reference, { ...options, maxFee });
+    }
+
+    private async signAndSubmit(keyPair: XrpKeyPair, targetAddress: string, amount: BNish, reference: string | null, options?: TransactionOptionsWithFee) {
+        const accountInfo = await this.chain.rpc("account_info", { account: keyPair.address, ledger_index: "current" });
+        // account_info doesn't include payments that were queued, but not yet applied to the open ledger
+        const sequence = Math.max(Number(accountInfo.account_data.Sequence), this.nextSequence.get(keyPair.address) ?? 0);
+        const currentLedger = await this.chain.rpc("ledger_current", {});
+        const estimatedFee = await this.estimateFee();
+        const fee = options?.maxFee != null ? minBN(estimatedFee, toBN(options.maxFee)) : estimatedFee;
+        const payment: XrpPaymentFields = {
+            Account: keyPair.address,
+            Destination: targetAddress,
+            Amount: String(toBN(amount)),
+            Fee: String(fee),
+            Sequence: sequence,
+            LastLedgerSequence: Number(currentLedger.ledger_current_index) + this.lastLedgerOffset,
+        };
+        if (reference != null) {
+            payment.Memos = [{ Memo: { MemoData: reference.replace(/^0x/i, "").toUpperCase() } }];
+        }
+        const signed = signPayment(keyPair, payment);
+        const result = await this.chain.rpc("submit", { tx_blob: signed.txBlob });
+        const engineResult: string = result.engine_result;
+        if (!ACCEPTED_RESULT_PREFIXES.some(prefix => engineResult.startsWith(prefix))) {
+            throw new JsonRpcError(`XRP payment rejected: ${engineResult} ${result.engine_result_message ?? ""}`.trim(), engineResult);
+        }
+        this.nextSequence.set(keyPair.address, sequence + 1);
+        return normalizeXrpHash(signed.hash);
+    }
+
+    // open ledger fee (in drops), which gets the transaction into the current ledger under load
+    async estimateFee() {
+        const result = await this.chain.rpc("fee", {});
+        return toBN(result.drops.open_ledger_fee);
+    }
+}
@@ -46,6 +46,9 @@ export interface IBlock {
     
     // List of transaction hashes, included in this block.
     transactions: string[];
+
+    // Hash of the previous block (optional, used for detecting chain reorganizations).
+    parentHash?: string;
 }
 
 export interface IBlockChain {
@@ -18,6 +18,13 @@ export interface IBlockChainEvents {
     // Returns subscriptionId (string), used for unsubscribing.
     addTransactionHandler(filter: { [name: string]: string; } | null, handler: TransactionHandler): string;
 
+    // Add handler that is triggered when a previously reported transaction is removed from the chain by a reorganization
+    // (if the transaction is included in the new chain, it is reported again to transaction handlers).
+    // Filter is the same as in `addTransactionHandler`.
+    // Optional - implementations that only report final transactions don't need it.
+    // Returns subscriptionId (string), used for unsubscribing.
+    addTransactionRemovedHandler?(filter: { [name: string]: string; } | null, handler: TransactionHandler): string;
+
     // Remove handler with given subscriptionId.
     removeHandler(subscriptionId: string): void;
 }
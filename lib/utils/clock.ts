@@ -0,0 +1,53 @@
+import Web3 from "web3";
+import { IBlockChain } from "../underlying-chain/interfaces/IBlockChain";
+import { systemTimestamp, toBN } from "./helpers";
+
+/**
+ * Source of current time for actors and tracked state.
+ * All timestamps are in seconds since 1.1.1970.
+ */
+export interface IClock {
+    // Timestamp of the latest EVM block (the time contracts see).
+    evmTimestamp(): Promise<BN>;
+
+    // Timestamp of the EVM block `blockNumber` (e.g. the block of an event).
+    blockTimestamp(blockNumber: number): Promise<BN>;
+
+    // Timestamp of the latest underlying chain block.
+    underlyingTimestamp(): Promise<BN>;
+
+    // Local system time.
+    systemTimestamp(): BN;
+}
+
+/**
+ * Clock that reads time from the EVM node and the underlying chain.
+ * Uses explicitly provided web3 instance, so it also works outside of the hardhat/truffle environment.
+ */
+export class ChainClock implements IClock {
+    constructor(
+        public web3: Web3,
+        public chain: IBlockChain,
+    ) { }
+
+    async evmTimestamp() {
+        const latestBlock = await this.web3.eth.getBlock('latest');
+        return toBN(latestBlock.timestamp);
+    }
+
+    async blockTimestamp(blockNumber: number) {
+        const block = await this.web3.eth.getBlock(blockNumber);
+        return toBN(block.timestamp);
+    }
+
+    async underlyingTimestamp() {
+        const height = await this.chain.getBlockHeight();
+        const block = await this.chain.getBlockAt(height);
+        if (block == null) throw new Error(`Underlying block ${height} not found`);
+        return toBN(block.timestamp);
+    }
+
+    systemTimestamp() {
+        return toBN(systemTimestamp());
+    }
+}
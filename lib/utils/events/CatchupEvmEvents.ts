@@ -0,0 +1,204 @@
+import Web3 from "web3";
+import { multimapAdd, multimapDelete } from "../helpers";
+import { ILogger } from "../logging";
+import { EvmEvent } from "./common";
+import { EvmEventArgsForName, IEvmEvents } from "./IEvmEvents";
+import { ClearableSubscription, EventEmitter, EventExecutionQueue } from "./ScopedEvents";
+import { ContractWithEventsBase, EventArgsForName, EventNamesFor } from "./truffle";
+
+interface FilteredHandler {
+    filter: Record<string, unknown> | undefined;
+    handler: (eventArgs: any) => void;
+}
+
+// getPastEvents is provided by truffle contract instances, but is missing in typechain's ContractInstance typings
+interface ContractWithPastEvents {
+    getPastEvents(event: string, options: { fromBlock: number, toBlock: number }): Promise<EvmEvent[]>;
+}
+
+function hasPastEvents(contract: ContractWithEventsBase): contract is ContractWithEventsBase & ContractWithPastEvents {
+    return typeof (contract as Partial<ContractWithPastEvents>).getPastEvents === 'function';
+}
+
+/**
+ * EVM event source that first replays historical logs of all contracts with registered handlers
+ * (starting from `fromBlock`, in chunks of `chunkSize` blocks) and then continues with live subscriptions.
+ * Live events that arrive during catch-up are buffered and dispatched afterwards, skipping those already replayed,
+ * so there are no gaps or duplicates on the switch.
+ * During catch-up, queued handlers are run after each replayed event. Contracts that get handlers during catch-up
+ * (e.g. pools of agents created in replayed events) are replayed from the current event on; handlers that register
+ * contracts asynchronously must pass the registration to `waitFor`.
+ */
+export class CatchupEvmEvents implements IEvmEvents {
+    constructor(
+        public web3: Web3,
+        private eventQueue: EventExecutionQueue | null,
+        public fromBlock: number,
+    ) { }
+
+    chunkSize = 1000;
+    logger?: ILogger;
+
+    // map 'address:eventName' => filtered handlers
+    private handlers = new Map<string, Set<FilteredHandler>>();
+    // contracts with at least one handler and their live subscriptions
+    private contracts = new Map<string, ContractWithEventsBase>();
+    private liveSubscriptions = new Map<string, ClearableSubscription>();
+
+    // until catch-up is finished, live events are only buffered
+    private catchingUp = true;
+    private buffer: EvmEvent[] = [];
+    private lastCaughtUpBlock = -1;
+    private addedContracts: ContractWithEventsBase[] = [];
+    private pendingRegistrations = new Set<Promise<unknown>>();
+
+    get live() {
+        return !this.catchingUp;
+    }
+
+    event<C extends ContractWithEventsBase, N extends EventNamesFor<C>>(contract: C, event: N, filter?: Partial<EventArgsForName<C, N>>): EventEmitter<EvmEventArgsForName<C, N>> {
+        return new EventEmitter<EvmEventArgsForName<C, N>>(this.eventQueue, handler => {
+            const key = `${contract.address}:${event}`;
+            const filteredHandler: FilteredHandler = { filter, handler };
+            multimapAdd(this.handlers, key, filteredHandler);
+            this.addContract(contract);
+            return ClearableSubscription.of(() => multimapDelete(this.handlers, key, filteredHandler));
+        });
+    }
+
+    /**
+     * Replay historical events from `fromBlock` up to the current block and then switch to live events.
+     */
+    async catchUp() {
+        let nextBlock = this.fromBlock;
+        let lastBlock = await this.web3.eth.getBlockNumber();
+        while (nextBlock <= lastBlock) {
+            const toBlock = Math.min(nextBlock + this.chunkSize - 1, lastBlock);
+            const count = await this.replayChunk(nextBlock, toBlock);
+            this.lastCaughtUpBlock = toBlock;
+            this.logger?.log(`CATCHUP processed ${count} events in blocks ${nextBlock}-${toBlock}`);
+            nextBlock = toBlock + 1;
+            // the chain advances while we are reading
+            lastBlock = await this.web3.eth.getBlockNumber();
+        }
+        // dispatch the buffered live events that weren't replayed already and switch to live mode
+        const buffered = this.buffer;
+        this.buffer = [];
+        this.catchingUp = false;
+        for (const event of sortEvents(buffered)) {
+            if (event.blockNumber > this.lastCaughtUpBlock) {
+                this.dispatch(event);
+            }
+        }
+    }
+
+    /**
+     * During catch-up, the replay waits for `registration` (e.g. an async handler subscription) before the next event,
+     * so that the events of the contracts it registers aren't missed.
+     */
+    waitFor(registration: Promise<unknown>) {
+        if (!this.catchingUp) return;
+        this.pendingRegistrations.add(registration);
+        void registration.finally(() => this.pendingRegistrations.delete(registration)).catch(() => {});
+    }
+
+    private async replayChunk(fromBlock: number, toBlock: number) {
+        await this.waitForRegistrations();
+        this.addedContracts = [];
+        const events = await this.readPastEvents(Array.from(this.contracts.values()), fromBlock, toBlock);
+        let count = 0;
+        let lastEvent: EvmEvent | undefined;
+        for (;;) {
+            await this.waitForRegistrations();
+            if (this.addedContracts.length > 0) {
+                // contracts added by handlers (or while reading) are replayed from the last dispatched event on
+                const added = this.addedContracts;
+                this.addedContracts = [];
+                const addedEvents = await this.readPastEvents(added, lastEvent?.blockNumber ?? fromBlock, toBlock);
+                events.push(...addedEvents.filter(event => lastEvent == null || compareEvents(event, lastEvent) > 0));
+                sortEvents(events);
+                continue;   // more contracts could have been added while reading
+            }
+            const event = events.shift();
+            if (event == null) break;
+            this.dispatch(event);
+            this.eventQueue?.runAll();
+            lastEvent = event;
+            ++count;
+        }
+        return count;
+    }
+
+    private async waitForRegistrations() {
+        while (this.pendingRegistrations.size > 0) {
+            await Promise.all(Array.from(this.pendingRegistrations));
+        }
+    }
+
+    private async readPastEvents(contracts: ContractWithEventsBase[], fromBlock: number, toBlock: number) {
+        const events: EvmEvent[] = [];
+        for (const contract of contracts) {
+            if (!hasPastEvents(contract)) {
+                throw new Error(`Cannot read past events of contract ${contract.address}`);
+            }
+            events.push(...await contract.getPastEvents('allEvents', { fromBlock, toBlock }));
+        }
+        return sortEvents(events);
+    }
+
+    private addContract(contract: ContractWithEventsBase) {
+        if (this.contracts.has(contract.address)) return;
+        this.contracts.set(contract.address, contract);
+        if (this.catchingUp) {
+            this.addedContracts.push(contract);
+        }
+        const emitter = contract.allEvents();
+        const listener = (event: EvmEvent) => this.handleLiveEvent(event);
+        emitter.on('data', listener);
+        this.liveSubscriptions.set(contract.address, ClearableSubscription.of(() => emitter.removeListener('data', listener)));
+    }
+
+    private handleLiveEvent(event: EvmEvent) {
+        if (this.catchingUp) {
+            this.buffer.push(event);
+        } else if (event.blockNumber > this.lastCaughtUpBlock) {
+            // live events of replayed blocks may still arrive after the switch
+            this.dispatch(event);
+        }
+    }
+
+    private dispatch(event: EvmEvent) {
+        const key = `${event.address}:${event.event}`;
+        const handlers = this.handlers.get(key);
+        if (handlers == null) return;
+        const args = { ...event.args, $event: event };
+        for (const handler of Array.from(handlers)) {
+            if (handler.filter == null || this.filterMatches(handler.filter, event.args)) {
+                handler.handler(args);
+            }
+        }
+    }
+
+    private filterMatches(filter: Record<string, unknown>, args: any) {
+        return Object.entries(filter).every(([key, value]) => String(value) === String(args[key]));
+    }
+
+    /**
+     * Stop all live subscriptions.
+     */
+    close() {
+        for (const subscription of this.liveSubscriptions.values()) {
+            subscription.unsubscribe();
+        }
+        this.liveSubscriptions.clear();
+        this.contracts.clear();
+    }
+}
+
+function compareEvents(a: EvmEvent, b: EvmEvent) {
+    return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+function sortEvents(events: EvmEvent[]) {
+    return events.sort(compareEvents);
+}
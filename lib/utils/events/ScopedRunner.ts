@@ -9,6 +9,9 @@ export class ScopedRunner {
 
     uncaughtErrors: any[] = [];
 
+    // stopped runner doesn't start new threads
+    stopped = false;
+
     newScope(parentScope?: EventScope) {
         const scope = new EventScope(parentScope);
         this.scopes.add(scope);
@@ -21,6 +24,7 @@ export class ScopedRunner {
     }
 
     startThread(method: (scope: EventScope) => Promise<void>): void {
+        if (this.stopped) return;
         const scope = this.newScope();
         ++this.runningThreads;
         void method(scope)
@@ -37,6 +41,16 @@ export class ScopedRunner {
             });
     }
 
+    /**
+     * Stop starting new threads and finish the scopes of the running ones (their event waits never resolve).
+     */
+    stop() {
+        this.stopped = true;
+        for (const scope of Array.from(this.scopes)) {
+            this.finishScope(scope);
+        }
+    }
+
     async startScope(method: (scope: EventScope) => Promise<void>): Promise<void> {
         return this.startScopeIn(undefined, method);
     }
@@ -0,0 +1,21 @@
+import { TransactionReceipt } from "web3-core";
+import { BN_ZERO, toBN } from "../helpers";
+
+// keccak256("Transfer(address,address,uint256)")
+const ERC20_TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+/**
+ * Total amount of `tokenAddress` transferred to `recipient` in the transaction, read from the receipt's raw logs.
+ * Unlike balance difference, it is not affected by other transactions in the same or in-between blocks.
+ */
+export function tokenTransferredTo(receipt: TransactionReceipt, tokenAddress: string, recipient: string) {
+    let amount = BN_ZERO;
+    for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== tokenAddress.toLowerCase()) continue;
+        if (log.topics.length !== 3 || log.topics[0] !== ERC20_TRANSFER_TOPIC) continue;
+        // indexed address topics are left-padded to 32 bytes
+        if ("0x" + log.topics[2].slice(-40).toLowerCase() !== recipient.toLowerCase()) continue;
+        amount = amount.add(toBN(log.data));
+    }
+    return amount;
+}
@@ -0,0 +1,44 @@
+/**
+ * Map with limited size that evicts the least recently used entries.
+ * Relies on Map keeping insertion order - every access re-inserts the key, so the first key is always the least recently used.
+ */
+export class LruCache<K, V> {
+    constructor(
+        public maxSize: number,
+    ) { }
+
+    private entries = new Map<K, V>();
+
+    get size() {
+        return this.entries.size;
+    }
+
+    has(key: K) {
+        return this.entries.has(key);
+    }
+
+    get(key: K): V | undefined {
+        if (!this.entries.has(key)) return undefined;
+        const value = this.entries.get(key)!;
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        return value;
+    }
+
+    set(key: K, value: V) {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        while (this.entries.size > this.maxSize) {
+            const oldest = this.entries.keys().next().value as K;
+            this.entries.delete(oldest);
+        }
+    }
+
+    delete(key: K) {
+        return this.entries.delete(key);
+    }
+
+    clear() {
+        this.entries.clear();
+    }
+}
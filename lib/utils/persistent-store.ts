@@ -0,0 +1,59 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { parseJson, stringifyJson } from "./json-bn";
+
+/**
+ * Storage for actor state that has to survive process restarts.
+ */
+export interface IPersistentStore<T> {
+    // Return the last saved data or `undefined` if nothing was saved yet.
+    load(): T | undefined;
+
+    // Replace the stored data.
+    save(data: T): void;
+}
+
+/**
+ * Store that keeps serialized data in memory. Useful for tests, since it goes through the same serialization as file store.
+ */
+export class MemoryStore<T> implements IPersistentStore<T> {
+    constructor(
+        public bnKeys: string[] = [],
+    ) { }
+
+    serialized?: string;
+
+    load(): T | undefined {
+        return this.serialized != null ? parseJson(this.serialized, this.bnKeys) : undefined;
+    }
+
+    save(data: T): void {
+        this.serialized = stringifyJson(data);
+    }
+}
+
+/**
+ * Store that keeps data in a JSON file, with BN values serialized as decimal strings.
+ * The file is replaced atomically (write to temporary file, then rename), so a crash during save never leaves a broken file.
+ */
+export class JsonFileStore<T> implements IPersistentStore<T> {
+    constructor(
+        public path: string,
+        public bnKeys: string[] = [],
+    ) { }
+
+    load(): T | undefined {
+        if (!existsSync(this.path)) return undefined;
+        return parseJson(readFileSync(this.path).toString(), this.bnKeys);
+    }
+
+    save(data: T): void {
+        const dir = dirname(this.path);
+        if (!existsSync(dir)) {
+            mkdirSync(dir, { recursive: true });
+        }
+        const tmpPath = this.path + '.tmp';
+        writeFileSync(tmpPath, stringifyJson(data, 2));
+        renameSync(tmpPath, this.path);
+    }
+}
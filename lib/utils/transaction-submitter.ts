@@ -0,0 +1,270 @@
+import Web3 from "web3";
+import { TransactionReceipt } from "web3-core";
+import { AbiItem } from "web3-utils";
+import { BNish, errorIncluded, sleep, toBN } from "./helpers";
+import { ILogger } from "./logging";
+
+export type SubmissionErrorKind = 'reverted' | 'timeout' | 'rpc';
+
+/**
+ * Error thrown by TransactionSubmitter. The message of the original error is kept,
+ * so revert reasons can still be matched by `scope.exitOnExpectedError` / `expectErrors`.
+ */
+export class TransactionSubmissionError extends Error {
+    constructor(
+        message: string,
+        public kind: SubmissionErrorKind,
+        public cause?: unknown,
+    ) {
+        super(message);
+    }
+}
+
+export interface SubmitOptions {
+    from: string;
+    value?: BNish;
+}
+
+// names of the contract's state changing methods (the ones that return a transaction response)
+export type ContractMethodName<C> = { [K in keyof C]: C[K] extends (...args: any[]) => Promise<Truffle.TransactionResponse<any>> ? K : never }[keyof C] & string;
+
+// method arguments, without the trailing transaction details
+export type ContractMethodArgs<C, M extends keyof C> = C[M] extends (...args: infer A) => any ? DropTransactionDetails<A> : never;
+
+type DropTransactionDetails<A extends unknown[]> = A extends [...infer H, (Truffle.TransactionDetails | undefined)?] ? H : A;
+
+type ContractMethod<C, M extends keyof C> = (...args: [...ContractMethodArgs<C, M>, Truffle.TransactionDetails]) => Promise<Truffle.TransactionResponse<any>>;
+
+/**
+ * Call a state changing method of a truffle contract instance with typed arguments.
+ * Returns the receipt with raw (undecoded) logs, same as the receipts of `TransactionSubmitter.submit`.
+ */
+export async function callContractMethod<C extends Truffle.ContractInstance, M extends ContractMethodName<C>>(contract: C, method: M, args: ContractMethodArgs<C, M>, options: SubmitOptions): Promise<TransactionReceipt> {
+    const contractMethod = contract[method] as unknown as ContractMethod<C, M>;
+    const details: Truffle.TransactionDetails = { from: options.from, value: options.value != null ? toBN(options.value) : undefined };
+    const response = await contractMethod.call(contract, ...args, details);
+    return { ...response.receipt, logs: response.receipt.rawLogs };
+}
+
+type UnsignedTransaction = { from: string, to: string, data: string, value?: string };
+type SignedTransaction = UnsignedTransaction & { gas: number, gasPrice: string, nonce: number };
+
+const REVERT_ERRORS = ["revert", "VM Exception", "execution reverted"];
+// geth / hardhat spellings of "the node already has a transaction with this nonce"
+const NONCE_ERRORS = ["nonce too low", "Nonce too low", "already known", "known transaction", "Known transaction", "replacement transaction underpriced"];
+const TRANSIENT_ERRORS = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "socket hang up", "Invalid JSON RPC response", "CONNECTION ERROR", "rate limit", "429"];
+
+interface PendingTransaction {
+    from: string;
+    nonce: number;
+    data: string;
+    // hashes of all broadcast versions (with increasing gas price)
+    hashes: string[];
+    // set when a broadcast reached the node, but its hash is unknown
+    unknownHash: boolean;
+    // block number before the first broadcast
+    startBlock: number;
+}
+
+/**
+ * Shared transaction sending service for actors.
+ * Allocates nonces per sender (so concurrent threads don't collide; the nonce of a transaction that couldn't be sent
+ * is given to the next one, so no gap blocks later transactions), retries transient RPC errors and
+ * replaces transactions that aren't mined in `stuckTimeoutMS` with the same nonce and a higher gas price.
+ * Nonce errors on a retried or replacement broadcast mean that an earlier broadcast reached the node, so the transaction
+ * is treated as pending; if its hash is not known (the response to the first broadcast was lost), it is found by nonce.
+ */
+export class TransactionSubmitter {
+    constructor(
+        public web3: Web3,
+    ) { }
+
+    logger?: ILogger;
+
+    rpcRetries = 3;
+    rpcRetryDelayMS = 1000;
+    stuckTimeoutMS = 30_000;
+    receiptPollMS = 1000;
+    maxResubmits = 5;
+    gasPriceBumpBIPS = 1250;    // most nodes require at least 10% higher gas price for replacement
+    maxGasPrice?: BN;
+    gasLimitFactor = 1.2;
+
+    private nextNonce = new Map<string, number>();
+    // nonces allocated to transactions whose first broadcast failed; sorted, reused before `nextNonce`
+    private releasedNonces = new Map<string, number[]>();
+    private nonceLocks = new Map<string, Promise<unknown>>();
+
+    /**
+     * Call `method` on a truffle contract instance and wait for the receipt.
+     */
+    async submit<C extends Truffle.ContractInstance, M extends ContractMethodName<C>>(contract: C, method: M, args: ContractMethodArgs<C, M>, options: SubmitOptions): Promise<TransactionReceipt> {
+        const abiItem = (contract.abi as AbiItem[]).find(item => item.type === 'function' && item.name === method && (item.inputs ?? []).length === args.length);
+        if (abiItem == null) throw new Error(`Unknown method ${method}/${args.length}`);
+        const data = this.web3.eth.abi.encodeFunctionCall(abiItem, args as any[]);
+        return await this.submitData(contract.address, data, options);
+    }
+
+    async submitData(to: string, data: string, options: SubmitOptions): Promise<TransactionReceipt> {
+        const value = options.value != null ? toBN(options.value).toString() : undefined;
+        const tx: UnsignedTransaction = { from: options.from, to, data, value };
+        // gas estimation executes the call, so reverts are detected before a nonce is used
+        const gasEstimate = await this.withRpcRetries(() => this.web3.eth.estimateGas(tx));
+        const gas = Math.ceil(gasEstimate * this.gasLimitFactor);
+        let gasPrice = toBN(await this.withRpcRetries(() => this.web3.eth.getGasPrice()));
+        const nonce = await this.allocateNonce(options.from);
+        const startBlock = await this.withRpcRetries(() => this.web3.eth.getBlockNumber());
+        const pending: PendingTransaction = { from: options.from, nonce, data, hashes: [], unknownHash: false, startBlock };
+        for (let attempt = 0; attempt <= this.maxResubmits; attempt++) {
+            try {
+                const txHash = await this.broadcast({ ...tx, gas, gasPrice: gasPrice.toString(), nonce });
+                if (txHash != null) {
+                    pending.hashes.push(txHash);
+                } else {
+                    pending.unknownHash = true;
+                }
+            } catch (e) {
+                if (attempt === 0) {
+                    this.releaseNonce(options.from, nonce);
+                    throw e;
+                }
+                // nonce errors on replacement mean that one of the previous transactions is still pending or was already mined
+                if (!errorIncluded(e, NONCE_ERRORS)) throw e;
+            }
+            const receipt = await this.waitForReceipt(pending, this.stuckTimeoutMS);
+            if (receipt != null) return await this.checkReceipt(receipt, tx);
+            const newGasPrice = gasPrice.muln(10_000 + this.gasPriceBumpBIPS).divn(10_000);
+            if (this.maxGasPrice != null && newGasPrice.gt(this.maxGasPrice)) break;
+            this.logger?.log(`TX SUBMITTER transaction ${pending.hashes[pending.hashes.length - 1] ?? ''} (nonce ${nonce}) stuck, resubmitting with gas price ${newGasPrice}`);
+            gasPrice = newGasPrice;
+        }
+        // last chance - one of the sent transactions may still be mined
+        const receipt = await this.waitForReceipt(pending, this.stuckTimeoutMS);
+        if (receipt != null) return await this.checkReceipt(receipt, tx);
+        throw new TransactionSubmissionError(`Transaction from ${options.from} with nonce ${nonce} not mined`, 'timeout');
+    }
+
+    // Send the transaction, retrying transient errors. Returns null when a retry fails with nonce error,
+    // which means that the previous try reached the node although its response was lost.
+    private async broadcast(tx: SignedTransaction): Promise<string | null> {
+        for (let retry = 0; ; retry++) {
+            try {
+                return await this.withRpcRetries(() => this.sendSigned(tx), 0);
+            } catch (e) {
+                if (retry > 0 && errorIncluded(e, NONCE_ERRORS)) return null;
+                if (!(e instanceof TransactionSubmissionError && e.kind === 'rpc') || retry >= this.rpcRetries) throw e;
+                await sleep(this.rpcRetryDelayMS * (retry + 1));
+            }
+        }
+    }
+
+    private async sendSigned(tx: SignedTransaction) {
+        return await new Promise<string>((resolve, reject) => {
+            this.web3.eth.sendTransaction(tx)
+                .once('transactionHash', resolve)
+                .catch(reject);
+        });
+    }
+
+    private async waitForReceipt(pending: PendingTransaction, timeoutMS: number) {
+        const end = Date.now() + timeoutMS;
+        while (true) {
+            for (const txHash of pending.hashes) {
+                const receipt = await this.withRpcRetries(() => this.web3.eth.getTransactionReceipt(txHash));
+                if (receipt != null) return receipt;
+            }
+            if (pending.unknownHash) {
+                const receipt = await this.findReceiptByNonce(pending);
+                if (receipt != null) return receipt;
+            }
+            if (Date.now() >= end) return null;
+            await sleep(this.receiptPollMS);
+        }
+    }
+
+    // Once the nonce is used on chain, find the mined transaction in blocks since the first broadcast.
+    private async findReceiptByNonce(pending: PendingTransaction) {
+        const minedCount = await this.withRpcRetries(() => this.web3.eth.getTransactionCount(pending.from, 'latest'));
+        if (minedCount <= pending.nonce) return null;
+        const lastBlock = await this.withRpcRetries(() => this.web3.eth.getBlockNumber());
+        for (let blockNumber = lastBlock; blockNumber >= pending.startBlock; blockNumber--) {
+            const block = await this.withRpcRetries(() => this.web3.eth.getBlock(blockNumber, true));
+            const transaction = block.transactions.find(tx => tx.from.toLowerCase() === pending.from.toLowerCase() && tx.nonce === pending.nonce);
+            if (transaction == null) continue;
+            if (transaction.input !== pending.data) {
+                throw new TransactionSubmissionError(`Nonce ${pending.nonce} of ${pending.from} was used by another transaction ${transaction.hash}`, 'rpc');
+            }
+            return await this.withRpcRetries(() => this.web3.eth.getTransactionReceipt(transaction.hash));
+        }
+        throw new TransactionSubmissionError(`Transaction from ${pending.from} with nonce ${pending.nonce} not found`, 'rpc');
+    }
+
+    private async checkReceipt(receipt: TransactionReceipt, tx: UnsignedTransaction) {
+        if (!receipt.status) {
+            const reason = await this.revertReason(tx, receipt.blockNumber);
+            throw new TransactionSubmissionError(`Transaction ${receipt.transactionHash} reverted${reason != null ? `: ${reason}` : ''}`, 'reverted');
+        }
+        return receipt;
+    }
+
+    // The receipt of a mined transaction has no revert reason, so the call is replayed at the transaction's block
+    // (e.g. a challenge that lost the race with another challenger then fails with 'already liquidating').
+    private async revertReason(tx: UnsignedTransaction, blockNumber: number) {
+        try {
+            await this.withRpcRetries(() => this.web3.eth.call(tx, blockNumber));
+            return null;
+        } catch (e) {
+            if (e instanceof TransactionSubmissionError && e.kind === 'reverted') return e.message;
+            this.logger?.log(`TX SUBMITTER cannot obtain revert reason: ${e}`);
+            return null;
+        }
+    }
+
+    private async allocateNonce(from: string) {
+        // serialize nonce allocation per sender
+        const previous = this.nonceLocks.get(from) ?? Promise.resolve();
+        const allocation = previous.catch(() => {}).then(async () => {
+            const releasedNonce = await this.takeReleasedNonce(from);
+            if (releasedNonce != null) return releasedNonce;
+            const chainNonce = await this.withRpcRetries(() => this.web3.eth.getTransactionCount(from, 'pending'));
+            const nonce = Math.max(chainNonce, this.nextNonce.get(from) ?? 0);
+            this.nextNonce.set(from, nonce + 1);
+            return nonce;
+        });
+        this.nonceLocks.set(from, allocation);
+        return await allocation;
+    }
+
+    private releaseNonce(from: string, nonce: number) {
+        // later nonces may already be allocated and broadcast; they stay queued on the node until this nonce is used
+        const released = this.releasedNonces.get(from) ?? [];
+        this.releasedNonces.set(from, [...released, nonce].sort((a, b) => a - b));
+    }
+
+    // The lowest released nonce, skipping the ones meanwhile used by transactions sent outside this submitter.
+    private async takeReleasedNonce(from: string) {
+        if ((this.releasedNonces.get(from) ?? []).length === 0) return undefined;
+        const minedCount = await this.withRpcRetries(() => this.web3.eth.getTransactionCount(from, 'latest'));
+        const released = (this.releasedNonces.get(from) ?? []).filter(nonce => nonce >= minedCount);
+        const nonce = released.shift();
+        this.releasedNonces.set(from, released);
+        return nonce;
+    }
+
+    private async withRpcRetries<T>(call: () => Promise<T>, maxRetries: number = this.rpcRetries): Promise<T> {
+        for (let retry = 0; ; retry++) {
+            try {
+                return await call();
+            } catch (e) {
+                if (errorIncluded(e, REVERT_ERRORS)) {
+                    throw new TransactionSubmissionError((e as Error).message, 'reverted', e);
+                }
+                if (!errorIncluded(e, TRANSIENT_ERRORS)) throw e;
+                if (retry >= maxRetries) {
+                    throw new TransactionSubmissionError((e as Error).message, 'rpc', e);
+                }
+                await sleep(this.rpcRetryDelayMS * (retry + 1));
+            }
+        }
+    }
+}
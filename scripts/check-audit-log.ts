@@ -0,0 +1,41 @@
+import { AgentStateSnapshot, AuditLogContinuityCheck, agentInfoSnapshot } from "../lib/state/StateAuditLog";
+import { expectErrors, runAsyncMain } from "../lib/utils/helpers";
+
+// Checks a TrackedState audit log for gaps (agent state changes without a log record).
+// The events are not re-executed, only the logged before/after states of each agent are chained together.
+// When ASSET_MANAGER is set, the last logged states are also compared with the current on-chain agent info
+// (the log must be complete up to now for that).
+// Usage: AUDIT_LOG=<path> [ASSET_MANAGER=<address>] yarn hardhat --network <network> run scripts/check-audit-log.ts
+
+const IIAssetManager = artifacts.require("IIAssetManager");
+
+runAsyncMain(async () => {
+    const path = process.env.AUDIT_LOG;
+    if (!path) throw new Error("Missing environment variable AUDIT_LOG");
+    const check = AuditLogContinuityCheck.checkFile(path);
+    console.log(`Checked ${check.recordCount} records, ${check.agents.size} agents`);
+    for (const error of check.errors) {
+        console.log(`GAP: ${error}`);
+    }
+    let differences: string[] = [];
+    const assetManagerAddress = process.env.ASSET_MANAGER;
+    if (assetManagerAddress) {
+        const assetManager = await IIAssetManager.at(assetManagerAddress);
+        const actualStates = new Map<string, AgentStateSnapshot>();
+        for (const agentVault of check.agents.keys()) {
+            const agentInfo = await assetManager.getAgentInfo(agentVault)
+                .catch(e => expectErrors(e, ['invalid agent vault address']));
+            if (agentInfo) {
+                actualStates.set(agentVault, agentInfoSnapshot(agentInfo));
+            }
+        }
+        differences = check.verify(actualStates);
+        for (const difference of differences) {
+            console.log(`MISMATCH: ${difference}`);
+        }
+    }
+    if (check.errors.length > 0 || differences.length > 0) {
+        throw new Error(`Audit log verification failed (${check.errors.length} gaps, ${differences.length} mismatches)`);
+    }
+    console.log("Audit log verified");
+});
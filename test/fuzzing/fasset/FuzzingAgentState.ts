@@ -185,8 +185,8 @@ export class FuzzingAgentState extends TrackedAgentState {
         this.confirmRedemptionPayment('performed', args)
     }
 
-    override handleRedemptionPaymentFailed(args: EvmEventArgs<RedemptionPaymentFailed>): void {
-        super.handleRedemptionPaymentFailed(args);
+    // not handled by TrackedAgentState (the balance change is reported by UnderlyingBalanceChanged)
+    handleRedemptionPaymentFailed(args: EvmEventArgs<RedemptionPaymentFailed>): void {
         // update balance tracking
         this.addBalanceTrackingRow(args.$event, { requestId: args.requestId, redemptionSpent: args.spentUnderlyingUBA });
         this.confirmRedemptionPayment('failed', args)
@@ -265,8 +265,8 @@ export class FuzzingAgentState extends TrackedAgentState {
         super.handleUnderlyingWithdrawalCancelled(args);
     }
 
-    override handleUnderlyingBalanceToppedUp(args: EvmEventArgs<UnderlyingBalanceToppedUp>): void {
-        super.handleUnderlyingBalanceToppedUp(args);
+    // not handled by TrackedAgentState (the balance change is reported by UnderlyingBalanceChanged)
+    handleUnderlyingBalanceToppedUp(args: EvmEventArgs<UnderlyingBalanceToppedUp>): void {
         this.addUnderlyingBalanceChange(args.$event, 'topup', toBN(args.depositedUBA));
         // update balance tracking
         this.addBalanceTrackingRow(args.$event, { topup: args.depositedUBA });
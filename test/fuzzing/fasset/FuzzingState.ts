@@ -54,6 +54,9 @@ export class FuzzingState extends TrackedState {
                 this.agentsByPool.get(args.to)?.handlePoolFeeDeposit(args.from, toBN(args.value));
             }
         });
+        // events only used for fuzzing balance tracking
+        this.trackedEvent('RedemptionPaymentFailed').subscribe(args => this.getAgent(args.agentVault)?.handleRedemptionPaymentFailed(args));
+        this.trackedEvent('UnderlyingBalanceToppedUp').subscribe(args => this.getAgent(args.agentVault)?.handleUnderlyingBalanceToppedUp(args));
         // track underlying transactions
         this.chainEvents.transactionEvent().immediate().subscribe(transaction => {
             for (const [address, amount] of transaction.inputs) {
@@ -0,0 +1,126 @@
+import { ActorBase } from "../../../lib/actors/ActorBase";
+import { AssetManagerServiceFactory, AssetManagerSupervisor, SupervisedAssetManager } from "../../../lib/actors/AssetManagerSupervisor";
+import { IAssetContext } from "../../../lib/fasset/IAssetContext";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { TriggerableEvent } from "../../../lib/utils/events/ScopedEvents";
+import { ScopedRunner } from "../../../lib/utils/events/ScopedRunner";
+import { toBN } from "../../../lib/utils/helpers";
+import { AssetManagerControllerInstance } from "../../../typechain-truffle";
+import { MockClock } from "../../utils/fasset/MockClock";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`AssetManagerSupervisorTests.ts; ${getTestFile(__filename)}; Asset manager supervisor unit tests`, async accounts => {
+    // actor that counts the events of the shared test event and starts a thread for each
+    class CountingActor extends ActorBase {
+        handled = 0;
+
+        constructor(runner: ScopedRunner, state: TrackedState, event: TriggerableEvent<void>) {
+            super(runner, state);
+            event.subscribeIn(this.subscriptions, () => {
+                ++this.handled;
+                this.runner.startThread(async () => { throw new Error("actor failed"); });
+            });
+        }
+    }
+
+    class TestServiceFactory implements AssetManagerServiceFactory {
+        event = new TriggerableEvent<void>();
+        actors: CountingActor[] = [];
+        destroyed: SupervisedAssetManager[] = [];
+        failCreateActors = false;
+
+        async createContext(assetManagerAddress: string) {
+            return { chainInfo: { symbol: "TEST" } } as unknown as IAssetContext;
+        }
+
+        async createTrackedState(context: IAssetContext) {
+            return { context, clock: new MockClock(toBN(1000)), pricesUpdated: new TriggerableEvent<void>() } as unknown as TrackedState;
+        }
+
+        createActors(runner: ScopedRunner, state: TrackedState) {
+            const actor = new CountingActor(runner, state, this.event);
+            if (this.failCreateActors) throw new Error("cannot create actors");
+            this.actors.push(actor);
+            return [actor];
+        }
+
+        async destroy(manager: SupervisedAssetManager) {
+            this.destroyed.push(manager);
+        }
+    }
+
+    let assetManagers: string[];
+    let factory: TestServiceFactory;
+    let supervisor: AssetManagerSupervisor;
+
+    beforeEach(() => {
+        assetManagers = ["AM1"];
+        const controller = { getAssetManagers: async () => assetManagers } as unknown as AssetManagerControllerInstance;
+        factory = new TestServiceFactory();
+        supervisor = new AssetManagerSupervisor(controller, factory);
+    });
+
+    afterEach(async () => {
+        await supervisor.stop();
+    });
+
+    it("starts managers from the controller's list and stops the removed ones", async () => {
+        await supervisor.refresh();
+        assert.deepEqual(Array.from(supervisor.managers.keys()), ["AM1"]);
+        const manager = supervisor.managers.get("AM1")!;
+        assetManagers = [];
+        await supervisor.refresh();
+        assert.equal(supervisor.managers.size, 0);
+        assert.deepEqual(factory.destroyed, [manager]);
+    });
+
+    it("stopping the manager unsubscribes its actors, stops its runner and price monitor", async () => {
+        await supervisor.refresh();
+        const manager = supervisor.managers.get("AM1")!;
+        await supervisor.stopManager("AM1");
+        assert.isTrue(manager.runner.stopped);
+        factory.event.trigger();
+        assert.equal(factory.actors[0].handled, 0);
+        // price monitor doesn't track price epochs any more
+        const clock = manager.state.clock as MockClock;
+        clock.skipTime(100);
+        manager.state.pricesUpdated.trigger();
+        assert.equal(String(manager.priceMonitor!.lastPriceEpochAt), "1000");
+        // stopped runner doesn't start threads
+        manager.runner.startThread(async () => {});
+        assert.equal(manager.runner.runningThreads, 0);
+    });
+
+    it("restarts the manager only when error count since the previous refresh exceeds maxErrors", async () => {
+        supervisor.maxErrors = 2;
+        await supervisor.refresh();
+        const manager = supervisor.managers.get("AM1")!;
+        // errors below the limit in every refresh interval don't cause restart
+        for (let i = 0; i < 3; i++) {
+            factory.event.trigger();
+            factory.event.trigger();
+            await new Promise(resolve => setTimeout(resolve, 0));
+            await supervisor.refresh();
+            assert.equal(supervisor.managers.get("AM1"), manager);
+        }
+        // too many errors in one interval
+        for (let i = 0; i < 3; i++) factory.event.trigger();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        await supervisor.refresh();
+        assert.deepEqual(factory.destroyed, [manager]);
+        assert.notEqual(supervisor.managers.get("AM1"), manager);
+        assert.equal(factory.actors.length, 2);
+    });
+
+    it("failure in createActors doesn't leave a half started manager", async () => {
+        factory.failCreateActors = true;
+        await supervisor.refresh();
+        assert.equal(supervisor.managers.size, 0);
+        assert.equal(factory.destroyed.length, 1);
+        assert.isTrue(factory.destroyed[0].runner.stopped);
+        // started on the next refresh
+        factory.failCreateActors = false;
+        await supervisor.refresh();
+        assert.equal(supervisor.managers.size, 1);
+    });
+});
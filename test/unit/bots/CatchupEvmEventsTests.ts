@@ -0,0 +1,117 @@
+import Web3 from "web3";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { ChainClock } from "../../../lib/utils/clock";
+import { CatchupEvmEvents } from "../../../lib/utils/events/CatchupEvmEvents";
+import { EventExecutionQueue } from "../../../lib/utils/events/ScopedEvents";
+import { EvmEvent } from "../../../lib/utils/events/common";
+import { sleep, toBN, toBNExp, toWei } from "../../../lib/utils/helpers";
+import { Agent } from "../../integration/utils/Agent";
+import { Minter } from "../../integration/utils/Minter";
+import { BotTestEnvironment } from "../../utils/fasset/BotTestEnvironment";
+import { getTestFile } from "../../utils/test-helpers";
+import { Web3EventDecoder } from "../../utils/Web3EventDecoder";
+
+contract(`CatchupEvmEventsTests.ts; ${getTestFile(__filename)}; Tracked state catch-up unit tests`, async accounts => {
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+    const customerAddress2 = accounts[31];
+
+    let env: BotTestEnvironment;
+    let minter: Minter;
+
+    async function createCatchupState(fromBlock: number) {
+        const eventQueue = new EventExecutionQueue();
+        const catchupEvents = new CatchupEvmEvents(web3, eventQueue, fromBlock);
+        catchupEvents.chunkSize = 5;    // so that the agent's events span several chunks
+        const trackedState = new TrackedState(env.context, catchupEvents, env.chainEvents, new Web3EventDecoder({}), eventQueue, new ChainClock(web3, env.chain));
+        await trackedState.initializeWithCatchup();
+        catchupEvents.close();
+        return trackedState;
+    }
+
+    async function nextBlockNumber() {
+        return await web3.eth.getBlockNumber() + 1;
+    }
+
+    async function assertAgentMatchesChain(trackedState: TrackedState, agent: Agent) {
+        const trackedAgent = trackedState.getAgent(agent.agentVault.address);
+        assert.isDefined(trackedAgent);
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(trackedAgent!.mintedUBA), String(agentInfo.mintedUBA));
+        assert.equal(String(trackedAgent!.reservedUBA), String(agentInfo.reservedUBA));
+        assert.equal(String(trackedAgent!.totalVaultCollateralWei), String(agentInfo.totalVaultCollateralWei));
+        assert.equal(String(trackedAgent!.totalPoolCollateralNATWei), String(agentInfo.totalPoolCollateralNATWei));
+        // pool events are only replayed if the pool was registered during catch-up
+        assert.equal(String(trackedAgent!.pool.poolTokenSupply), String(await agent.collateralPoolToken.totalSupply()));
+        assert.equal(String(trackedAgent!.pool.totalFAssetFees), String(await agent.collateralPool.totalFAssetFees()));
+        assert.equal(String(trackedState.fAssetSupply), String(await env.context.fAsset.totalSupply()));
+    }
+
+    beforeEach(async () => {
+        env = await BotTestEnvironment.create(accounts);
+        minter = await Minter.createTest(env.context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+    });
+
+    it("replays agent created during catch-up, together with its pool events", async () => {
+        const fromBlock = await nextBlockNumber();
+        const agent = await Agent.createTest(env.context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8), toWei(3e8));
+        await env.performMinting(minter, agent, 10);
+        const trackedState = await createCatchupState(fromBlock);
+        await assertAgentMatchesChain(trackedState, agent);
+    });
+
+    it("loads agents created before the first replayed block and replays their later events", async () => {
+        const agent = await Agent.createTest(env.context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8), toWei(3e8));
+        await env.performMinting(minter, agent, 5);
+        const fromBlock = await nextBlockNumber();
+        await agent.buyCollateralPoolTokens(toWei(1e8));
+        await env.performMinting(minter, agent, 10);
+        const trackedState = await createCatchupState(fromBlock);
+        await assertAgentMatchesChain(trackedState, agent);
+    });
+
+    it("agent without events after the first replayed block is loaded too", async () => {
+        const agent = await Agent.createTest(env.context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8), toWei(3e8));
+        const trackedState = await createCatchupState(await nextBlockNumber());
+        await assertAgentMatchesChain(trackedState, agent);
+    });
+
+    it("events emitted during catch-up are handled exactly once and in order", async () => {
+        const fromBlock = await nextBlockNumber();
+        const agent = await Agent.createTest(env.context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8), toWei(3e8));
+        const minted = await env.performMinting(minter, agent, 10);
+        const transferLot = () => env.context.fAsset.transfer(customerAddress2, toBN(minted.mintedAmountUBA).divn(10), { from: minter.address });
+        // a transfer is made after each of the first block height reads, so that the chain grows while catching up;
+        // the last one ends up in the last replayed block
+        let heightReads = 0;
+        const catchupWeb3 = {
+            eth: {
+                getBlockNumber: async () => {
+                    const blockNumber = await web3.eth.getBlockNumber();
+                    if (++heightReads <= 3) await transferLot();
+                    return blockNumber;
+                },
+            },
+        } as unknown as Web3;
+        const catchupEvents = new CatchupEvmEvents(catchupWeb3, null, fromBlock);
+        catchupEvents.chunkSize = 5;
+        const handled: EvmEvent[] = [];
+        catchupEvents.event(env.context.fAsset, 'Transfer').subscribe(args => handled.push(args.$event));
+        await catchupEvents.catchUp();
+        // and one live transfer after catch-up
+        await transferLot();
+        const expected: EvmEvent[] = await env.context.fAsset.getPastEvents('Transfer', { fromBlock, toBlock: 'latest' });
+        // live events arrive asynchronously; also wait a bit for possible duplicates
+        for (let i = 0; i < 100 && handled.length < expected.length; i++) await sleep(20);
+        await sleep(200);
+        catchupEvents.close();
+        assert.isAtLeast(heightReads, 4);
+        assert.deepEqual(handled.map(event => [event.blockNumber, event.logIndex]), expected.map(event => [event.blockNumber, event.logIndex]));
+    });
+});
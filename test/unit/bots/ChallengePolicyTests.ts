@@ -0,0 +1,92 @@
+import { AlwaysChallengePolicy, EconomicChallengePolicy, SpentTransaction } from "../../../lib/actors/ChallengePolicy";
+import { AssetManagerSettings, CollateralType } from "../../../lib/fasset/AssetManagerTypes";
+import { AMG_TOKENWEI_PRICE_SCALE } from "../../../lib/fasset/Conversions";
+import { AMGPrice } from "../../../lib/state/CollateralPrice";
+import { TrackedAgentState } from "../../../lib/state/TrackedAgentState";
+import { BN_ZERO, toBN } from "../../../lib/utils/helpers";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`ChallengePolicyTests.ts; ${getTestFile(__filename)}; Challenge policy unit tests`, async accounts => {
+    // 1 AMG = 1000 UBA; 1 AMG costs 2000 vault collateral wei or 10000 NAT wei
+    const settings = {
+        assetMintingDecimals: 3,
+        assetMintingGranularityUBA: 1000,
+        paymentChallengeRewardBIPS: 100,
+        paymentChallengeRewardUSD5: 2000,
+    } as unknown as AssetManagerSettings;
+    const vaultPrice = new AMGPrice(AMG_TOKENWEI_PRICE_SCALE.muln(2000), toBN(3), toBN(1000));
+    const natPrice = new AMGPrice(AMG_TOKENWEI_PRICE_SCALE.muln(10000), toBN(3), toBN(1000));
+    // stablecoin without ftso symbol - USD5 reward is paid 1:1 in token wei
+    const vaultCollateral = { token: "USDX", tokenFtsoSymbol: "" } as unknown as CollateralType;
+    const poolCollateral = { token: "WNAT", tokenFtsoSymbol: "NAT" } as unknown as CollateralType;
+
+    function createAgent(mintedUBA: number, totalVaultCollateralWei: number = 1e12) {
+        const parent = {
+            settings: settings,
+            prices: { get: (collateral: CollateralType) => collateral === vaultCollateral ? vaultPrice : natPrice },
+        };
+        return { parent, vaultCollateral, poolWNatCollateral: poolCollateral, mintedUBA: toBN(mintedUBA), totalVaultCollateralWei: toBN(totalVaultCollateralWei) } as unknown as TrackedAgentState;
+    }
+
+    function spent(txHash: string, amount: number): SpentTransaction {
+        return { txHash, spent: toBN(amount) };
+    }
+
+    function economicPolicy(gasPrice: number) {
+        return new EconomicChallengePolicy(async () => toBN(gasPrice));
+    }
+
+    it("expected reward follows the asset manager's challenger reward", () => {
+        const policy = economicPolicy(0);
+        // 1% of 1_000_000 UBA = 10 AMG = 20_000 vault wei, plus 2000 USD5 reward = 22_000 vault wei = 11 AMG = 110_000 NAT wei
+        assert.equal(String(policy.expectedRewardNATWei(createAgent(1_000_000))), "110000");
+    });
+
+    it("expected reward is capped by agent's vault collateral", () => {
+        const policy = economicPolicy(0);
+        // only 4000 vault wei = 2 AMG = 20_000 NAT wei can be paid
+        assert.equal(String(policy.expectedRewardNATWei(createAgent(1_000_000, 4000))), "20000");
+    });
+
+    it("challenge is issued when reward exceeds gas cost", async () => {
+        // reward: 1000 AMG + 1 AMG = 10_010_000 NAT wei; illegal payment challenge gas: 400_000 + 150_000 per proof
+        const agent = createAgent(100_000_000);
+        assert.equal(String(economicPolicy(0).expectedRewardNATWei(agent)), "10010000");
+        assert.equal(await economicPolicy(18).decide('illegalPayment', agent, 1), 'challenge');
+        assert.equal(await economicPolicy(19).decide('illegalPayment', agent, 1), 'defer');
+    });
+
+    it("uneconomic challenge is deferred while the agent has backing and skipped otherwise", async () => {
+        const policy = economicPolicy(1);
+        assert.equal(await policy.decide('illegalPayment', createAgent(1_000_000), 1), 'defer');
+        assert.equal(await policy.decide('illegalPayment', createAgent(0), 1), 'skip');
+    });
+
+    it("challenge must bring at least minProfitNATWei", async () => {
+        const policy = economicPolicy(0);
+        policy.minProfitNATWei = toBN(110_000);
+        assert.equal(await policy.decide('doublePayment', createAgent(1_000_000), 2), 'challenge');
+        policy.minProfitNATWei = toBN(110_001);
+        assert.equal(await policy.decide('doublePayment', createAgent(1_000_000), 2), 'defer');
+    });
+
+    it("economic policy reports the smallest set of transactions that makes free balance negative", () => {
+        const policy = economicPolicy(0);
+        const transactions = [spent("tx1", 5), spent("tx2", 30), spent("tx3", 10), spent("tx4", 20)];
+        const selected = policy.selectNegativeBalanceTransactions(transactions, toBN(35));
+        assert.deepEqual(selected.map(tx => tx.txHash), ["tx2", "tx4"]);
+        // when the balance cannot be made negative, all are returned
+        const all = policy.selectNegativeBalanceTransactions(transactions, toBN(100));
+        assert.deepEqual(all.map(tx => tx.txHash), ["tx2", "tx4", "tx3", "tx1"]);
+    });
+
+    it("always-challenge policy reports at most 50 biggest spenders", async () => {
+        const policy = new AlwaysChallengePolicy();
+        const transactions = Array.from({ length: 60 }, (_, i) => spent(`tx${i}`, i));
+        const selected = policy.selectNegativeBalanceTransactions(transactions, BN_ZERO);
+        assert.equal(selected.length, 50);
+        assert.equal(selected[0].txHash, "tx59");
+        assert.equal(selected[49].txHash, "tx10");
+        assert.equal(await policy.decide('illegalPayment', createAgent(0), 1), 'challenge');
+    });
+});
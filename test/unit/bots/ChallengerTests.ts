@@ -1,13 +1,22 @@
-import { Challenger } from "../../../lib/actors/Challenger";
+import BN from "bn.js";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ChallengeDecision } from "../../../lib/actors/ChallengePolicy";
+import { CHALLENGER_CHECKPOINT_BN_KEYS, Challenger, ChallengerCheckpoint } from "../../../lib/actors/Challenger";
 import { AgentStatus } from "../../../lib/fasset/AssetManagerTypes";
 import { PaymentReference } from "../../../lib/fasset/PaymentReference";
 import { TrackedState } from "../../../lib/state/TrackedState";
+import { PollingBlockChainEvents } from "../../../lib/underlying-chain/PollingBlockChainEvents";
 import { UnderlyingChainEvents } from "../../../lib/underlying-chain/UnderlyingChainEvents";
+import { ChainClock } from "../../../lib/utils/clock";
+import { CatchupEvmEvents } from "../../../lib/utils/events/CatchupEvmEvents";
 import { EventArgs } from "../../../lib/utils/events/common";
 import { EventExecutionQueue } from "../../../lib/utils/events/ScopedEvents";
 import { ScopedRunner } from "../../../lib/utils/events/ScopedRunner";
 import { sleep, toBN, toBNExp, toWei } from "../../../lib/utils/helpers";
-import { ILogger, NullLog } from "../../../lib/utils/logging";
+import { ILogger, MemoryLog, NullLog } from "../../../lib/utils/logging";
+import { JsonFileStore, MemoryStore } from "../../../lib/utils/persistent-store";
 import { RedemptionRequested } from "../../../typechain-truffle/AssetManager";
 import { InterceptorEvmEvents } from "../../fuzzing/fasset/InterceptorEvmEvents";
 import { TruffleTransactionInterceptor } from "../../fuzzing/fasset/TransactionInterceptor";
@@ -95,7 +104,7 @@ contract(`ChallengerTests.ts; ${getTestFile(__filename)}; Challenger bot unit te
         chainEvents = context.chainEvents;
         // timeline = new FuzzingTimeline(chain, eventQueue);
         // state checker
-        trackedState = new TrackedState(context, truffleEvents, chainEvents, eventDecoder, eventQueue);
+        trackedState = new TrackedState(context, truffleEvents, chainEvents, eventDecoder, eventQueue, new ChainClock(web3, chain));
         await trackedState.initialize();
         // runner
         runner = new ScopedRunner();
@@ -324,4 +333,140 @@ contract(`ChallengerTests.ts; ${getTestFile(__filename)}; Challenger bot unit te
         assert.equal(await getAgentStatus(agent), AgentStatus.FULL_LIQUIDATION);
     });
 
+    it("restart from checkpoint keeps active redemptions and unconfirmed transactions", async () => {
+        const store = new MemoryStore<ChallengerCheckpoint>(CHALLENGER_CHECKPOINT_BN_KEYS);
+        const challenger = new Challenger(runner, trackedState, challengerAddress1, store);
+        await performMinting(minter, agent, 50);
+        const [reqs] = await redeemer.requestRedemption(10);
+        const txHash = await agent.performRedemptionPayment(reqs[0]);
+        await waitThreadsToFinish();
+        assert.equal(await getAgentStatus(agent), AgentStatus.NORMAL);
+        assert.isAbove(challenger.lastEvmBlock, 0);
+        assert.isAbove(challenger.lastUnderlyingBlock, 0);
+        // new challenger restores state from the store
+        const restarted = new Challenger(new ScopedRunner(), trackedState, challengerAddress1, store);
+        assert.equal(restarted.lastEvmBlock, challenger.lastEvmBlock);
+        assert.equal(restarted.lastUnderlyingBlock, challenger.lastUnderlyingBlock);
+        const redemption = restarted.activeRedemptions.get(reqs[0].paymentReference);
+        assert.isDefined(redemption);
+        assert.equal(redemption!.agentAddress, agent.agentVault.address);
+        assert.equal(String(redemption!.amount), String(reqs[0].valueUBA));
+        assert.equal(restarted.transactionForPaymentReference.get(reqs[0].paymentReference), txHash);
+        const transaction = restarted.unconfirmedTransactions.get(agent.agentVault.address)?.get(txHash);
+        assert.isDefined(transaction);
+        assert.isTrue(BN.isBN(transaction!.inputs[0][1]));
+    });
+
+    it("restarted challenger catches up with the events that happened while it was stopped", async () => {
+        const checkpointDir = mkdtempSync(join(tmpdir(), "challenger-"));
+        const store = new JsonFileStore<ChallengerCheckpoint>(join(checkpointDir, "checkpoint.json"), CHALLENGER_CHECKPOINT_BN_KEYS);
+        const challenger = new Challenger(runner, trackedState, challengerAddress1, store);
+        await performMinting(minter, agent, 50);
+        await waitThreadsToFinish();
+        // checkpoint is saved after EVM events, without waiting for an underlying block
+        const [reqs1] = await redeemer.requestRedemption(5);
+        await interceptor.allHandled();
+        eventQueue.runAll();
+        assert.isTrue(store.load()!.activeRedemptions.some(([reference]) => reference === reqs1[0].paymentReference));
+        challenger.stop();
+        // redemption is requested and paid while the challenger is stopped
+        const [reqs2] = await redeemer.requestRedemption(5);
+        const txHash = await agent.performRedemptionPayment(reqs2[0]);
+        chain.mine();
+        // restart - tracked state catches up from the checkpoint's EVM block, underlying events from its underlying block
+        const resume = Challenger.resumeBlocks(store);
+        assert.isDefined(resume);
+        const restartQueue = new EventExecutionQueue();
+        const catchupEvents = new CatchupEvmEvents(web3, restartQueue, resume!.evmBlock);
+        const pollingEvents = new PollingBlockChainEvents(chain);
+        const restartState = new TrackedState(context, catchupEvents, new UnderlyingChainEvents(chain, pollingEvents, restartQueue), eventDecoder, restartQueue, new ChainClock(web3, chain));
+        const memoryLog = new MemoryLog();
+        restartState.logger = memoryLog;
+        const restartRunner = new ScopedRunner();
+        const restarted = new Challenger(restartRunner, restartState, challengerAddress1, store);    // before catch-up, to receive the replayed events
+        await restartState.initializeWithCatchup();
+        pollingEvents.lastBlock = resume!.underlyingBlock - 1;  // same as `start(resume.underlyingBlock)`, but polled once
+        await pollingEvents.poll();
+        restartQueue.runAll();
+        catchupEvents.close();
+        // the payment made while stopped is recognized as redemption payment, not challenged as illegal
+        assert.isTrue(restarted.activeRedemptions.has(reqs1[0].paymentReference));
+        assert.isTrue(restarted.activeRedemptions.has(reqs2[0].paymentReference));
+        assert.equal(restarted.transactionForPaymentReference.get(reqs2[0].paymentReference), txHash);
+        assert.isDefined(restarted.unconfirmedTransactions.get(agent.agentVault.address)?.get(txHash));
+        assert.equal(restartRunner.runningThreads, 0);
+        assert.isFalse(memoryLog.logs.some(line => line.includes("ISSUE")));
+        assert.equal(await getAgentStatus(agent), AgentStatus.NORMAL);
+        rmSync(checkpointDir, { recursive: true, force: true });
+    });
+
+    it("transaction removed by reorganization is not tracked and its replacement is not a double payment", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        await performMinting(minter, agent, 50);
+        const [reqs] = await redeemer.requestRedemption(10);
+        const txHash = await agent.performRedemptionPayment(reqs[0]);
+        await waitThreadsToFinish();
+        assert.equal(challenger.transactionForPaymentReference.get(reqs[0].paymentReference), txHash);
+        // the payment is dropped by underlying chain reorganization
+        chain.removeMinedTransaction(txHash);
+        await waitThreadsToFinish();
+        assert.isUndefined(challenger.transactionForPaymentReference.get(reqs[0].paymentReference));
+        assert.isUndefined(challenger.unconfirmedTransactions.get(agent.agentVault.address)?.get(txHash));
+        // the agent pays again (replacement transaction)
+        const replacementHash = await agent.performRedemptionPayment(reqs[0]);
+        await waitThreadsToFinish();
+        assert.equal(challenger.transactionForPaymentReference.get(reqs[0].paymentReference), replacementHash);
+        assert.equal(await getAgentStatus(agent), AgentStatus.NORMAL);
+    });
+
+    it("removed payment with several inputs from agent's address is retracted once", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        const memoryLog = new MemoryLog();
+        trackedState.logger = memoryLog;
+        await performMinting(minter, agent, 50);
+        const [reqs] = await redeemer.requestRedemption(10);
+        const txHash = await agent.performRedemptionPayment(reqs[0]);
+        await waitThreadsToFinish();
+        // the payment spends two outputs of the agent's address (as on UTXO chains)
+        chain.modifyMinedTransaction(txHash, tx => {
+            const [address, amount] = tx.inputs[0];
+            tx.inputs = [[address, amount.subn(1)], [address, toBN(1)]];
+        });
+        chain.removeMinedTransaction(txHash);
+        await waitThreadsToFinish();
+        assert.equal(memoryLog.logs.filter(line => line.includes("UNDERLYING PAYMENT REMOVED")).length, 1);
+        assert.equal(memoryLog.logs.filter(line => line.includes(`${txHash} from ${underlyingAgent1} removed by reorganization`)).length, 1);
+        assert.isUndefined(challenger.unconfirmedTransactions.get(agent.agentVault.address)?.get(txHash));
+    });
+
+    it("deferred challenge is logged when issued and when the decision changes, not on every retry", async () => {
+        const challenger = new Challenger(runner, trackedState, challengerAddress1);
+        let decision: ChallengeDecision = 'defer';
+        challenger.policy = {
+            decide: async () => decision,
+            selectNegativeBalanceTransactions: (transactions) => transactions,
+        };
+        const memoryLog = new MemoryLog();
+        trackedState.logger = memoryLog;
+        const logCount = (text: string) => memoryLog.logs.filter(line => line.includes(text)).length;
+        await performMinting(minter, agent, 50);
+        const agentInfo = await agent.getAgentInfo();
+        await agent.performPayment(underlyingOwner1, toBN(agentInfo.mintedUBA).divn(2));
+        // deferred challenge is retried on every underlying block (waitThreadsToFinish would never finish)
+        for (let i = 0; i < 5; i++) {
+            chain.mine();
+            await sleep(20);
+            eventQueue.runAll();
+            await interceptor.allHandled();
+        }
+        assert.equal(logCount("ISSUE illegalTransactionChallenge"), 1);
+        assert.equal(logCount("illegalPayment challenge for"), 1);
+        assert.equal(await getAgentStatus(agent), AgentStatus.NORMAL);
+        // challenge goes through when it becomes economical
+        decision = 'challenge';
+        await waitThreadsToFinish();
+        assert.equal(logCount("ISSUE illegalTransactionChallenge"), 1);
+        assert.equal(logCount("became economical"), 1);
+        assert.equal(await getAgentStatus(agent), AgentStatus.FULL_LIQUIDATION);
+    });
 });
@@ -0,0 +1,93 @@
+import { CollateralType } from "../../../lib/fasset/AssetManagerTypes";
+import { agentLiquidationPrices, allAgentsLiquidationPrices } from "../../../lib/state/LiquidationPrices";
+import { TokenPrice } from "../../../lib/state/TokenPrice";
+import { TrackedAgentState } from "../../../lib/state/TrackedAgentState";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { toBN } from "../../../lib/utils/helpers";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`LiquidationPricesTests.ts; ${getTestFile(__filename)}; Liquidation prices unit tests`, async accounts => {
+    const NO_BACKING = toBN(1).shln(256).subn(1);
+
+    const vaultCollateral = {
+        token: "USDX", directPricePair: false,
+        minCollateralRatioBIPS: 15000, ccbMinCollateralRatioBIPS: 13000, safetyMinCollateralRatioBIPS: 20000,
+    } as unknown as CollateralType;
+    const poolCollateral = {
+        token: "WNAT", directPricePair: true,
+        minCollateralRatioBIPS: 20000, ccbMinCollateralRatioBIPS: 18000, safetyMinCollateralRatioBIPS: 25000,
+    } as unknown as CollateralType;
+
+    // asset price 1.00000, vault token price 2.00000 (USD)
+    const assetPrice = new TokenPrice(toBN(100000), toBN(1000), toBN(5));
+    const vaultTokenPrice = new TokenPrice(toBN(200000), toBN(1000), toBN(5));
+    const currentPrices = {
+        get: (collateral: CollateralType) => collateral === vaultCollateral
+            ? { assetPrice, tokenPrice: vaultTokenPrice }
+            : { assetPrice, tokenPrice: undefined },
+    };
+
+    function createAgent(address: string, vaultCR: BN, poolCR: BN) {
+        const parent = { prices: currentPrices };
+        return {
+            address, parent, vaultCollateral, poolWNatCollateral: poolCollateral,
+            collateralRatioBIPS: (collateral: CollateralType) => collateral === vaultCollateral ? vaultCR : poolCR,
+        } as unknown as TrackedAgentState;
+    }
+
+    it("threshold prices scale current prices by the collateral ratio", () => {
+        const prices = agentLiquidationPrices(createAgent("agent1", toBN(30000), toBN(36000)));
+        const vault = prices.vault!;
+        assert.equal(String(vault.collateralRatioBIPS), "30000");
+        // asset price must rise to 30000 / 15000 of the current for CCB
+        assert.equal(String(vault.ccb.assetPrice.price), "200000");
+        assert.approximately(vault.ccb.assetPriceMovePct, 100, 1e-9);
+        assert.equal(String(vault.liquidation.assetPrice.price), "230769");
+        assert.approximately(vault.liquidation.assetPriceMovePct, 130.769, 1e-3);
+        assert.equal(String(vault.recovery.assetPrice.price), "150000");
+        // or the token price must fall
+        assert.equal(String(vault.ccb.tokenPrice!.price), "100000");
+        assert.approximately(vault.ccb.tokenPriceMovePct!, -50, 1e-9);
+        assert.equal(String(vault.liquidation.tokenPrice!.price), "86666");
+        assert.approximately(vault.liquidation.tokenPriceMovePct!, -56.667, 1e-3);
+        // prices keep timestamp and decimals
+        assert.equal(String(vault.ccb.assetPrice.timestamp), "1000");
+        assert.equal(String(vault.ccb.assetPrice.decimals), "5");
+    });
+
+    it("direct price pair collateral has no token threshold prices", () => {
+        const pool = agentLiquidationPrices(createAgent("agent1", toBN(30000), toBN(36000))).pool!;
+        assert.equal(String(pool.liquidation.assetPrice.price), "200000");
+        assert.approximately(pool.liquidation.assetPriceMovePct, 100, 1e-9);
+        assert.isUndefined(pool.liquidation.tokenPrice);
+        assert.isUndefined(pool.liquidation.tokenPriceMovePct);
+    });
+
+    it("distance to liquidation is the smaller of vault and pool distance", () => {
+        // vault: 30000 / 13000 -> 130.8%; pool: 36000 / 18000 -> 100%
+        const prices = agentLiquidationPrices(createAgent("agent1", toBN(30000), toBN(36000)));
+        assert.approximately(prices.distanceToLiquidationPct, 100, 1e-9);
+        // agent already in liquidation has negative distance
+        const liquidated = agentLiquidationPrices(createAgent("agent2", toBN(12000), toBN(36000)));
+        assert.isBelow(liquidated.distanceToLiquidationPct, 0);
+    });
+
+    it("collaterals without backing are omitted", () => {
+        const prices = agentLiquidationPrices(createAgent("agent1", NO_BACKING, NO_BACKING));
+        assert.isUndefined(prices.vault);
+        assert.isUndefined(prices.pool);
+        assert.equal(prices.distanceToLiquidationPct, Infinity);
+    });
+
+    it("all agents are sorted by distance to liquidation", () => {
+        const agents = [
+            createAgent("agent1", toBN(30000), toBN(36000)),
+            createAgent("agent2", NO_BACKING, NO_BACKING),
+            createAgent("agent3", toBN(14000), toBN(36000)),
+            createAgent("agent4", toBN(30000), toBN(54000)),
+        ];
+        const state = { agents: new Map(agents.map(agent => [agent.address, agent])) } as unknown as TrackedState;
+        const result = allAgentsLiquidationPrices(state);
+        assert.deepEqual(result.map(prices => prices.agent.address), ["agent3", "agent1", "agent4", "agent2"]);
+    });
+});
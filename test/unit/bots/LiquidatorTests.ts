@@ -0,0 +1,108 @@
+import { Liquidator } from "../../../lib/actors/Liquidator";
+import { AgentStatus } from "../../../lib/fasset/AssetManagerTypes";
+import { time } from "@openzeppelin/test-helpers";
+import { toBN, toBNExp, toWei } from "../../../lib/utils/helpers";
+import { TransactionSubmitter } from "../../../lib/utils/transaction-submitter";
+import { Agent } from "../../integration/utils/Agent";
+import { Minter } from "../../integration/utils/Minter";
+import { BotTestEnvironment } from "../../utils/fasset/BotTestEnvironment";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`LiquidatorTests.ts; ${getTestFile(__filename)}; Liquidator bot unit tests`, async accounts => {
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+    const liquidatorAddress1 = accounts[60];
+
+    let env: BotTestEnvironment;
+    let agent: Agent;
+    let minter: Minter;
+
+    async function fAssetBalance(address: string) {
+        return await env.context.fAsset.balanceOf(address);
+    }
+
+    beforeEach(async () => {
+        env = await BotTestEnvironment.create(accounts);
+        agent = await Agent.createTest(env.context, agentOwner1, underlyingAgent1);
+        // big pool collateral, so that only vault collateral ratio drops with asset price
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8), toWei(5e12));
+        minter = await Minter.createTest(env.context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+        const minted = await env.performMinting(minter, agent, 50);
+        await env.context.fAsset.transfer(liquidatorAddress1, minted.mintedAmountUBA, { from: minter.address });
+        // vault collateral ratio below ccbMinCollateralRatio (1.3) - liquidation starts immediately
+        await agent.setVaultCollateralRatioByChangingAssetPrice(12000);
+        await env.finalizePriceEpoch();
+    });
+
+    it("liquidates only the amount needed to get the agent to safety", async () => {
+        const liquidator = new Liquidator(env.runner, env.trackedState, liquidatorAddress1);
+        const trackedAgent = env.trackedState.getAgent(agent.agentVault.address)!;
+        const timestamp = await env.trackedState.clock.evmTimestamp();
+        const maxLiquidatedUBA = await liquidator.maxLiquidationAmountUBA(trackedAgent, AgentStatus.LIQUIDATION, timestamp);
+        assert.isTrue(maxLiquidatedUBA.gt(toBN(0)) && maxLiquidatedUBA.lt(trackedAgent.mintedUBA));
+        const balanceBefore = await fAssetBalance(liquidatorAddress1);
+        liquidator.checkAgent(agent.agentVault.address);
+        await env.waitThreadsToFinish();
+        const liquidatedUBA = balanceBefore.sub(await fAssetBalance(liquidatorAddress1));
+        assert.equal(String(liquidatedUBA), String(maxLiquidatedUBA));
+        // liquidation ended, because the agent reached safety collateral ratio
+        assert.equal(await env.getAgentStatus(agent), AgentStatus.NORMAL);
+    });
+
+    it("expected payout is calculated for the capped amount", async () => {
+        const liquidator = new Liquidator(env.runner, env.trackedState, liquidatorAddress1);
+        const trackedAgent = env.trackedState.getAgent(agent.agentVault.address)!;
+        const timestamp = await env.trackedState.clock.evmTimestamp();
+        const maxLiquidatedUBA = await liquidator.maxLiquidationAmountUBA(trackedAgent, AgentStatus.LIQUIDATION, timestamp);
+        const estimate = await liquidator.estimateLiquidation(trackedAgent, maxLiquidatedUBA, timestamp);
+        // first step: factor 1.2, vault pays 1.0, pool pays the rest
+        assert.equal(String(estimate.vaultFactorBIPS), "10000");
+        assert.equal(String(estimate.poolFactorBIPS), "2000");
+        assert.isTrue(estimate.payoutValueUBA.gt(maxLiquidatedUBA));
+    });
+
+    it("liquidation started in ccb is estimated from the end of ccb", async () => {
+        // vault collateral ratio between ccbMinCollateralRatio (1.3) and minCollateralRatio (1.4)
+        await agent.setVaultCollateralRatioByChangingAssetPrice(13500);
+        await env.finalizePriceEpoch();
+        await env.context.assetManager.startLiquidation(agent.agentVault.address, { from: liquidatorAddress1 });
+        await env.waitThreadsToFinish();
+        const trackedAgent = env.trackedState.getAgent(agent.agentVault.address)!;
+        assert.equal(trackedAgent.status, AgentStatus.CCB);
+        // in the middle of the second liquidation step after ccb
+        const settings = await env.context.assetManager.getSettings();
+        await time.increase(Number(settings.ccbTimeSeconds) + 135);
+        const liquidator = new Liquidator(env.runner, env.trackedState, liquidatorAddress1);
+        const timestamp = await env.trackedState.clock.evmTimestamp();
+        const maxLiquidatedUBA = await liquidator.maxLiquidationAmountUBA(trackedAgent, AgentStatus.LIQUIDATION, timestamp);
+        const estimate = await liquidator.estimateLiquidation(trackedAgent, maxLiquidatedUBA, timestamp);
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(Number(agentInfo.status), AgentStatus.LIQUIDATION);
+        assert.equal(String(estimate.vaultFactorBIPS), String(agentInfo.liquidationPaymentFactorVaultBIPS));
+        assert.equal(String(estimate.poolFactorBIPS), String(agentInfo.liquidationPaymentFactorPoolBIPS));
+        assert.equal(String(maxLiquidatedUBA), String(agentInfo.maxLiquidationAmountUBA));
+        // second step: factor 1.6
+        assert.equal(String(estimate.vaultFactorBIPS.add(estimate.poolFactorBIPS)), "16000");
+    });
+
+    it("unprofitable liquidation is skipped", async () => {
+        const liquidator = new Liquidator(env.runner, env.trackedState, liquidatorAddress1);
+        liquidator.minProfitMarginBIPS = 5000;
+        const balanceBefore = await fAssetBalance(liquidatorAddress1);
+        liquidator.checkAgent(agent.agentVault.address);
+        await env.waitThreadsToFinish();
+        assert.equal(String(await fAssetBalance(liquidatorAddress1)), String(balanceBefore));
+    });
+
+    it("liquidation is sent through the submitter", async () => {
+        const liquidator = new Liquidator(env.runner, env.trackedState, liquidatorAddress1);
+        liquidator.submitter = new TransactionSubmitter(web3);
+        liquidator.submitter.receiptPollMS = 20;
+        const balanceBefore = await fAssetBalance(liquidatorAddress1);
+        liquidator.checkAgent(agent.agentVault.address);
+        await env.waitThreadsToFinish();
+        assert.isTrue((await fAssetBalance(liquidatorAddress1)).lt(balanceBefore));
+    });
+});
@@ -0,0 +1,91 @@
+import { MintingDefaultKeeper } from "../../../lib/actors/MintingDefaultKeeper";
+import { EventArgs } from "../../../lib/utils/events/common";
+import { toBN, toBNExp, toWei } from "../../../lib/utils/helpers";
+import { CollateralReserved } from "../../../typechain-truffle/AssetManager";
+import { Agent } from "../../integration/utils/Agent";
+import { Minter } from "../../integration/utils/Minter";
+import { BotTestEnvironment } from "../../utils/fasset/BotTestEnvironment";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`MintingDefaultKeeperTests.ts; ${getTestFile(__filename)}; Minting default keeper bot unit tests`, async accounts => {
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+    const keeperAddress1 = accounts[50];
+
+    let env: BotTestEnvironment;
+    let agent: Agent;
+    let minter: Minter;
+
+    async function reservedUBA() {
+        return toBN((await agent.getAgentInfo()).reservedUBA);
+    }
+
+    function skipToExpiration(crt: EventArgs<CollateralReserved>) {
+        env.chain.skipTimeTo(Number(crt.lastUnderlyingTimestamp) + 1);
+        env.chain.mineTo(Number(crt.lastUnderlyingBlock) + 1);
+        env.chain.mine(env.chain.finalizationBlocks + 1);
+    }
+
+    beforeEach(async () => {
+        env = await BotTestEnvironment.create(accounts);
+        agent = await Agent.createTest(env.context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8), toWei(3e8));
+        minter = await Minter.createTest(env.context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+    });
+
+    it("owner's keeper (work address) defaults unpaid minting", async () => {
+        const keeper = new MintingDefaultKeeper(env.runner, env.trackedState, agent.ownerWorkAddress);
+        const crt = await minter.reserveCollateral(agent.agentVault.address, 2);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.pendingReservations.size, 1);
+        skipToExpiration(crt);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.pendingReservations.size, 0);
+        assert.equal(String(await reservedUBA()), "0");
+    });
+
+    it("owner's keeper unsticks minting after the non-payment proof expires", async () => {
+        const keeper = new MintingDefaultKeeper(env.runner, env.trackedState, agent.ownerWorkAddress);
+        const crt = await minter.reserveCollateral(agent.agentVault.address, 2);
+        env.context.skipToProofUnavailability(crt.lastUnderlyingBlock, crt.lastUnderlyingTimestamp);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.pendingReservations.size, 0);
+        assert.equal(String(await reservedUBA()), "0");
+    });
+
+    it("paid reservation is not defaulted", async () => {
+        const keeper = new MintingDefaultKeeper(env.runner, env.trackedState, agent.ownerWorkAddress);
+        const crt = await minter.reserveCollateral(agent.agentVault.address, 2);
+        await minter.performMintingPayment(crt);
+        skipToExpiration(crt);
+        await env.waitThreadsToFinish();
+        assert.isTrue(keeper.paidReservations.has(crt.paymentReference));
+        assert.isTrue((await reservedUBA()).gtn(0));
+    });
+
+    it("reservation is defaulted if its payment is removed by reorganization", async () => {
+        const keeper = new MintingDefaultKeeper(env.runner, env.trackedState, agent.ownerWorkAddress);
+        const crt = await minter.reserveCollateral(agent.agentVault.address, 2);
+        const txHash = await minter.performMintingPayment(crt);
+        await env.waitThreadsToFinish();
+        assert.isTrue(keeper.paidReservations.has(crt.paymentReference));
+        env.chain.removeMinedTransaction(txHash);
+        await env.waitThreadsToFinish();
+        assert.isFalse(keeper.paidReservations.has(crt.paymentReference));
+        skipToExpiration(crt);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.pendingReservations.size, 0);
+        assert.equal(String(await reservedUBA()), "0");
+    });
+
+    it("keeper ignores agents it doesn't own", async () => {
+        const keeper = new MintingDefaultKeeper(env.runner, env.trackedState, keeperAddress1);
+        const crt = await minter.reserveCollateral(agent.agentVault.address, 2);
+        skipToExpiration(crt);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.pendingReservations.size, 0);
+        assert.isTrue((await reservedUBA()).gtn(0));
+    });
+});
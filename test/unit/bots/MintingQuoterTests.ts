@@ -0,0 +1,65 @@
+import { AssetManagerSettings } from "../../../lib/fasset/AssetManagerTypes";
+import { AMG_TOKENWEI_PRICE_SCALE } from "../../../lib/fasset/Conversions";
+import { AMGPrice } from "../../../lib/state/CollateralPrice";
+import { MintingAgentOffer, MintingQuoter } from "../../../lib/state/MintingQuoter";
+import { toBN } from "../../../lib/utils/helpers";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`MintingQuoterTests.ts; ${getTestFile(__filename)}; Minting quoter unit tests`, async accounts => {
+    // lot = 20 AMG = 20_000 UBA; 1 AMG costs 5000 NAT wei
+    const settings = {
+        lotSizeAMG: 20,
+        assetMintingDecimals: 3,
+        assetMintingGranularityUBA: 1000,
+        collateralReservationFeeBIPS: 100,
+    } as unknown as AssetManagerSettings;
+    const natAmgPrice = new AMGPrice(AMG_TOKENWEI_PRICE_SCALE.muln(5000), toBN(3), toBN(1000));
+
+    function offer(agentVault: string, feeBIPS: number, freeCollateralLots: number, poolFeeShareBIPS: number = 4000): MintingAgentOffer {
+        return { agentVault, feeBIPS: toBN(feeBIPS), poolFeeShareBIPS: toBN(poolFeeShareBIPS), freeCollateralLots: toBN(freeCollateralLots) };
+    }
+
+    let quoter: MintingQuoter;
+
+    beforeEach(() => {
+        quoter = new MintingQuoter(settings, natAmgPrice);
+    });
+
+    it("quote calculates fees like the asset manager", () => {
+        const quote = quoter.quote(offer("agent1", 250, 10), toBN(3));
+        assert.equal(String(quote.valueUBA), "60000");
+        assert.equal(String(quote.mintingFeeUBA), "1500");
+        // 40% of fee, rounded down to AMG
+        assert.equal(String(quote.poolFeeUBA), "0");
+        assert.equal(String(quote.totalUnderlyingUBA), "61500");
+        // 60 AMG * 5000 wei * 1%
+        assert.equal(String(quote.reservationFeeNATWei), "3000");
+    });
+
+    it("pool fee is rounded to AMG", () => {
+        const quote = quoter.quote(offer("agent1", 1000, 10, 5000), toBN(1));
+        assert.equal(String(quote.mintingFeeUBA), "2000");
+        assert.equal(String(quote.poolFeeUBA), "1000");
+    });
+
+    it("ranked quotes are sorted by fee and skip agents without enough free lots", () => {
+        const offers = [offer("agent1", 300, 10), offer("agent2", 100, 2), offer("agent3", 200, 5), offer("agent4", 200, 8)];
+        const quotes = quoter.rankedQuotes(offers, toBN(3));
+        assert.deepEqual(quotes.map(q => q.agentVault), ["agent4", "agent3", "agent1"]);
+    });
+
+    it("minting is split over the cheapest agents", () => {
+        const offers = [offer("agent1", 300, 10), offer("agent2", 100, 2), offer("agent3", 200, 0), offer("agent4", 200, 4)];
+        const plan = quoter.splitMinting(offers, toBN(9));
+        assert.deepEqual(plan.quotes.map(q => [q.agentVault, q.lots.toNumber()]), [["agent2", 2], ["agent4", 4], ["agent1", 3]]);
+        assert.equal(plan.unfilledLots.toNumber(), 0);
+        const expectedUnderlying = plan.quotes.reduce((sum, q) => sum.add(q.totalUnderlyingUBA), toBN(0));
+        assert.equal(String(plan.totalUnderlyingUBA), String(expectedUnderlying));
+    });
+
+    it("split reports lots that cannot be minted", () => {
+        const plan = quoter.splitMinting([offer("agent1", 100, 2), offer("agent2", 100, 3)], toBN(10));
+        assert.equal(plan.quotes.length, 2);
+        assert.equal(plan.unfilledLots.toNumber(), 5);
+    });
+});
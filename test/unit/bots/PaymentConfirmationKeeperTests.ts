@@ -0,0 +1,155 @@
+import { time } from "@openzeppelin/test-helpers";
+import { PaymentConfirmationKeeper } from "../../../lib/actors/PaymentConfirmationKeeper";
+import { toBN, toBNExp, toWei } from "../../../lib/utils/helpers";
+import { Agent } from "../../integration/utils/Agent";
+import { Minter } from "../../integration/utils/Minter";
+import { Redeemer } from "../../integration/utils/Redeemer";
+import { BotTestEnvironment } from "../../utils/fasset/BotTestEnvironment";
+import { MockClock } from "../../utils/fasset/MockClock";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`PaymentConfirmationKeeperTests.ts; ${getTestFile(__filename)}; Payment confirmation keeper bot unit tests`, async accounts => {
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+    const keeperAddress1 = accounts[50];
+
+    let clock: MockClock;
+    let env: BotTestEnvironment;
+    let agent: Agent;
+    let minter: Minter;
+    let redeemer: Redeemer;
+
+    function confirmationByOthersAfterSeconds() {
+        return toBN(env.trackedState.settings.confirmationByOthersAfterSeconds).addn(1);
+    }
+
+    // move both the chain time (for the asset manager) and the keeper's clock
+    async function skipConfirmationByOthersTime() {
+        await time.increase(confirmationByOthersAfterSeconds());
+        clock.skipTime(confirmationByOthersAfterSeconds());
+        env.chain.mine();
+    }
+
+    beforeEach(async () => {
+        const latestBlock = await web3.eth.getBlock('latest');
+        clock = new MockClock(toBN(latestBlock.timestamp));
+        env = await BotTestEnvironment.create(accounts, clock);
+        agent = await Agent.createTest(env.context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8), toWei(3e8));
+        minter = await Minter.createTest(env.context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+        redeemer = await Redeemer.create(env.context, customerAddress1, underlyingCustomer1);
+        await env.performMinting(minter, agent, 10);
+    });
+
+    it("confirms redemption payment that the agent didn't confirm and reads the reward from the receipt", async () => {
+        const keeper = new PaymentConfirmationKeeper(env.runner, env.trackedState, keeperAddress1);
+        const vaultCollateralToken = agent.vaultCollateralToken();
+        // keeper's existing balance must not be counted as reward
+        await vaultCollateralToken.mintAmount(keeperAddress1, toWei(1000));
+        const [requests] = await redeemer.requestRedemption(2);
+        const txHash = await agent.performRedemptionPayment(requests[0]);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.unconfirmedPayments.get(requests[0].paymentReference)?.transactionHash, txHash);
+        await skipConfirmationByOthersTime();
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.unconfirmedPayments.size, 0);
+        const reward = keeper.earnedRewards.get(vaultCollateralToken.address);
+        assert.isTrue(reward != null && reward.gtn(0));
+        assert.equal(String(await vaultCollateralToken.balanceOf(keeperAddress1)), String(toWei(1000).add(reward!)));
+    });
+
+    it("confirms announced underlying withdrawal that the agent didn't confirm", async () => {
+        const keeper = new PaymentConfirmationKeeper(env.runner, env.trackedState, keeperAddress1);
+        const agentInfo = await agent.getAgentInfo();
+        const announcement = await agent.announceUnderlyingWithdrawal();
+        await agent.performUnderlyingWithdrawal(announcement, toBN(agentInfo.freeUnderlyingBalanceUBA).divn(2));
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.unconfirmedPayments.size, 1);
+        await skipConfirmationByOthersTime();
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.unconfirmedPayments.size, 0);
+        assert.isTrue(keeper.earnedRewards.get(agent.vaultCollateralToken().address)?.gtn(0));
+    });
+
+    it("payment removed by reorganization is not confirmed until it is paid again", async () => {
+        const keeper = new PaymentConfirmationKeeper(env.runner, env.trackedState, keeperAddress1);
+        const [requests] = await redeemer.requestRedemption(2);
+        const txHash = await agent.performRedemptionPayment(requests[0]);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.unconfirmedPayments.get(requests[0].paymentReference)?.transactionHash, txHash);
+        env.chain.removeMinedTransaction(txHash);
+        await env.waitThreadsToFinish();
+        assert.isUndefined(keeper.unconfirmedPayments.get(requests[0].paymentReference)?.transactionHash);
+        await skipConfirmationByOthersTime();
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.unconfirmedPayments.size, 1);
+        assert.equal(keeper.earnedRewards.size, 0);
+        // the agent pays again (replacement transaction), which is then confirmed by the keeper
+        const replacementHash = await agent.performRedemptionPayment(requests[0]);
+        assert.notEqual(replacementHash, txHash);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.unconfirmedPayments.size, 0);
+        assert.isTrue(keeper.earnedRewards.get(agent.vaultCollateralToken().address)?.gtn(0));
+    });
+
+    it("request time is the time of the request's block", async () => {
+        const keeper = new PaymentConfirmationKeeper(env.runner, env.trackedState, keeperAddress1);
+        const [requests] = await redeemer.requestRedemption(2);
+        const requestBlockTimestamp = clock.evmTime.subn(1000);
+        clock.blockTimestamps.set(await web3.eth.getBlockNumber(), requestBlockTimestamp);
+        await env.waitThreadsToFinish();
+        const payment = keeper.unconfirmedPayments.get(requests[0].paymentReference);
+        assert.equal(String(payment?.requestTimestamp), String(requestBlockTimestamp));
+    });
+
+    it("request time that failed to load is loaded again before confirming", async () => {
+        const keeper = new PaymentConfirmationKeeper(env.runner, env.trackedState, keeperAddress1);
+        const blockTimestamp = clock.blockTimestamp.bind(clock);
+        let connected = false;
+        clock.blockTimestamp = async (blockNumber: number) => {
+            if (!connected) throw new Error("connection lost");
+            return await blockTimestamp(blockNumber);
+        };
+        const [requests] = await redeemer.requestRedemption(2);
+        await agent.performRedemptionPayment(requests[0]);
+        await env.waitThreadsToFinish();
+        assert.isUndefined(keeper.unconfirmedPayments.get(requests[0].paymentReference)?.requestTimestamp);
+        connected = true;
+        await skipConfirmationByOthersTime();
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.unconfirmedPayments.size, 0);
+        assert.isTrue(keeper.earnedRewards.get(agent.vaultCollateralToken().address)?.gtn(0));
+    });
+
+    it("waits until confirmation by others is allowed by its clock", async () => {
+        const keeper = new PaymentConfirmationKeeper(env.runner, env.trackedState, keeperAddress1);
+        const [requests] = await redeemer.requestRedemption(2);
+        await agent.performRedemptionPayment(requests[0]);
+        // chain time passes, but the keeper's clock doesn't
+        await time.increase(confirmationByOthersAfterSeconds());
+        env.chain.mine();
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.unconfirmedPayments.size, 1);
+        clock.skipTime(confirmationByOthersAfterSeconds());
+        env.chain.mine();
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.unconfirmedPayments.size, 0);
+    });
+
+    it("doesn't confirm before others are allowed to", async () => {
+        const keeper = new PaymentConfirmationKeeper(env.runner, env.trackedState, keeperAddress1);
+        const [requests] = await redeemer.requestRedemption(2);
+        await agent.performRedemptionPayment(requests[0]);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.unconfirmedPayments.size, 1);
+        assert.equal(keeper.earnedRewards.size, 0);
+        // the agent confirms in time
+        const payment = keeper.unconfirmedPayments.get(requests[0].paymentReference)!;
+        await agent.confirmActiveRedemptionPayment(requests[0], payment.transactionHash!);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.unconfirmedPayments.size, 0);
+        assert.equal(keeper.earnedRewards.size, 0);
+    });
+});
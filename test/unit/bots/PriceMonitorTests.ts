@@ -0,0 +1,143 @@
+import { CollateralType } from "../../../lib/fasset/AssetManagerTypes";
+import { PriceAlert, PriceMonitor } from "../../../lib/state/PriceMonitor";
+import { ScriptedPriceSource } from "../../../lib/state/TokenPriceSources";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { TriggerableEvent } from "../../../lib/utils/events/ScopedEvents";
+import { toBN } from "../../../lib/utils/helpers";
+import { MemoryLog } from "../../../lib/utils/logging";
+import { MockClock } from "../../utils/fasset/MockClock";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`PriceMonitorTests.ts; ${getTestFile(__filename)}; Price monitor unit tests`, async accounts => {
+    // CCB margins: USDC 1000 / 15000 = 666 BIPS, NAT 1000 / 20000 = 500 BIPS
+    const collaterals = [
+        { assetFtsoSymbol: "XRP", tokenFtsoSymbol: "USDC", directPricePair: false, minCollateralRatioBIPS: 15000, ccbMinCollateralRatioBIPS: 14000 },
+        { assetFtsoSymbol: "XRP", tokenFtsoSymbol: "NAT", directPricePair: false, minCollateralRatioBIPS: 20000, ccbMinCollateralRatioBIPS: 19000 },
+    ] as unknown as CollateralType[];
+    const prices = { XRP: 0.5, USDC: 1, NAT: 0.02 };
+
+    let clock: MockClock;
+    let source: ScriptedPriceSource;
+    let monitor: PriceMonitor;
+    let alerts: PriceAlert[];
+    let recovered: PriceAlert[];
+
+    function alertSummary(list: PriceAlert[] = alerts) {
+        return list.map(alert => alert.type === 'epochStuck' ? alert.type : `${alert.type}:${alert.symbol}${'trusted' in alert && alert.trusted ? ":trusted" : ""}`);
+    }
+
+    // new FTSO prices (and a price epoch) at the current time
+    function publishFtsoPrices(ftsoPrices: Record<string, number> = prices) {
+        source.setTime(clock.evmTime);
+        source.setPrices(ftsoPrices);
+        monitor.lastPriceEpochAt = clock.systemTimestamp();
+    }
+
+    beforeEach(() => {
+        clock = new MockClock(toBN(1000));
+        source = new ScriptedPriceSource();
+        const state = {
+            priceSource: source, clock, logger: new MemoryLog(),
+            settings: { maxTrustedPriceAgeSeconds: 600 },
+            collaterals: { list: collaterals },
+            pricesUpdated: new TriggerableEvent<void>(),
+        } as unknown as TrackedState;
+        monitor = new PriceMonitor(state);
+        alerts = [];
+        recovered = [];
+        for (const event of [monitor.stale, monitor.diverged, monitor.missing, monitor.epochStuck]) {
+            (event as TriggerableEvent<PriceAlert>).subscribe(alert => alerts.push(alert));
+        }
+        monitor.recovered.subscribe(alert => recovered.push(alert));
+        publishFtsoPrices();
+        source.setPrices(prices, 5, true);
+    });
+
+    it("thresholds are taken from asset manager and collateral settings", () => {
+        assert.equal(String(monitor.maxPriceAgeSeconds()), "600");
+        assert.equal(String(monitor.maxDivergenceBIPS("USDC")), "666");
+        assert.equal(String(monitor.maxDivergenceBIPS("NAT")), "500");
+        // asset symbol is used by both collaterals
+        assert.equal(String(monitor.maxDivergenceBIPS("XRP")), "500");
+    });
+
+    it("fresh matching prices cause no alerts", async () => {
+        await monitor.checkAll();
+        assert.deepEqual(alerts, []);
+        assert.equal(monitor.activeAlerts.size, 0);
+    });
+
+    it("old FTSO prices are reported as stale", async () => {
+        clock.skipTime(600);
+        monitor.lastPriceEpochAt = clock.systemTimestamp();
+        await monitor.checkAll();
+        assert.deepEqual(alerts, []);
+        clock.skipTime(1);
+        monitor.lastPriceEpochAt = clock.systemTimestamp();
+        await monitor.checkAll();
+        assert.deepEqual(alertSummary(), ["stale:XRP", "stale:USDC", "stale:NAT"]);
+    });
+
+    it("trusted prices older than the FTSO prices by more than maxTrustedPriceAgeSeconds are reported as stale", async () => {
+        clock.skipTime(601);
+        publishFtsoPrices();
+        await monitor.checkAll();
+        assert.deepEqual(alertSummary(), ["stale:XRP:trusted", "stale:USDC:trusted", "stale:NAT:trusted"]);
+        // each alert is emitted only once
+        await monitor.checkAll();
+        assert.equal(alerts.length, 3);
+    });
+
+    it("trusted prices that differ from FTSO prices by more than the CCB margin are reported", async () => {
+        // XRP: 400 BIPS, USDC: 500 BIPS (below 666)
+        source.setPrices({ XRP: 0.48, USDC: 0.95 }, 5, true);
+        await monitor.checkAll();
+        assert.deepEqual(alerts, []);
+        // XRP: 600 BIPS
+        source.setPrice("XRP", 0.47, 5, true);
+        await monitor.checkAll();
+        assert.deepEqual(alertSummary(), ["diverged:XRP"]);
+    });
+
+    it("prices the source can't provide are reported as missing", async () => {
+        source = new ScriptedPriceSource();
+        monitor.state.priceSource = source;
+        publishFtsoPrices({ XRP: 0.5, USDC: 0 });
+        await monitor.checkAll();
+        assert.deepEqual(alertSummary(), ["missing:USDC", "missing:NAT", "missing:NAT:trusted"]);
+    });
+
+    it("trusted prices that were never set are not checked", async () => {
+        source.setTime(0);
+        source.setPrices({ XRP: 0.1, USDC: 0.1, NAT: 0.1 }, 5, true);
+        await monitor.checkAll();
+        assert.deepEqual(alerts, []);
+    });
+
+    it("missing price epochs are reported", async () => {
+        clock.skipTime(601);
+        source.setTime(clock.evmTime);
+        source.setPrices(prices);
+        source.setPrices(prices, 5, true);
+        await monitor.checkAll();
+        assert.deepEqual(alertSummary(), ["epochStuck"]);
+        // started monitor tracks price epochs from the tracked state
+        monitor.start();
+        clock.skipTime(10);
+        monitor.state.pricesUpdated.trigger();
+        monitor.stop();
+        assert.equal(String(monitor.lastPriceEpochAt), String(clock.systemTimestamp()));
+    });
+
+    it("recovered is emitted when the alert condition disappears", async () => {
+        source.setPrice("XRP", 0.4, 5, true);
+        clock.skipTime(601);
+        await monitor.checkAll();
+        assert.deepEqual(alertSummary(), ["stale:XRP", "diverged:XRP", "stale:USDC", "stale:NAT", "epochStuck"]);
+        publishFtsoPrices();
+        source.setPrices(prices, 5, true);
+        await monitor.checkAll();
+        assert.deepEqual(alertSummary(recovered), ["stale:XRP", "diverged:XRP", "stale:USDC", "stale:NAT", "epochStuck"]);
+        assert.equal(monitor.activeAlerts.size, 0);
+    });
+});
@@ -0,0 +1,115 @@
+import { RedemptionDefaultKeeper } from "../../../lib/actors/RedemptionDefaultKeeper";
+import { EventArgs } from "../../../lib/utils/events/common";
+import { toBNExp, toWei } from "../../../lib/utils/helpers";
+import { MemoryLog } from "../../../lib/utils/logging";
+import { RedemptionRequested } from "../../../typechain-truffle/AssetManager";
+import { Agent } from "../../integration/utils/Agent";
+import { Minter } from "../../integration/utils/Minter";
+import { Redeemer } from "../../integration/utils/Redeemer";
+import { BotTestEnvironment } from "../../utils/fasset/BotTestEnvironment";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`RedemptionDefaultKeeperTests.ts; ${getTestFile(__filename)}; Redemption default keeper bot unit tests`, async accounts => {
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+    const executorAddress1 = accounts[40];
+    const keeperAddress1 = accounts[50];
+
+    let env: BotTestEnvironment;
+    let agent: Agent;
+    let minter: Minter;
+    let redeemer: Redeemer;
+
+    async function redeemerCollateralBalance() {
+        return await agent.vaultCollateralToken().balanceOf(customerAddress1);
+    }
+
+    function skipToExpiration(request: EventArgs<RedemptionRequested>) {
+        env.chain.skipTimeTo(Number(request.lastUnderlyingTimestamp) + 1);
+        env.chain.mineTo(Number(request.lastUnderlyingBlock) + 1);
+        env.chain.mine(env.chain.finalizationBlocks + 1);
+    }
+
+    beforeEach(async () => {
+        env = await BotTestEnvironment.create(accounts);
+        agent = await Agent.createTest(env.context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8), toWei(3e8));
+        minter = await Minter.createTest(env.context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+        redeemer = await Redeemer.create(env.context, customerAddress1, underlyingCustomer1);
+        await env.performMinting(minter, agent, 10);
+    });
+
+    it("redeemer's keeper defaults unpaid redemption", async () => {
+        const keeper = new RedemptionDefaultKeeper(env.runner, env.trackedState, customerAddress1);
+        const [requests] = await redeemer.requestRedemption(2);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.pendingRedemptions.size, 1);
+        skipToExpiration(requests[0]);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.pendingRedemptions.size, 0);
+        assert.isTrue((await redeemerCollateralBalance()).gtn(0));
+    });
+
+    it("executor's keeper defaults unpaid redemption", async () => {
+        const keeper = new RedemptionDefaultKeeper(env.runner, env.trackedState, executorAddress1);
+        const [requests] = await redeemer.requestRedemption(2, executorAddress1, toWei(1));
+        skipToExpiration(requests[0]);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.pendingRedemptions.size, 0);
+        assert.isTrue((await redeemerCollateralBalance()).gtn(0));
+    });
+
+    it("keeper that is neither redeemer, executor nor agent owner ignores the request", async () => {
+        const keeper = new RedemptionDefaultKeeper(env.runner, env.trackedState, keeperAddress1);
+        const [requests] = await redeemer.requestRedemption(2);
+        skipToExpiration(requests[0]);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.pendingRedemptions.size, 0);
+        assert.equal(String(await redeemerCollateralBalance()), "0");
+    });
+
+    it("redeemer's keeper leaves redemption with expired non-payment proof to the agent owner", async () => {
+        const keeper = new RedemptionDefaultKeeper(env.runner, env.trackedState, customerAddress1);
+        const [requests] = await redeemer.requestRedemption(2);
+        env.context.skipToProofUnavailability(requests[0].lastUnderlyingBlock, requests[0].lastUnderlyingTimestamp);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.pendingRedemptions.size, 0);
+        assert.equal(String(await redeemerCollateralBalance()), "0");
+    });
+
+    it("agent owner's keeper finishes redemption with expired non-payment proof", async () => {
+        const keeper = new RedemptionDefaultKeeper(env.runner, env.trackedState, agent.ownerWorkAddress);
+        const [requests] = await redeemer.requestRedemption(2);
+        env.context.skipToProofUnavailability(requests[0].lastUnderlyingBlock, requests[0].lastUnderlyingTimestamp);
+        await env.waitThreadsToFinish();
+        assert.equal(keeper.pendingRedemptions.size, 0);
+        assert.isTrue((await redeemerCollateralBalance()).gtn(0));
+    });
+
+    it("keeper defaults redemption of a configured redeemer from the redeemer's address", async () => {
+        const keeper = new RedemptionDefaultKeeper(env.runner, env.trackedState, keeperAddress1, new Set([customerAddress1]));
+        const [requests] = await redeemer.requestRedemption(2);
+        skipToExpiration(requests[0]);
+        await env.waitThreadsToFinish();
+        // the asset manager only accepts the default from the redeemer (keeper's address is not allowed)
+        assert.equal(keeper.pendingRedemptions.size, 0);
+        assert.isTrue((await redeemerCollateralBalance()).gtn(0));
+    });
+
+    it("paid redemption is not defaulted", async () => {
+        const keeper = new RedemptionDefaultKeeper(env.runner, env.trackedState, customerAddress1);
+        const memoryLog = new MemoryLog();
+        env.trackedState.logger = memoryLog;
+        const [requests] = await redeemer.requestRedemption(2);
+        await agent.performRedemptionPayment(requests[0]);
+        skipToExpiration(requests[0]);
+        await env.waitThreadsToFinish();
+        // payment is not confirmed yet, but the keeper doesn't try to prove non-payment
+        assert.isTrue(keeper.paidRedemptions.has(String(requests[0].requestId)));
+        assert.equal(keeper.pendingRedemptions.size, 1);
+        assert.isFalse(memoryLog.logs.some(line => line.includes("redemption default for request")));
+        assert.equal(String(await redeemerCollateralBalance()), "0");
+    });
+});
@@ -0,0 +1,90 @@
+import { AssetManagerSettings } from "../../../lib/fasset/AssetManagerTypes";
+import { TrackedRedemptionQueue } from "../../../lib/state/RedemptionQueue";
+import { EvmEventArgs } from "../../../lib/utils/events/IEvmEvents";
+import { toBN } from "../../../lib/utils/helpers";
+import { RedemptionTicketCreated, RedemptionTicketDeleted, RedemptionTicketUpdated } from "../../../typechain-truffle/AssetManager";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`RedemptionQueueTests.ts; ${getTestFile(__filename)}; Redemption queue unit tests`, async accounts => {
+    // lot = 20 AMG = 20_000 UBA
+    const settings = {
+        lotSizeAMG: 20,
+        assetMintingGranularityUBA: 1000,
+        maxRedeemedTickets: 3,
+        redemptionFeeBIPS: 200,
+    } as unknown as AssetManagerSettings;
+
+    let queue: TrackedRedemptionQueue;
+    let nextTicketId: number;
+
+    function createTicket(agentVault: string, lots: number, extraUBA: number = 0) {
+        const args = { redemptionTicketId: toBN(nextTicketId++), agentVault, ticketValueUBA: toBN(lots * 20_000 + extraUBA) };
+        queue.handleRedemptionTicketCreated(args as unknown as EvmEventArgs<RedemptionTicketCreated>);
+        return args.redemptionTicketId;
+    }
+
+    function predictedLots(lots: number) {
+        return queue.predictRedemption(settings, toBN(lots)).requests.map(request => [request.agentVault, request.lots.toNumber()]);
+    }
+
+    beforeEach(() => {
+        queue = new TrackedRedemptionQueue();
+        nextTicketId = 1;
+    });
+
+    it("tickets are tracked from created, updated and deleted events", () => {
+        const id1 = createTicket("agent1", 5);
+        const id2 = createTicket("agent2", 3);
+        queue.handleRedemptionTicketUpdated({ redemptionTicketId: id1, agentVault: "agent1", ticketValueUBA: toBN(40_000) } as unknown as EvmEventArgs<RedemptionTicketUpdated>);
+        assert.equal(String(queue.totalValueUBA()), "100000");
+        queue.handleRedemptionTicketDeleted({ redemptionTicketId: id2, agentVault: "agent2" } as unknown as EvmEventArgs<RedemptionTicketDeleted>);
+        assert.deepEqual(Array.from(queue.tickets.values()).map(ticket => [ticket.agentVault, String(ticket.valueUBA)]), [["agent1", "40000"]]);
+        // update of unknown ticket (e.g. created before tracking started) is ignored
+        queue.handleRedemptionTicketUpdated({ redemptionTicketId: toBN(100), agentVault: "agent3", ticketValueUBA: toBN(1) } as unknown as EvmEventArgs<RedemptionTicketUpdated>);
+        assert.equal(queue.tickets.size, 1);
+    });
+
+    it("redemption takes tickets in queue order and joins lots of the same agent", () => {
+        createTicket("agent1", 2);
+        createTicket("agent2", 3);
+        createTicket("agent1", 4);
+        const prediction = queue.predictRedemption(settings, toBN(7));
+        assert.deepEqual(prediction.requests.map(request => [request.agentVault, request.lots.toNumber()]), [["agent1", 4], ["agent2", 3]]);
+        assert.equal(String(prediction.redeemedLots), "7");
+        assert.equal(String(prediction.remainingLots), "0");
+    });
+
+    it("fee and payment are calculated per agent request", () => {
+        createTicket("agent1", 2);
+        createTicket("agent2", 3);
+        const prediction = queue.predictRedemption(settings, toBN(5));
+        const [request1, request2] = prediction.requests;
+        assert.equal(String(request1.valueUBA), "40000");
+        assert.equal(String(request1.feeUBA), "800");
+        assert.equal(String(request1.paymentUBA), "39200");
+        assert.equal(String(request2.paymentUBA), "58800");
+        assert.equal(String(prediction.totalPaymentUBA), "98000");
+    });
+
+    it("redemption is limited by maxRedeemedTickets", () => {
+        for (let i = 0; i < 5; i++) createTicket(`agent${i}`, 1);
+        const prediction = queue.predictRedemption(settings, toBN(5));
+        assert.deepEqual(prediction.requests.map(request => request.agentVault), ["agent0", "agent1", "agent2"]);
+        assert.equal(String(prediction.remainingLots), "2");
+    });
+
+    it("redemption stops at a ticket smaller than a lot", () => {
+        createTicket("agent1", 1, 5000);
+        createTicket("agent2", 0, 15000);
+        createTicket("agent3", 2);
+        assert.deepEqual(predictedLots(4), [["agent1", 1]]);
+    });
+
+    it("partially redeemed ticket only gives the requested lots", () => {
+        createTicket("agent1", 10);
+        assert.deepEqual(predictedLots(3), [["agent1", 3]]);
+        const prediction = queue.predictRedemption(settings, toBN(12));
+        assert.equal(String(prediction.redeemedLots), "10");
+        assert.equal(String(prediction.remainingLots), "2");
+    });
+});
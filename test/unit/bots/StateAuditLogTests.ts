@@ -0,0 +1,114 @@
+import { AgentStateSnapshot, AuditLogContinuityCheck, AuditRecord, StateAuditLog, agentInfoSnapshot } from "../../../lib/state/StateAuditLog";
+import { EventFormatter } from "../../../lib/utils/events/EventFormatter";
+import { EvmEvent } from "../../../lib/utils/events/common";
+import { toBN, toBNExp, toWei } from "../../../lib/utils/helpers";
+import { MemoryLog } from "../../../lib/utils/logging";
+import { Agent } from "../../integration/utils/Agent";
+import { Minter } from "../../integration/utils/Minter";
+import { Redeemer } from "../../integration/utils/Redeemer";
+import { BotTestEnvironment } from "../../utils/fasset/BotTestEnvironment";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`StateAuditLogTests.ts; ${getTestFile(__filename)}; State audit log unit tests`, async accounts => {
+    describe("continuity check", () => {
+        const agentVault = "0x00000000000000000000000000000000000000A1";
+
+        let log: MemoryLog;
+        let auditLog: StateAuditLog;
+        let blockNumber: number;
+
+        function snapshot(mintedUBA: number): AgentStateSnapshot {
+            return {
+                status: 0, publiclyAvailable: true, mintedUBA: String(mintedUBA), reservedUBA: "0", redeemingUBA: "0", poolRedeemingUBA: "0",
+                dustUBA: "0", underlyingBalanceUBA: String(mintedUBA), totalVaultCollateralWei: "1000", totalPoolCollateralNATWei: "1000",
+            };
+        }
+
+        function writeEvent(before?: number, after?: number) {
+            const event = { event: "MintingExecuted", address: "0x00000000000000000000000000000000000000F1", blockNumber: blockNumber++, logIndex: 0,
+                transactionHash: "0x01", args: { agentVault, mintedAmountUBA: toBN(100) } } as unknown as EvmEvent;
+            auditLog.writeEvent(event, [auditLog.agentDelta(agentVault, before != null ? snapshot(before) : undefined, after != null ? snapshot(after) : undefined)]);
+        }
+
+        function records() {
+            return log.logs.map(line => JSON.parse(line) as AuditRecord);
+        }
+
+        beforeEach(() => {
+            log = new MemoryLog();
+            const eventFormatter = new EventFormatter();
+            eventFormatter.addAddress("AGENT", agentVault);
+            auditLog = new StateAuditLog(log, eventFormatter);
+            blockNumber = 100;
+        });
+
+        it("records are written as one JSON line per event with formatted args", () => {
+            writeEvent(undefined, 100);
+            const [record] = records();
+            assert.equal(log.logs.length, 1);
+            assert.equal(record.event, "MintingExecuted");
+            assert.equal(record.blockNumber, 100);
+            assert.deepEqual(record.args, { agentVault: "AGENT", mintedAmountUBA: "100" });
+            assert.equal(record.agents[0].agentName, "AGENT");
+            assert.isUndefined(record.agents[0].before);
+            assert.equal(record.agents[0].after!.mintedUBA, "100");
+        });
+
+        it("continuous log has no errors and its last states match", () => {
+            writeEvent(undefined, 100);
+            writeEvent(100, 300);
+            writeEvent(300, 200);
+            const check = new AuditLogContinuityCheck().applyAll(records());
+            assert.equal(check.recordCount, 3);
+            assert.deepEqual(check.errors, []);
+            assert.deepEqual(check.verify(new Map([[agentVault, snapshot(200)]])), []);
+        });
+
+        it("state change without a record is reported as a gap", () => {
+            writeEvent(undefined, 100);
+            writeEvent(150, 300);
+            const check = new AuditLogContinuityCheck().applyAll(records());
+            assert.equal(check.errors.length, 1);
+            assert.include(check.errors[0], "AGENT state changed before MintingExecuted at block 101");
+            assert.include(check.errors[0], "mintedUBA: 100 != 150");
+        });
+
+        it("last states are compared with actual states", () => {
+            writeEvent(undefined, 100);
+            const check = new AuditLogContinuityCheck().applyAll(records());
+            assert.deepEqual(check.verify(new Map([[agentVault, snapshot(120)]])), ["AGENT: mintedUBA: 100 != 120", "AGENT: underlyingBalanceUBA: 100 != 120"]);
+            assert.deepEqual(check.verify(new Map()), ["AGENT: missing in actual state"]);
+            assert.deepEqual(check.verify(new Map([[agentVault, snapshot(100)], ["0xB2", snapshot(0)]])), ["0xB2: missing in audit log"]);
+        });
+    });
+
+    describe("tracked state audit log", () => {
+        const agentOwner1 = accounts[20];
+        const underlyingAgent1 = "Agent1";
+        const customerAddress1 = accounts[30];
+        const underlyingCustomer1 = "Customer1";
+
+        it("every handled event is written once, with the state change of all its handlers", async () => {
+            const env = await BotTestEnvironment.create(accounts);
+            const log = new MemoryLog();
+            env.trackedState.auditLog = new StateAuditLog(log, env.trackedState.eventFormatter);
+            const agent = await Agent.createTest(env.context, agentOwner1, underlyingAgent1);
+            await agent.depositCollateralsAndMakeAvailable(toWei(3e8), toWei(3e8));
+            const minter = await Minter.createTest(env.context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+            const redeemer = await Redeemer.create(env.context, customerAddress1, underlyingCustomer1);
+            await env.performMinting(minter, agent, 10);
+            await redeemer.requestRedemption(3);
+            await env.waitThreadsToFinish();
+            const records = log.logs.map(line => JSON.parse(line) as AuditRecord);
+            // MintingExecuted, RedemptionRequested and ticket events have several handlers in TrackedState
+            const eventIds = records.filter(record => record.transactionHash != null).map(record => `${record.transactionHash}:${record.logIndex}`);
+            assert.equal(new Set(eventIds).size, eventIds.length);
+            for (const eventName of ["MintingExecuted", "RedemptionRequested", "RedemptionTicketCreated", "RedemptionTicketUpdated"]) {
+                assert.equal(records.filter(record => record.event === eventName).length, 1, eventName);
+            }
+            const check = new AuditLogContinuityCheck().applyAll(records);
+            assert.deepEqual(check.errors, []);
+            assert.deepEqual(check.verify(new Map([[agent.agentVault.address, agentInfoSnapshot(await agent.getAgentInfo())]])), []);
+        });
+    });
+});
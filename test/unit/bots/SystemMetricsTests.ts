@@ -0,0 +1,157 @@
+import { AgentStatus, AssetManagerSettings, CollateralClass, CollateralType } from "../../../lib/fasset/AssetManagerTypes";
+import { AMG_TOKENWEI_PRICE_SCALE } from "../../../lib/fasset/Conversions";
+import { AMGPrice } from "../../../lib/state/CollateralPrice";
+import { TrackedSystemMetrics } from "../../../lib/state/SystemMetrics";
+import { InitialAgentData, TrackedAgentState } from "../../../lib/state/TrackedAgentState";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { BN_ZERO, toBN } from "../../../lib/utils/helpers";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`SystemMetricsTests.ts; ${getTestFile(__filename)}; System metrics unit tests`, async accounts => {
+    // lot = 20 AMG = 20_000 UBA; 1 AMG costs 2000 vault collateral wei or 10000 NAT wei
+    const settings = {
+        lotSizeAMG: 20,
+        assetMintingDecimals: 3,
+        assetMintingGranularityUBA: 1000,
+        mintingCapAMG: 0,
+    } as unknown as AssetManagerSettings;
+    const vaultCollateral = { collateralClass: CollateralClass.VAULT, token: "USDX", minCollateralRatioBIPS: 15000 } as unknown as CollateralType;
+    const poolCollateral = { collateralClass: CollateralClass.POOL, token: "WNAT", minCollateralRatioBIPS: 20000 } as unknown as CollateralType;
+    const vaultPrice = new AMGPrice(AMG_TOKENWEI_PRICE_SCALE.muln(2000), toBN(3), toBN(1000));
+    const poolPrice = new AMGPrice(AMG_TOKENWEI_PRICE_SCALE.muln(10000), toBN(3), toBN(1000));
+
+    let parent: TrackedState;
+    let agents: Map<string, TrackedAgentState>;
+    let metrics: TrackedSystemMetrics;
+
+    function createAgent(address: string, mintedUBA: number, vaultCollateralWei: number = 1_000_000, poolCollateralWei: number = 10_000_000) {
+        const data = {
+            agentVault: address, vaultCollateralToken: "USDX", poolWNat: "WNAT",
+            feeBIPS: 100, poolFeeShareBIPS: 4000, mintingVaultCollateralRatioBIPS: 16000, mintingPoolCollateralRatioBIPS: 25000,
+            buyFAssetByAgentFactorBIPS: 9000, poolExitCollateralRatioBIPS: 26000, poolTopupCollateralRatioBIPS: 22000, poolTopupTokenPriceFactorBIPS: 8000,
+        } as unknown as InitialAgentData;
+        const agent = new TrackedAgentState(parent, data);
+        agent.mintedUBA = toBN(mintedUBA);
+        agent.totalVaultCollateralWei = toBN(vaultCollateralWei);
+        agent.totalPoolCollateralNATWei = toBN(poolCollateralWei);
+        agent.publiclyAvailable = true;
+        agents.set(address, agent);
+        metrics.agentChanged(address);
+        return agent;
+    }
+
+    beforeEach(() => {
+        agents = new Map();
+        const collaterals = {
+            get: (collateralClass: CollateralClass, token: string) => collateralClass === CollateralClass.VAULT ? vaultCollateral : poolCollateral,
+            getOptional: (collateralClass: CollateralClass, token: string) => collateralClass === CollateralClass.VAULT ? vaultCollateral : poolCollateral,
+        };
+        const prices = { get: (collateral: CollateralType) => collateral === vaultCollateral ? vaultPrice : poolPrice };
+        parent = {
+            settings: { ...settings }, collaterals, prices, agents, fAssetSupply: BN_ZERO,
+            getAgent: (address: string) => agents.get(address),
+        } as unknown as TrackedState;
+        metrics = new TrackedSystemMetrics(parent);
+    });
+
+    describe("agent's free collateral lots", () => {
+        it("free lots are limited by the collateral with fewer free lots", () => {
+            // vault: 100 AMG * 2000 wei * 160% locked, lot needs 20 AMG * 2000 wei * 160% = 64_000 wei -> 680_000 / 64_000
+            // pool: 100 AMG * 10000 wei * 250% locked, lot needs 500_000 wei -> 7_500_000 / 500_000
+            const agent = createAgent("agent1", 100_000);
+            assert.equal(String(agent.freeCollateralLots()), "10");
+            agent.totalVaultCollateralWei = toBN(100_000_000);
+            assert.equal(String(agent.freeCollateralLots()), "15");
+        });
+
+        it("redeeming and announced withdrawal lock collateral", () => {
+            const agent = createAgent("agent1", 100_000);
+            // 20 AMG redeeming is locked at system minimum ratio (150%): 60_000 wei
+            agent.redeemingUBA = toBN(20_000);
+            assert.equal(String(agent.freeCollateralLots()), "9");
+            agent.announcedVaultCollateralWithdrawal = { amountWei: toBN(100_000), allowedAt: BN_ZERO };
+            assert.equal(String(agent.freeCollateralLots()), "8");
+        });
+
+        it("minting ratio is at least the system minimum", () => {
+            const agent = createAgent("agent1", 100_000);
+            // lot needs 20 AMG * 2000 wei * 150% = 60_000 wei; 300_000 locked
+            agent.mintingVaultCollateralRatioBIPS = toBN(10000);
+            assert.equal(String(agent.freeCollateralLots()), "11");
+        });
+
+        it("agent with less collateral than locked has no free lots", () => {
+            const agent = createAgent("agent1", 100_000, 100_000);
+            assert.equal(String(agent.freeCollateralLots()), "0");
+        });
+    });
+
+    describe("system metrics", () => {
+        it("totals follow changed agents", () => {
+            const agent1 = createAgent("agent1", 100_000);
+            createAgent("agent2", 50_000);
+            assert.equal(String(metrics.totalMintedUBA), "150000");
+            assert.equal(String(metrics.vaultCollateralWei.get("USDX")), "2000000");
+            assert.equal(String(metrics.totalPoolCollateralWei), "20000000");
+            assert.equal(metrics.agentsByStatus.get(AgentStatus.NORMAL), 2);
+            // changes are only accounted after agentChanged
+            agent1.mintedUBA = toBN(80_000);
+            agent1.reservedUBA = toBN(20_000);
+            agent1.status = AgentStatus.CCB;
+            assert.equal(String(metrics.totalMintedUBA), "150000");
+            metrics.agentChanged("agent1");
+            assert.equal(String(metrics.totalMintedUBA), "130000");
+            assert.equal(String(metrics.totalReservedUBA), "20000");
+            assert.equal(metrics.agentsByStatus.get(AgentStatus.NORMAL), 1);
+            assert.equal(metrics.agentsByStatus.get(AgentStatus.CCB), 1);
+        });
+
+        it("destroyed agent's contribution is removed", () => {
+            createAgent("agent1", 100_000);
+            createAgent("agent2", 50_000);
+            assert.equal(String(metrics.totalMintedUBA), "150000");
+            agents.delete("agent1");
+            metrics.agentChanged("agent1");
+            assert.equal(String(metrics.totalMintedUBA), "50000");
+            assert.equal(String(metrics.vaultCollateralWei.get("USDX")), "1000000");
+            assert.equal(metrics.agentsByStatus.get(AgentStatus.NORMAL), 1);
+        });
+
+        it("system collateral ratio is collateral value over all backed f-assets", () => {
+            assert.isUndefined(metrics.collateralRatioBIPS(CollateralClass.VAULT));
+            const agent1 = createAgent("agent1", 100_000);
+            createAgent("agent2", 100_000);
+            // 2_000_000 vault wei = 1000 AMG = 1_000_000 UBA backing 200_000 UBA
+            assert.equal(String(metrics.collateralRatioBIPS(CollateralClass.VAULT)), "50000");
+            // 20_000_000 NAT wei = 2000 AMG = 2_000_000 UBA
+            assert.equal(String(metrics.collateralRatioBIPS(CollateralClass.POOL)), "100000");
+            // redeeming backs vault collateral and pool redeeming backs pool collateral
+            agent1.redeemingUBA = toBN(50_000);
+            metrics.agentChanged("agent1");
+            assert.equal(String(metrics.collateralRatioBIPS(CollateralClass.VAULT)), "40000");
+            assert.equal(String(metrics.collateralRatioBIPS(CollateralClass.POOL)), "100000");
+        });
+
+        it("available free lots only count publicly available agents in normal status", () => {
+            createAgent("agent1", 100_000);
+            const agent2 = createAgent("agent2", 100_000);
+            const agent3 = createAgent("agent3", 100_000);
+            assert.equal(String(metrics.availableFreeLots()), "30");
+            agent2.publiclyAvailable = false;
+            agent3.status = AgentStatus.LIQUIDATION;
+            assert.equal(String(metrics.availableFreeLots()), "10");
+        });
+
+        it("minting cap headroom subtracts supply and reserved", () => {
+            assert.isUndefined(metrics.mintingCapHeadroomUBA());
+            parent.settings.mintingCapAMG = toBN(1000);
+            parent.fAssetSupply = toBN(200_000);
+            const agent = createAgent("agent1", 200_000);
+            agent.reservedUBA = toBN(100_000);
+            metrics.agentChanged("agent1");
+            assert.equal(String(metrics.mintingCapHeadroomUBA()), "700000");
+            parent.fAssetSupply = toBN(2_000_000);
+            assert.equal(String(metrics.mintingCapHeadroomUBA()), "0");
+        });
+    });
+});
@@ -0,0 +1,52 @@
+import { ScriptedPriceSource, TimeSeriesPriceSource } from "../../../lib/state/TokenPriceSources";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`TokenPriceSourcesTests.ts; ${getTestFile(__filename)}; Token price sources unit tests`, async accounts => {
+    const csv = [
+        "timestamp,symbol,price,decimals,trusted",
+        "100,XRP,0.5,5,false",
+        "200,XRP,0.45,5,false",
+        "300,XRP,0.4,5,false",
+        "150,XRP,0.49,5,true",
+        "100,FLR,0.02,5,false",
+    ].join("\n");
+
+    it("time series returns the last price before the set time", async () => {
+        const source = TimeSeriesPriceSource.fromCsv(csv);
+        source.setTime(250);
+        const price = await source.getRawPrice("XRP", false);
+        assert.equal(String(price.price), "45000");
+        assert.equal(String(price.timestamp), "200");
+        // without time, the latest price is used
+        source.time = undefined;
+        assert.equal(String((await source.getRawPrice("XRP", false)).price), "40000");
+    });
+
+    it("time series uses trusted price only when fresh enough", async () => {
+        const source = TimeSeriesPriceSource.fromCsv(csv);
+        source.setTime(200);
+        assert.equal(String((await source.getPrice("XRP", true, 60)).price), "49000");
+        assert.equal(String((await source.getPrice("XRP", true, 10)).price), "45000");
+        // symbols without trusted series fall back to ftso prices
+        assert.equal(String((await source.getPrice("FLR", true, 10)).price), "2000");
+    });
+
+    it("time series fails before the first price", async () => {
+        const source = TimeSeriesPriceSource.fromCsv(csv);
+        source.setTime(50);
+        await source.getRawPrice("XRP", false).then(() => assert.fail("should fail"), e => assert.include(String(e), "No price for XRP"));
+        assert.deepEqual(source.timestamps().map(Number), [100, 150, 200, 300]);
+    });
+
+    it("scripted source timestamps prices with its current time", async () => {
+        const source = new ScriptedPriceSource();
+        source.setTime(1000);
+        source.setPrices({ XRP: 0.5, FLR: "0.02" });
+        source.skipTime(100);
+        source.setPrice("XRP", 0.3);
+        const xrp = await source.getPrice("XRP");
+        assert.equal(String(xrp.price), "30000");
+        assert.equal(String(xrp.timestamp), "1100");
+        assert.equal(String((await source.getPrice("FLR", true, 300)).timestamp), "1000");
+    });
+});
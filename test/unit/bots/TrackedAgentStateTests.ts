@@ -0,0 +1,101 @@
+import { CollateralClass } from "../../../lib/fasset/AssetManagerTypes";
+import { TrackedAgentState } from "../../../lib/state/TrackedAgentState";
+import { EventArgs } from "../../../lib/utils/events/common";
+import { EvmEventArgs } from "../../../lib/utils/events/IEvmEvents";
+import { BN_ZERO, sleep, toBN, toBNExp, toWei } from "../../../lib/utils/helpers";
+import { MemoryLog } from "../../../lib/utils/logging";
+import { AgentCollateralTypeChanged, RedemptionRequested, RedemptionRequestIncomplete } from "../../../typechain-truffle/AssetManager";
+import { Agent } from "../../integration/utils/Agent";
+import { Minter } from "../../integration/utils/Minter";
+import { Redeemer } from "../../integration/utils/Redeemer";
+import { BotTestEnvironment } from "../../utils/fasset/BotTestEnvironment";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`TrackedAgentStateTests.ts; ${getTestFile(__filename)}; Tracked agent state unit tests`, async accounts => {
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+
+    let env: BotTestEnvironment;
+    let agent: Agent;
+    let minter: Minter;
+    let redeemer: Redeemer;
+    let trackedAgent: TrackedAgentState;
+
+    async function assertAgentMatchesChain() {
+        const agentInfo = await agent.getAgentInfo();
+        assert.equal(String(trackedAgent.mintedUBA), String(agentInfo.mintedUBA));
+        assert.equal(String(trackedAgent.redeemingUBA), String(agentInfo.redeemingUBA));
+        assert.equal(String(trackedAgent.poolRedeemingUBA), String(agentInfo.poolRedeemingUBA));
+        assert.equal(String(trackedAgent.underlyingBalanceUBA), String(agentInfo.underlyingBalanceUBA));
+        assert.equal(String(trackedAgent.totalVaultCollateralWei), String(agentInfo.totalVaultCollateralWei));
+    }
+
+    function skipToExpiration(request: EventArgs<RedemptionRequested>) {
+        env.chain.skipTimeTo(Number(request.lastUnderlyingTimestamp) + 1);
+        env.chain.mineTo(Number(request.lastUnderlyingBlock) + 1);
+        env.chain.mine(env.chain.finalizationBlocks + 1);
+    }
+
+    beforeEach(async () => {
+        env = await BotTestEnvironment.create(accounts);
+        agent = await Agent.createTest(env.context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8), toWei(3e8));
+        minter = await Minter.createTest(env.context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+        redeemer = await Redeemer.create(env.context, customerAddress1, underlyingCustomer1);
+        await env.performMinting(minter, agent, 10);
+        await env.waitThreadsToFinish();
+        trackedAgent = env.trackedState.getAgent(agent.agentVault.address)!;
+    });
+
+    it("tracks minted, redeeming and underlying balance through redemption and default", async () => {
+        await assertAgentMatchesChain();
+        const [requests] = await redeemer.requestRedemption(3);
+        await env.waitThreadsToFinish();
+        await assertAgentMatchesChain();
+        skipToExpiration(requests[0]);
+        await redeemer.redemptionPaymentDefault(requests[0]);
+        await env.waitThreadsToFinish();
+        await assertAgentMatchesChain();
+        assert.equal(String(trackedAgent.redeemingUBA), "0");
+    });
+
+    it("incomplete redemption request is recorded for the redeemer", async () => {
+        const incomplete: EvmEventArgs<RedemptionRequestIncomplete>[] = [];
+        env.trackedState.redemptionRequestIncomplete.subscribe(args => incomplete.push(args));
+        const [requests, remainingLots] = await redeemer.requestRedemption(15);
+        await env.waitThreadsToFinish();
+        assert.equal(requests.length, 1);
+        assert.equal(String(remainingLots), "5");
+        assert.equal(String(env.trackedState.unredeemedLots.get(customerAddress1)), "5");
+        assert.equal(incomplete.length, 1);
+        assert.equal(incomplete[0].redeemer, customerAddress1);
+        await assertAgentMatchesChain();
+    });
+
+    it("underlying top-up is tracked from the underlying balance change", async () => {
+        const txHash = await agent.performTopupPayment(1000);
+        await agent.confirmTopupPayment(txHash);
+        await env.waitThreadsToFinish();
+        await assertAgentMatchesChain();
+    });
+
+    it("collateral balance after collateral switch falls back to the latest balance when the historical one cannot be read", async () => {
+        const logger = new MemoryLog();
+        env.trackedState.logger = logger;
+        trackedAgent.totalVaultCollateralWei = BN_ZERO;
+        const args = {
+            agentVault: agent.agentVault.address,
+            collateralClass: toBN(CollateralClass.VAULT),
+            token: agent.vaultCollateralToken().address,
+            $event: { blockNumber: 1e9 },   // the node doesn't have this block
+        } as unknown as EvmEventArgs<AgentCollateralTypeChanged>;
+        trackedAgent.handleAgentCollateralTypeChanged(args);
+        for (let i = 0; i < 100 && trackedAgent.totalVaultCollateralWei.isZero(); i++) {
+            await sleep(20);
+        }
+        await assertAgentMatchesChain();
+        assert.isTrue(logger.logs.some(line => line.includes("using latest")));
+    });
+});
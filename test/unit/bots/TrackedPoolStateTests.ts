@@ -0,0 +1,128 @@
+import { AMG_TOKENWEI_PRICE_SCALE } from "../../../lib/fasset/Conversions";
+import { AMGPrice } from "../../../lib/state/CollateralPrice";
+import { TokenExitType, TrackedPoolState } from "../../../lib/state/TrackedPoolState";
+import { TrackedAgentState } from "../../../lib/state/TrackedAgentState";
+import { EvmEventArgs } from "../../../lib/utils/events/IEvmEvents";
+import { BN_ZERO, ZERO_ADDRESS, toBN } from "../../../lib/utils/helpers";
+import { MemoryLog } from "../../../lib/utils/logging";
+import { Entered, Exited, IncompleteSelfCloseExit } from "../../../typechain-truffle/CollateralPool";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`TrackedPoolStateTests.ts; ${getTestFile(__filename)}; Tracked collateral pool state unit tests`, async accounts => {
+    const holderA = "0x000000000000000000000000000000000000000A";
+    const holderB = "0x000000000000000000000000000000000000000B";
+    // 1 AMG = 1000 UBA costs 1000 NAT wei, so 1 UBA is worth 1 NAT wei
+    const natPrice = new AMGPrice(AMG_TOKENWEI_PRICE_SCALE.muln(1000), toBN(3), toBN(1000));
+
+    let logger: MemoryLog;
+    let agent: TrackedAgentState;
+    let pool: TrackedPoolState;
+
+    // as in CollateralPool.enter: tokens are minted and holder's fee debt is set
+    function enter(holder: string, tokens: number, newFAssetFeeDebt: number) {
+        pool.handlePoolTokenTransfer(ZERO_ADDRESS, holder, toBN(tokens));
+        pool.handleEntered({ tokenHolder: holder, newFAssetFeeDebt: toBN(newFAssetFeeDebt) } as unknown as EvmEventArgs<Entered>);
+    }
+
+    // as in CollateralPool.exit and selfCloseExit: received (or closed) fees leave the pool and tokens are burned
+    function exit(holder: string, tokens: number, feesUBA: BN, newFAssetFeeDebt: BN) {
+        pool.handleFAssetFeeWithdrawal(feesUBA);
+        pool.handleExited({ tokenHolder: holder, burnedTokensWei: toBN(tokens), newFAssetFeeDebt } as unknown as EvmEventArgs<Exited>);
+        pool.handlePoolTokenTransfer(holder, ZERO_ADDRESS, toBN(tokens));
+    }
+
+    function assertFees(expected: [string, number][]) {
+        assert.deepEqual(expected.map(([holder]) => [holder, pool.fAssetFeesOf(holder).toNumber()]), expected);
+        // the holders' fees always add up to the pool's fees
+        const total = expected.reduce((sum, [holder]) => sum.add(pool.fAssetFeesOf(holder)), BN_ZERO);
+        assert.equal(String(total), String(pool.totalFAssetFees));
+    }
+
+    beforeEach(() => {
+        logger = new MemoryLog();
+        const parent = {
+            logger,
+            settings: { assetMintingGranularityUBA: 1000 },
+            prices: { get: () => ({ amgPrice: natPrice }) },
+        };
+        agent = {
+            parent, name: () => "AGENT",
+            totalPoolCollateralNATWei: toBN(2_000_000), reservedUBA: BN_ZERO, mintedUBA: toBN(1_000_000), poolRedeemingUBA: BN_ZERO,
+            poolExitCollateralRatioBIPS: toBN(15000),
+        } as unknown as TrackedAgentState;
+        pool = new TrackedPoolState(agent);
+        // A enters the empty pool, fees are paid, B enters and gets debt for the existing fees, more fees are paid
+        enter(holderA, 1000, 0);
+        pool.handleFAssetFeeDeposit(toBN(300));
+        enter(holderB, 1000, 300);
+        pool.handleFAssetFeeDeposit(toBN(200));
+    });
+
+    it("enter sets holder's fee debt", () => {
+        assert.equal(String(pool.poolTokenSupply), "2000");
+        assert.equal(String(pool.totalFAssetFees), "500");
+        assert.equal(String(pool.totalFAssetFeeDebt), "300");
+        assert.equal(String(pool.virtualFAssetFeesOf(holderA)), "400");
+        assert.equal(String(pool.virtualFAssetFeesOf(holderB)), "400");
+        assertFees([[holderA, 400], [holderB, 100]]);
+        // entering again adds debt for the new tokens' share of the virtual fees
+        enter(holderB, 1000, 700);
+        assert.equal(String(pool.totalFAssetFeeDebt), "700");
+        assertFees([[holderA, 400], [holderB, 100]]);
+    });
+
+    it("exit amounts depend on the exit type", () => {
+        const amounts = (exitType: TokenExitType) => {
+            const result = pool.exitAmounts(holderB, toBN(500), exitType);
+            return [result.freeFAssetFeeShareUBA.toNumber(), result.debtFAssetFeeShareUBA.toNumber()];
+        };
+        assert.equal(String(pool.exitAmounts(holderB, toBN(500)).natShareWei), "500000");
+        assert.deepEqual(amounts(TokenExitType.MAXIMIZE_FEE_WITHDRAWAL), [100, 100]);
+        assert.deepEqual(amounts(TokenExitType.MINIMIZE_FEE_DEBT), [0, 200]);
+        assert.deepEqual(amounts(TokenExitType.KEEP_RATIO), [50, 150]);
+    });
+
+    it("exit burns tokens and withdraws holder's fees", () => {
+        const amounts = pool.exitAmounts(holderA, toBN(500));
+        assert.equal(String(amounts.freeFAssetFeeShareUBA), "200");
+        assert.equal(String(amounts.debtFAssetFeeShareUBA), "0");
+        exit(holderA, 500, amounts.freeFAssetFeeShareUBA, pool.fAssetFeeDebtOf(holderA).sub(amounts.debtFAssetFeeShareUBA));
+        assert.equal(String(pool.poolTokenSupply), "1500");
+        assert.equal(String(pool.poolTokensOf(holderA)), "500");
+        assert.equal(String(pool.totalFAssetFeeDebt), "300");
+        assertFees([[holderA, 200], [holderB, 100]]);
+    });
+
+    it("self-close exit uses holder's fees and reduces the debt", () => {
+        const amounts = pool.exitAmounts(holderB, toBN(500));
+        exit(holderB, 500, amounts.freeFAssetFeeShareUBA, pool.fAssetFeeDebtOf(holderB).sub(amounts.debtFAssetFeeShareUBA));
+        pool.handleIncompleteSelfCloseExit({ burnedTokensWei: toBN(500), redeemedFAssetUBA: toBN(50_000) } as unknown as EvmEventArgs<IncompleteSelfCloseExit>);
+        assert.equal(String(pool.totalFAssetFees), "400");
+        assert.equal(String(pool.totalFAssetFeeDebt), "200");
+        assert.equal(String(pool.fAssetFeeDebtOf(holderB)), "200");
+        assertFees([[holderA, 400], [holderB, 0]]);
+        assert.isTrue(logger.logs.some(line => line.includes("incomplete self-close exit")));
+    });
+
+    it("f-assets required for self-close exit keep pool above exit CR", () => {
+        // pool CR is 200%; after withdrawing 1_000_000 NAT wei, at most 666_666 UBA can stay backed at 150%
+        assert.equal(String(pool.fAssetRequiredForSelfCloseExit(holderA, toBN(1000))), String(333_334 - 400));
+        // small exits don't need f-assets
+        assert.equal(String(pool.fAssetRequiredForSelfCloseExit(holderA, toBN(100))), "0");
+        // below exit CR, the exit must keep pool CR
+        agent.mintedUBA = toBN(1_500_000);
+        assert.equal(String(pool.fAssetRequiredForSelfCloseExit(holderB, toBN(1000))), String(750_000 - 100));
+    });
+
+    it("only loaded holders' fee debts are known after initialization from chain state", () => {
+        assert.isTrue(pool.fAssetFeeDebtKnown(holderB));
+        const loaded = new TrackedPoolState(agent);
+        loaded.initializeState(toBN(2000), toBN(500), toBN(300));
+        loaded.loadHolder(holderA, toBN(1000), BN_ZERO);
+        assert.isTrue(loaded.fAssetFeeDebtKnown(holderA));
+        assert.isFalse(loaded.fAssetFeeDebtKnown(holderB));
+        // becomes known with the holder's first enter or exit
+        loaded.handleEntered({ tokenHolder: holderB, newFAssetFeeDebt: toBN(300) } as unknown as EvmEventArgs<Entered>);
+        assert.isTrue(loaded.fAssetFeeDebtKnown(holderB));
+    });
+});
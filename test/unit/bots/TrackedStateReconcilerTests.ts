@@ -0,0 +1,88 @@
+import { AgentStatus } from "../../../lib/fasset/AssetManagerTypes";
+import { TrackedStateReconciler } from "../../../lib/state/TrackedStateReconciler";
+import { sleep, toBNExp, toWei } from "../../../lib/utils/helpers";
+import { Agent } from "../../integration/utils/Agent";
+import { Minter } from "../../integration/utils/Minter";
+import { BotTestEnvironment } from "../../utils/fasset/BotTestEnvironment";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`TrackedStateReconcilerTests.ts; ${getTestFile(__filename)}; Tracked state reconciler unit tests`, async accounts => {
+    const agentOwner1 = accounts[20];
+    const underlyingAgent1 = "Agent1";
+    const customerAddress1 = accounts[30];
+    const underlyingCustomer1 = "Customer1";
+
+    let env: BotTestEnvironment;
+    let agent: Agent;
+    let reconciler: TrackedStateReconciler;
+
+    function trackedAgent() {
+        return env.trackedState.getAgent(agent.agentVault.address)!;
+    }
+
+    beforeEach(async () => {
+        env = await BotTestEnvironment.create(accounts);
+        agent = await Agent.createTest(env.context, agentOwner1, underlyingAgent1);
+        await agent.depositCollateralsAndMakeAvailable(toWei(3e8), toWei(3e8));
+        const minter = await Minter.createTest(env.context, customerAddress1, underlyingCustomer1, toBNExp(100_000, 18));
+        await env.performMinting(minter, agent, 10);
+        await env.waitThreadsToFinish();
+        reconciler = new TrackedStateReconciler(env.trackedState);
+        reconciler.recheckDelayMS = 0;
+    });
+
+    it("agent tracked from events matches the chain", async () => {
+        const drift = await reconciler.reconcileAgent(trackedAgent());
+        assert.deepEqual(drift, []);
+        assert.equal(reconciler.driftCount, 0);
+    });
+
+    it("persistent difference is reported", async () => {
+        const mintedUBA = trackedAgent().mintedUBA;
+        trackedAgent().mintedUBA = mintedUBA.addn(1000);
+        trackedAgent().status = AgentStatus.LIQUIDATION;
+        const drift = await reconciler.reconcileAgent(trackedAgent());
+        assert.deepEqual(drift.map(item => item.field), ["mintedUBA", "status"]);
+        assert.equal(drift[1].actual, "NORMAL");
+        assert.equal(drift[1].tracked, "LIQUIDATION");
+        assert.equal(reconciler.driftCount, 1);
+        // without resync, the tracked state stays as it was
+        assert.equal(String(trackedAgent().mintedUBA), String(mintedUBA.addn(1000)));
+    });
+
+    it("difference that disappears before the recheck is not reported", async () => {
+        reconciler.recheckDelayMS = 100;
+        const mintedUBA = trackedAgent().mintedUBA;
+        trackedAgent().mintedUBA = mintedUBA.addn(1000);
+        // e.g. an event that was still being processed
+        setTimeout(() => { trackedAgent().mintedUBA = mintedUBA; }, 10);
+        const drift = await reconciler.reconcileAgent(trackedAgent());
+        assert.deepEqual(drift, []);
+        assert.equal(reconciler.driftCount, 0);
+    });
+
+    it("resync replaces drifted agent with the state read from chain", async () => {
+        reconciler.resync = true;
+        const drifted = trackedAgent();
+        drifted.totalVaultCollateralWei = drifted.totalVaultCollateralWei.sub(toWei(1));
+        const drift = await reconciler.reconcileAgent(drifted);
+        assert.deepEqual(drift.map(item => item.field), ["totalVaultCollateralWei"]);
+        await sleep(100);   // pool handler registration is async
+        const resynced = trackedAgent();
+        assert.notEqual(resynced, drifted);
+        assert.deepEqual(await reconciler.reconcileAgent(resynced), []);
+    });
+
+    it("replaced agent doesn't handle pool events any more", async () => {
+        reconciler.resync = true;
+        const drifted = trackedAgent();
+        drifted.totalVaultCollateralWei = drifted.totalVaultCollateralWei.sub(toWei(1));
+        await reconciler.reconcileAgent(drifted);
+        await sleep(100);   // pool handler registration is async
+        const poolTokenSupply = drifted.pool.poolTokenSupply;
+        await agent.buyCollateralPoolTokens(toWei(1e8));
+        await env.waitThreadsToFinish();
+        assert.equal(String(drifted.pool.poolTokenSupply), String(poolTokenSupply));
+        assert.equal(String(trackedAgent().pool.poolTokenSupply), String(await agent.collateralPoolToken.totalSupply()));
+    });
+});
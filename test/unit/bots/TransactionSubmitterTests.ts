@@ -0,0 +1,218 @@
+import Web3 from "web3";
+import { errorIncluded, sleep, toBN } from "../../../lib/utils/helpers";
+import { TransactionSubmissionError, TransactionSubmitter } from "../../../lib/utils/transaction-submitter";
+import { getTestFile } from "../../utils/test-helpers";
+
+interface FakeTransaction {
+    hash: string;
+    from: string;
+    to: string;
+    input: string;
+    nonce: number;
+    gasPrice: number;
+    status: boolean;
+}
+
+type SendBehaviour = 'accept' | 'accept-and-lose-response' | 'mine-and-lose-response';
+
+// Minimal evm node with a mempool, just enough web3.eth for the submitter.
+class FakeEvmNode {
+    gasPrice = 100;
+    autoMine = true;
+    blocks: FakeTransaction[][] = [[]];
+    mempool: FakeTransaction[] = [];
+    sent: FakeTransaction[] = [];
+    sendBehaviours: SendBehaviour[] = [];
+    revertMessage?: string;
+    // revert reason of transactions executed in mined blocks (e.g. after a competing transaction changed the state)
+    executionRevertMessage?: string;
+    beforeSend?: (tx: { nonce: number }) => void;
+
+    minedCount(from: string) {
+        return this.blocks.flat().filter(tx => tx.from === from).length;
+    }
+
+    mine() {
+        const block: FakeTransaction[] = [];
+        for (const from of new Set(this.mempool.map(tx => tx.from))) {
+            for (let nonce = this.minedCount(from); ; nonce++) {
+                const candidates = this.mempool.filter(tx => tx.from === from && tx.nonce === nonce);
+                if (candidates.length === 0) break;
+                const mined = candidates.reduce((best, tx) => tx.gasPrice > best.gasPrice ? tx : best);
+                block.push({ ...mined, status: this.executionRevertMessage == null });
+            }
+        }
+        this.mempool = this.mempool.filter(tx => tx.nonce >= this.minedCount(tx.from) + block.filter(btx => btx.from === tx.from).length);
+        this.blocks.push(block);
+    }
+
+    private send(tx: { from: string, to: string, data: string, gasPrice: string, nonce: number }): string {
+        this.beforeSend?.(tx);
+        const transaction: FakeTransaction = { hash: `0x${tx.from}-${tx.nonce}-${tx.gasPrice}`, from: tx.from, to: tx.to, input: tx.data, nonce: tx.nonce, gasPrice: Number(tx.gasPrice), status: true };
+        if (transaction.nonce < this.minedCount(tx.from)) throw new Error("nonce too low");
+        if (this.mempool.some(mtx => mtx.hash === transaction.hash)) throw new Error("already known");
+        if (this.mempool.some(mtx => mtx.from === tx.from && mtx.nonce === tx.nonce && mtx.gasPrice * 1.1 > transaction.gasPrice)) {
+            throw new Error("replacement transaction underpriced");
+        }
+        this.mempool.push(transaction);
+        this.sent.push(transaction);
+        const behaviour = this.sendBehaviours.shift() ?? 'accept';
+        if (behaviour === 'mine-and-lose-response' || (behaviour === 'accept' && this.autoMine)) this.mine();
+        if (behaviour !== 'accept') throw new Error("read ECONNRESET");
+        return transaction.hash;
+    }
+
+    findTransaction(hash: string) {
+        const blockNumber = this.blocks.findIndex(block => block.some(tx => tx.hash === hash));
+        return blockNumber >= 0 ? { blockNumber, transaction: this.blocks[blockNumber].find(tx => tx.hash === hash)! } : null;
+    }
+
+    eth = {
+        estimateGas: async () => {
+            if (this.revertMessage) throw new Error(`VM Exception while processing transaction: reverted with reason string '${this.revertMessage}'`);
+            return 100_000;
+        },
+        getGasPrice: async () => String(this.gasPrice),
+        getBlockNumber: async () => this.blocks.length - 1,
+        getTransactionCount: async (from: string, blockTag: string) =>
+            this.minedCount(from) + (blockTag === 'pending' ? this.mempool.filter(tx => tx.from === from).length : 0),
+        getBlock: async (blockNumber: number) => ({ number: blockNumber, transactions: this.blocks[blockNumber] }),
+        getTransactionReceipt: async (hash: string) => {
+            const mined = this.findTransaction(hash);
+            if (mined == null) return null;
+            return { transactionHash: hash, blockNumber: mined.blockNumber, status: mined.transaction.status, logs: [] };
+        },
+        call: async () => {
+            if (this.executionRevertMessage) throw new Error(`execution reverted: ${this.executionRevertMessage}`);
+            return "0x";
+        },
+        sendTransaction: (tx: { from: string, to: string, data: string, gasPrice: string, nonce: number }) => {
+            const result = new Promise<string>((resolve) => resolve(this.send(tx)));
+            const promiEvent = {
+                once: (event: string, handler: (hash: string) => void) => {
+                    result.then(handler, () => {});
+                    return promiEvent;
+                },
+                catch: (handler: (e: unknown) => void) => result.catch(handler),
+            };
+            return promiEvent;
+        },
+    };
+}
+
+contract(`TransactionSubmitterTests.ts; ${getTestFile(__filename)}; Transaction submitter unit tests`, async accounts => {
+    const sender = "sender";
+    let node: FakeEvmNode;
+    let submitter: TransactionSubmitter;
+
+    beforeEach(() => {
+        node = new FakeEvmNode();
+        submitter = new TransactionSubmitter(node as unknown as Web3);
+        submitter.rpcRetryDelayMS = 1;
+        submitter.receiptPollMS = 5;
+        submitter.stuckTimeoutMS = 50;
+    });
+
+    it("concurrent submissions from one sender get consecutive nonces", async () => {
+        const receipts = await Promise.all([0, 1, 2, 3].map(i => submitter.submitData("contract", `0x0${i}`, { from: sender })));
+        assert.deepEqual(node.sent.map(tx => tx.nonce).sort(), [0, 1, 2, 3]);
+        assert.isTrue(receipts.every(receipt => receipt.status));
+        // other senders have their own nonces
+        await submitter.submitData("contract", "0x04", { from: "other" });
+        assert.equal(node.sent[node.sent.length - 1].nonce, 0);
+    });
+
+    it("reverted gas estimation doesn't use a nonce", async () => {
+        node.revertMessage = "invalid request id";
+        await submitter.submitData("contract", "0x01", { from: sender })
+            .then(() => assert.fail("should revert"), (e: TransactionSubmissionError) => {
+                assert.equal(e.kind, 'reverted');
+                assert.include(e.message, "invalid request id");
+            });
+        node.revertMessage = undefined;
+        await submitter.submitData("contract", "0x02", { from: sender });
+        assert.deepEqual(node.sent.map(tx => tx.nonce), [0]);
+    });
+
+    it("nonce of a transaction whose broadcast failed is reused, so later transactions don't wait behind a gap", async () => {
+        let rejected = false;
+        node.beforeSend = tx => {
+            if (tx.nonce === 0 && !rejected) {
+                rejected = true;
+                throw new Error("insufficient funds for gas * price + value");
+            }
+        };
+        const promiseA = submitter.submitData("contract", "0x00", { from: sender });
+        const promiseB = submitter.submitData("contract", "0x01", { from: sender });
+        await promiseA.then(() => assert.fail("should fail"), e => assert.include(String(e), "insufficient funds"));
+        // B was sent with nonce 1 and cannot be mined until nonce 0 is used
+        const receiptC = await submitter.submitData("contract", "0x02", { from: sender });
+        const receiptB = await promiseB;
+        assert.equal(node.sent.find(tx => tx.hash === receiptC.transactionHash)?.nonce, 0);
+        assert.equal(node.sent.find(tx => tx.hash === receiptB.transactionHash)?.nonce, 1);
+        assert.equal(node.minedCount(sender), 2);
+    });
+
+    it("stuck transaction is resubmitted with the same nonce and bumped gas price", async () => {
+        node.autoMine = false;
+        const resultPromise = submitter.submitData("contract", "0x01", { from: sender });
+        while (node.sent.length < 2) await sleep(5);
+        node.mine();
+        const receipt = await resultPromise;
+        assert.deepEqual(node.sent.map(tx => tx.nonce), [0, 0]);
+        assert.deepEqual(node.sent.map(tx => tx.gasPrice), [100, 112]);
+        assert.equal(receipt.transactionHash, node.sent[1].hash);
+    });
+
+    it("gas price is not bumped over maxGasPrice", async () => {
+        node.autoMine = false;
+        submitter.maxGasPrice = toBN(120);
+        await submitter.submitData("contract", "0x01", { from: sender })
+            .then(() => assert.fail("should time out"), (e: TransactionSubmissionError) => assert.equal(e.kind, 'timeout'));
+        assert.deepEqual(node.sent.map(tx => tx.gasPrice), [100, 112]);
+    });
+
+    it("resubmission failing with 'nonce too low' returns the receipt of the mined original", async () => {
+        node.autoMine = false;
+        // the original is mined just before the replacement is sent
+        node.beforeSend = () => {
+            if (node.sent.length === 1) node.mine();
+        };
+        const receipt = await submitter.submitData("contract", "0x01", { from: sender });
+        assert.equal(node.sent.length, 1);
+        assert.equal(receipt.transactionHash, node.sent[0].hash);
+    });
+
+    it("transaction reverted after mining reports the revert reason", async () => {
+        // estimation succeeds, but another challenger's transaction is mined first
+        node.beforeSend = () => {
+            node.executionRevertMessage = "chlg: already liquidating";
+        };
+        await submitter.submitData("contract", "0x01", { from: sender })
+            .then(() => assert.fail("should revert"), (e: TransactionSubmissionError) => {
+                assert.equal(e.kind, 'reverted');
+                assert.isTrue(errorIncluded(e, ['chlg: already liquidating']));
+            });
+    });
+
+    it("'already known' on a retried broadcast is treated as pending", async () => {
+        node.autoMine = false;
+        node.sendBehaviours = ['accept-and-lose-response'];
+        const resultPromise = submitter.submitData("contract", "0x01", { from: sender });
+        while (node.sent.length < 1) await sleep(5);
+        await sleep(20);
+        node.mine();
+        const receipt = await resultPromise;
+        assert.equal(node.sent.length, 1);
+        assert.equal(receipt.transactionHash, node.sent[0].hash);
+    });
+
+    it("'nonce too low' on a retried broadcast finds the mined transaction by nonce", async () => {
+        node.sendBehaviours = ['mine-and-lose-response'];
+        const receipt = await submitter.submitData("contract", "0x01", { from: sender });
+        assert.equal(receipt.transactionHash, node.sent[0].hash);
+        // the next transaction gets the next nonce
+        await submitter.submitData("contract", "0x02", { from: sender });
+        assert.deepEqual(node.sent.map(tx => tx.nonce), [0, 1]);
+    });
+});
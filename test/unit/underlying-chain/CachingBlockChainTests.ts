@@ -0,0 +1,126 @@
+import { CachingBlockChain } from "../../../lib/underlying-chain/CachingBlockChain";
+import { systemTimestamp, toBN } from "../../../lib/utils/helpers";
+import { MockChain, MockChainWallet } from "../../utils/fasset/MockChain";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`CachingBlockChainTests.ts; ${getTestFile(__filename)}; Caching block chain decorator unit tests`, async accounts => {
+    let chain: MockChain;
+    let wallet: MockChainWallet;
+    let calls: string[];
+
+    beforeEach(() => {
+        chain = new MockChain(toBN(systemTimestamp()));
+        chain.finalizationBlocks = 2;
+        wallet = new MockChainWallet(chain);
+        chain.mint("A", 1000);
+        calls = [];
+        // count calls to the wrapped chain
+        for (const method of ["getTransaction", "getTransactionBlock", "getBlock", "getBlockAt"] as const) {
+            const original = (chain[method] as Function).bind(chain);
+            (chain as any)[method] = async (arg: any) => {
+                calls.push(method);
+                return await original(arg);
+            };
+        }
+    });
+
+    it("caches only final transactions and blocks", async () => {
+        const cachingChain = new CachingBlockChain(chain);
+        const txHash = await wallet.addTransaction("A", "B", 100, null);
+        // not final yet - every call goes to the chain
+        await cachingChain.getTransactionBlock(txHash);
+        await cachingChain.getTransactionBlock(txHash);
+        assert.deepEqual(calls, ["getTransactionBlock", "getTransactionBlock"]);
+        chain.mine(2);
+        cachingChain.heightRefreshMS = 0;
+        calls = [];
+        const block = await cachingChain.getTransactionBlock(txHash);
+        await cachingChain.getTransaction(txHash);
+        // repeated calls are answered from cache
+        assert.deepEqual(await cachingChain.getTransactionBlock(txHash), block);
+        assert.equal((await cachingChain.getTransaction(txHash))!.hash, txHash);
+        assert.equal((await cachingChain.getBlockAt(block!.number))!.hash, block!.hash);
+        assert.equal((await cachingChain.getBlock(block!.hash))!.number, block!.number);
+        assert.equal((await cachingChain.getBlockAt(block!.number))!.hash, block!.hash);
+        assert.deepEqual(calls, ["getTransactionBlock", "getTransaction", "getBlockAt"]);
+        assert.equal(cachingChain.stats.hits, 4);
+        assert.equal(cachingChain.stats.misses, 5);
+    });
+
+    it("transaction is cached through a fetched block that contained it, without a block lookup on every fetch", async () => {
+        const cachingChain = new CachingBlockChain(chain);
+        cachingChain.heightRefreshMS = 0;
+        const txHash = await wallet.addTransaction("A", "B", 100, null);
+        const blockNumber = (await chain.getTransactionBlock(txHash))!.number;
+        calls = [];
+        // block unknown - only the transaction is fetched
+        await cachingChain.getTransaction(txHash);
+        await cachingChain.getTransaction(txHash);
+        assert.deepEqual(calls, ["getTransaction", "getTransaction"]);
+        // block known (e.g. from polling), but not final yet
+        calls = [];
+        await cachingChain.getBlockAt(blockNumber);
+        await cachingChain.getTransaction(txHash);
+        assert.deepEqual(calls, ["getBlockAt", "getTransaction"]);
+        // when the seen block is final, the transaction's block is looked up once and both are cached
+        chain.mine(2);
+        calls = [];
+        assert.equal((await cachingChain.getTransaction(txHash))!.hash, txHash);
+        assert.equal((await cachingChain.getTransaction(txHash))!.hash, txHash);
+        assert.isNotNull(await cachingChain.getTransactionBlock(txHash));
+        assert.deepEqual(calls, ["getTransaction", "getTransactionBlock"]);
+        // missing transactions are not cached
+        assert.isNull(await cachingChain.getTransaction("0x" + "ab".repeat(32)));
+        assert.isNull(await cachingChain.getTransaction("0x" + "ab".repeat(32)));
+        assert.deepEqual(calls, ["getTransaction", "getTransactionBlock", "getTransaction", "getTransaction"]);
+    });
+
+    it("evicts least recently used entries", async () => {
+        const cachingChain = new CachingBlockChain(chain);
+        cachingChain.maxCachedBlocks = 2;
+        chain.mine(5);
+        await cachingChain.getBlockAt(1);
+        await cachingChain.getBlockAt(2);
+        await cachingChain.getBlockAt(1);
+        await cachingChain.getBlockAt(3);   // evicts block 2
+        calls = [];
+        await cachingChain.getBlockAt(1);
+        await cachingChain.getBlockAt(3);
+        assert.deepEqual(calls, []);
+        await cachingChain.getBlockAt(2);
+        assert.deepEqual(calls, ["getBlockAt"]);
+    });
+
+    it("deduplicates concurrent requests", async () => {
+        const cachingChain = new CachingBlockChain(chain);
+        const txHash = await wallet.addTransaction("A", "B", 100, null);
+        const results = await Promise.all([1, 2, 3].map(() => cachingChain.getTransaction(txHash)));
+        assert.isTrue(results.every(tx => tx === results[0]));
+        assert.deepEqual(calls, ["getTransaction"]);
+        assert.equal(cachingChain.stats.deduplicated, 2);
+    });
+
+    it("retries transient errors with backoff and limits request rate", async () => {
+        const cachingChain = new CachingBlockChain(chain);
+        cachingChain.retryDelayMS = 10;
+        cachingChain.requestsPerSecond = 50;
+        chain.mine(3);
+        let failures = 2;
+        const getBlockAt = chain.getBlockAt.bind(chain);
+        chain.getBlockAt = async (blockNumber: number) => {
+            if (failures-- > 0) throw new Error("Invalid response from indexer (status 429): Too Many Requests");
+            return await getBlockAt(blockNumber);
+        };
+        const start = Date.now();
+        const block = await cachingChain.getBlockAt(1);
+        assert.equal(block!.number, 1);
+        assert.equal(cachingChain.stats.retries, 2);
+        // 3 requests at most 50 per second + backoff of 10 and 20 ms
+        assert.isAtLeast(Date.now() - start, 40);
+        // other errors are not retried
+        chain.getBlockAt = async () => { throw new Error("Invalid block number"); };
+        await cachingChain.getBlockAt(2)
+            .then(() => assert.fail("should fail"), e => assert.include(String(e), "Invalid block number"));
+        assert.equal(cachingChain.stats.retries, 2);
+    });
+});
@@ -0,0 +1,126 @@
+import { ITransaction } from "../../../lib/underlying-chain/interfaces/IBlockChain";
+import { BlockChainEventsCursor, PollingBlockChainEvents } from "../../../lib/underlying-chain/PollingBlockChainEvents";
+import { systemTimestamp, toBN } from "../../../lib/utils/helpers";
+import { MemoryStore } from "../../../lib/utils/persistent-store";
+import { MockChain, MockChainWallet } from "../../utils/fasset/MockChain";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`PollingBlockChainEventsTests.ts; ${getTestFile(__filename)}; Polling chain events unit tests`, async accounts => {
+    const reference = "0x4642505246410001000000000000000000000000000000000000000000000001";
+
+    let chain: MockChain;
+    let wallet: MockChainWallet;
+    let store: MemoryStore<BlockChainEventsCursor>;
+
+    beforeEach(() => {
+        chain = new MockChain(toBN(systemTimestamp()));
+        wallet = new MockChainWallet(chain);
+        chain.mint("A", 1000);
+        chain.mine(3);
+        store = new MemoryStore();
+    });
+
+    it("calls handlers for new blocks in order and applies filters", async () => {
+        const events = new PollingBlockChainEvents(chain, store);
+        const blocks: number[] = [];
+        const byReference: ITransaction[] = [];
+        const fromB: ITransaction[] = [];
+        events.addBlockHandler(blockId => blocks.push(blockId.number));
+        events.addTransactionHandler({ reference }, tx => byReference.push(tx));
+        events.addTransactionHandler({ from: "B" }, tx => fromB.push(tx));
+        // first poll starts at current height
+        await events.poll();
+        assert.equal(events.lastBlock, chain.blockHeight());
+        assert.deepEqual(blocks, []);
+        const start = chain.blockHeight();
+        await wallet.addTransaction("A", "B", 100, reference);
+        await wallet.addTransaction("B", "C", 50, null);
+        chain.mine(2);
+        await events.poll();
+        assert.deepEqual(blocks, [start + 1, start + 2, start + 3, start + 4]);
+        assert.equal(byReference.length, 1);
+        assert.equal(byReference[0].reference, reference);
+        assert.deepEqual(fromB.map(tx => tx.outputs[0][0]), ["C"]);
+        assert.throws(() => events.addTransactionHandler({ amount: "100" }, () => {}), "Invalid transaction filter amount");
+    });
+
+    it("resumes from saved cursor after restart", async () => {
+        const events = new PollingBlockChainEvents(chain, store);
+        await events.poll();
+        const lastBlock = chain.blockHeight();
+        chain.mine(2);
+        // restarted events: the blocks mined while it was down are processed
+        const restarted = new PollingBlockChainEvents(chain, store);
+        assert.equal(restarted.lastBlock, lastBlock);
+        const blocks: number[] = [];
+        restarted.addBlockHandler(blockId => blocks.push(blockId.number));
+        await restarted.poll();
+        assert.deepEqual(blocks, [lastBlock + 1, lastBlock + 2]);
+        assert.equal(store.load()!.lastBlock, lastBlock + 2);
+    });
+
+    it("only fetches transactions that handlers may need", async () => {
+        const events = new PollingBlockChainEvents(chain);
+        await events.poll();
+        const txHash = await wallet.addTransaction("A", "B", 100, null);
+        await wallet.addTransaction("A", "C", 100, null);
+        let fetched = 0;
+        const getTransaction = chain.getTransaction.bind(chain);
+        chain.getTransaction = async (hash: string) => {
+            fetched++;
+            return await getTransaction(hash);
+        };
+        const found: string[] = [];
+        events.addTransactionHandler({ hash: txHash }, tx => found.push(tx.hash));
+        await events.poll();
+        assert.deepEqual(found, [txHash]);
+        assert.equal(fetched, 1);
+    });
+
+    it("reports removed transactions and re-processes blocks after reorganization", async () => {
+        const events = new PollingBlockChainEvents(chain, store);
+        await events.poll();
+        const txHash = await wallet.addTransaction("A", "B", 100, reference);
+        const blocks: number[] = [];
+        const found: string[] = [];
+        const removed: string[] = [];
+        events.addBlockHandler(blockId => blocks.push(blockId.number));
+        events.addTransactionHandler({ reference }, tx => found.push(tx.hash));
+        events.addTransactionRemovedHandler({ reference }, tx => removed.push(tx.hash));
+        await events.poll();
+        assert.deepEqual(found, [txHash]);
+        const txBlock = (await chain.getTransactionBlock(txHash))!.number;
+        // the transaction is replaced in a reorganization (which changes hashes of its block)
+        chain.modifyMinedTransaction(txHash, tx => ({ ...tx, outputs: [["C", toBN(100)]] }), true);
+        const replacement = (await chain.getBlockAt(txBlock))!.transactions[0];
+        blocks.length = 0;
+        await events.poll();
+        assert.deepEqual(removed, [txHash]);
+        assert.deepEqual(found, [txHash, replacement]);
+        // the reorganized block is processed again
+        assert.deepEqual(blocks, [txBlock]);
+        assert.equal(events.lastBlock, chain.blockHeight());
+    });
+
+    it("reports removal of transactions from blocks restored from cursor", async () => {
+        const events = new PollingBlockChainEvents(chain, store);
+        await events.poll();
+        const txHash = await wallet.addTransaction("A", "B", 100, reference);
+        const removed: string[] = [];
+        events.addTransactionRemovedHandler(null, tx => removed.push(tx.hash));
+        await events.poll();
+        const txBlock = (await chain.getTransactionBlock(txHash))!.number;
+        assert.equal(events.lastBlock, txBlock);
+        // restarted events restore the recent transactions from the cursor
+        const restarted = new PollingBlockChainEvents(chain, store);
+        assert.deepEqual(restarted.recentBlocks.map(recent => recent.number), events.recentBlocks.map(recent => recent.number));
+        assert.equal(String(restarted.recentBlocks[restarted.recentBlocks.length - 1].transactions[0].inputs[0][1]), "100");
+        restarted.addTransactionRemovedHandler(null, tx => removed.push(tx.hash));
+        // the block with transaction is replaced by an empty one and a new block is mined on top
+        chain.modifyMinedBlock(txBlock, block => { block.transactions = []; }, true);
+        chain.mine();
+        await restarted.poll();
+        assert.deepEqual(removed, [txHash]);
+        assert.equal(restarted.lastBlock, chain.blockHeight());
+    });
+});
@@ -0,0 +1,125 @@
+import { TxInputOutput } from "../../../lib/underlying-chain/interfaces/IBlockChain";
+import { SourceId } from "../../../lib/underlying-chain/SourceId";
+import { UtxoBlockChain } from "../../../lib/underlying-chain/UtxoBlockChain";
+import { UtxoWallet } from "../../../lib/underlying-chain/UtxoWallet";
+import { JsonRpcFixture, JsonRpcStub } from "../../utils/JsonRpcStub";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`UtxoBlockChainTests.ts; ${getTestFile(__filename)}; Bitcoin-family chain adapter unit tests (recorded rpc fixtures)`, async accounts => {
+    const fixtures = JsonRpcStub.load(`${__dirname}/fixtures/btc-rpc.json`).fixtures;
+    const paymentTx = "0x5f3c2a1b0e9d8c7b6a5f4e3d2c1b0a99887766554433221100ffeeddccbbaa99";
+    const coinbaseTx = "0x3333333333333333333333333333333333333333333333333333333333333333";
+    const blockHash = "0x00000000000000000002a7c4c1e48d76c5a37902165a270156b7a8d72728a054";
+    const source = "bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq";
+    const target = "3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy";
+    const reference = "0x4642505246410002000000000000000000000000000000000000000000000123";
+
+    let stub: JsonRpcStub;
+    let chain: UtxoBlockChain;
+
+    async function startStub(fixtureList: JsonRpcFixture[], sourceId: SourceId = SourceId.BTC) {
+        stub = new JsonRpcStub(fixtureList);
+        chain = UtxoBlockChain.forUrl(await stub.start(), sourceId);
+    }
+
+    function ioList(ios: TxInputOutput[]) {
+        return ios.map(([address, amount]) => [address, String(amount)]);
+    }
+
+    afterEach(async () => {
+        await stub.stop();
+    });
+
+    it("decodes transaction inputs, outputs and OP_RETURN reference", async () => {
+        await startStub(fixtures);
+        const tx = await chain.getTransaction(paymentTx);
+        assert.equal(tx!.hash, paymentTx);
+        assert.equal(tx!.reference, reference);
+        // first input is resolved from the previous transaction, second from prevout
+        assert.deepEqual(ioList(tx!.inputs), [[source, "100000"], ["1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2", "80000"]]);
+        assert.deepEqual(ioList(tx!.outputs), [[target, "150000"], [source, "25830"]]);
+        // coinbase has a single pseudo input and no reference (witness commitment is not 32 bytes)
+        const coinbase = await chain.getTransaction(coinbaseTx);
+        assert.deepEqual(ioList(coinbase!.inputs), [["", "625000000"]]);
+        assert.isNull(coinbase!.reference);
+        assert.isNull(await chain.getTransaction("0x" + "ab".repeat(32)));
+    });
+
+    it("doesn't report mempool transactions until they are in a block", async () => {
+        await startStub(fixtures);
+        const mempoolTx = "0x" + "cc".repeat(32);
+        assert.isNull(await chain.getTransaction(mempoolTx));
+        assert.isNull(await chain.getTransactionBlock(mempoolTx));
+    });
+
+    it("looks up blocks and reports per chain finalization", async () => {
+        await startStub(fixtures);
+        assert.equal(chain.finalizationBlocks, 6);
+        assert.equal(await chain.getBlockHeight(), 2500002);
+        const block = await chain.getBlockAt(2500000);
+        assert.equal(block!.hash, blockHash);
+        assert.equal(block!.timestamp, 1697700000);
+        assert.deepEqual(block!.transactions, [coinbaseTx, paymentTx]);
+        assert.isNull(await chain.getBlockAt(3000000));
+        assert.isNull(await chain.getBlock("0x" + "ab".repeat(32)));
+        assert.deepEqual(await chain.getTransactionBlock(paymentTx), { hash: blockHash, number: 2500000 });
+        assert.equal(String(await chain.getBalance(source)), "12345678");
+    });
+
+    it("uses wallet utxos for balance when scantxoutset is not available", async () => {
+        await startStub(fixtures.filter(fixture => fixture.method !== "scantxoutset"), SourceId.DOGE);
+        assert.equal(chain.finalizationBlocks, 60);
+        assert.equal(String(await chain.getBalance(source)), "100546");
+    });
+
+    it("converts amounts of 10M coins or more without rounding", async () => {
+        const withAmounts = (method: string, update: (result: any) => void) => fixtures.map(fixture => {
+            if (fixture.method !== method) return fixture;
+            const result = JSON.parse(JSON.stringify(fixture.result));
+            update(result);
+            return { ...fixture, result };
+        });
+        await startStub(withAmounts("scantxoutset", result => result.total_amount = 20999999.99999999));
+        assert.equal(String(await chain.getBalance(source)), "2099999999999999");
+        await stub.stop();
+        await startStub(withAmounts("listunspent", result => result[0].amount = 12345678.12345678).filter(fixture => fixture.method !== "scantxoutset"));
+        // wallet utxos 12345678.12345678 and 0.00000546
+        assert.equal(String(await chain.getBalance(source)), "1234567812346224");
+    });
+
+    it("selects coins and estimates fee for single payment", async () => {
+        await startStub(fixtures);
+        const wallet = new UtxoWallet(chain);
+        const txHash = await wallet.addTransaction(source, target, 150_000, reference);
+        assert.equal(txHash, "0xb7c0e4f1a2d3c4b5a6978877665544332211ffeeddccbbaa9988776655443322");
+        const [inputs, outputs] = stub.requests.find(request => request.method === "createrawtransaction")!.params as any[];
+        // largest utxos first, until amount + fee for (inputs, target + change + data outputs) at 10 sat/byte is covered
+        assert.deepEqual(inputs.map((input: any) => `${input.txid.slice(0, 4)}:${input.vout}`), ["7777:0", "8888:1"]);
+        assert.deepEqual(outputs, { [target]: "0.00150000", [source]: "0.00025830", data: reference.slice(2) });
+        assert.isTrue(stub.requests.some(request => request.method === "signrawtransactionwithwallet"));
+    });
+
+    it("creates concurrent transactions from one address one at a time", async () => {
+        await startStub(fixtures);
+        const wallet = new UtxoWallet(chain);
+        await Promise.all([
+            wallet.addTransaction(source, target, 150_000, reference),
+            wallet.addMultiTransaction({ [source]: 200_000 }, { [target]: 150_000 }, null),
+        ]);
+        // the second transaction lists utxos only after the first was sent (and its inputs were marked spent by the node's wallet)
+        const walletMethods = stub.requests.map(request => request.method).filter(method => method === "listunspent" || method === "sendrawtransaction");
+        assert.deepEqual(walletMethods, ["listunspent", "sendrawtransaction", "listunspent", "sendrawtransaction"]);
+    });
+
+    it("uses spent amount minus fee budget for multi transaction", async () => {
+        await startStub(fixtures);
+        const wallet = new UtxoWallet(chain);
+        await wallet.addMultiTransaction({ [source]: 200_000 }, { [target]: 150_000 }, null);
+        const [inputs, outputs] = stub.requests.find(request => request.method === "createrawtransaction")!.params as any[];
+        assert.equal(inputs.length, 3);
+        // change = 210000 - 200000, plus unused fee budget 50000 - 5220
+        assert.deepEqual(outputs, { [target]: "0.00150000", [source]: "0.00054780" });
+        await wallet.addMultiTransaction({ [source]: 150_000 }, { [target]: 150_000 }, null)
+            .then(() => assert.fail("should fail"), e => assert.include(String(e), "Fee budget 0 is less than estimated fee"));
+    });
+});
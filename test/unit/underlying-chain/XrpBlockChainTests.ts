@@ -0,0 +1,149 @@
+import { createHash } from "crypto";
+import { TX_BLOCKED, TX_SUCCESS } from "../../../lib/underlying-chain/interfaces/IBlockChain";
+import { XrpBlockChain, XrpBlockChainEvents } from "../../../lib/underlying-chain/XrpBlockChain";
+import { XrpWallet } from "../../../lib/underlying-chain/XrpWallet";
+import { JsonRpcStub } from "../../utils/JsonRpcStub";
+import { getTestFile } from "../../utils/test-helpers";
+
+contract(`XrpBlockChainTests.ts; ${getTestFile(__filename)}; XRP ledger adapter unit tests (recorded rpc fixtures)`, async accounts => {
+    const fixtures = JsonRpcStub.load(`${__dirname}/fixtures/xrp-rpc.json`).fixtures;
+    const successTx = "0x4e7a6c3b1f1a2d51c7c6e0c6a1a3ae4c0b9e2e4c6b1e7a11d2e3f40516273849";
+    const blockedTx = "0x9b1f3e2a7c5d4b6e8f0a1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f";
+    const ledgerHash = "0x3f1c7a0e5b9d2f6a4c8e1b5d9f3a7c0e4b8d2f6a1c5e9b3d7f0a4c8e2b6d1f5a";
+    const sender = "rHb9CJAWyB4rj91VRWn96DkukG4bwdtyTh";
+    const receiver = "rPT1Sjq2YGrBMTttX4GZHjKu9dyfzbpAYe";
+
+    const seed = "sEdSKaCy2JT7JaM7v95H9SxkhP9wS2r";
+    const xrplJsSignedBlob = "12000022000000002404E1D8F5201B04E200176140000000000F424068400000000000000C7321ED01FA53FA5A7E77798F882ECE20B1ABC00BB358A9E55A202D0D0676BD0CE37A63" +
+        "7440B18E10AFB55774CF680F5773504360AEB6E52A1B6D28FA0115DD61DE5290167B8EB716A11E8812BAF9F7BBA775AEDFD0834D1B8A2A2193053CA328E1C6A2DF0F" +
+        "8114D28B177E48D9A8D057E70F7E464B498367281B988314F667B0CA50CC7709A220B0561B85E53A48461FA8F9EA7D204642505246410002000000000000000000000000000000000000000000000123E1F1";
+
+    let stub: JsonRpcStub;
+    let chain: XrpBlockChain;
+
+    beforeEach(async () => {
+        stub = new JsonRpcStub(fixtures);
+        chain = XrpBlockChain.forUrl(await stub.start());
+    });
+
+    afterEach(async () => {
+        await stub.stop();
+    });
+
+    it("maps successful payment with memo reference", async () => {
+        const tx = await chain.getTransaction(successTx);
+        assert.isNotNull(tx);
+        assert.equal(tx!.hash, successTx);
+        assert.equal(tx!.status, TX_SUCCESS);
+        assert.equal(tx!.reference, "0x464250524641000100000000000000000000000000000000000000000000002a");
+        assert.deepEqual(tx!.inputs.map(([address, amount]) => [address, String(amount)]), [[sender, "25000012"]]);
+        assert.deepEqual(tx!.outputs.map(([address, amount]) => [address, String(amount)]), [[receiver, "25000000"]]);
+    });
+
+    it("maps failed payment result codes to blocked status", async () => {
+        const tx = await chain.getTransaction(blockedTx);
+        assert.equal(tx!.status, TX_BLOCKED);
+        assert.isNull(tx!.reference);
+        // only the fee is spent
+        assert.deepEqual(tx!.inputs.map(([address, amount]) => [address, String(amount)]), [[sender, "15"]]);
+        assert.deepEqual(tx!.outputs.map(([address, amount]) => [address, String(amount)]), [[receiver, "0"]]);
+    });
+
+    it("returns null for missing and not validated transactions", async () => {
+        assert.isNull(await chain.getTransaction("0x" + "11".repeat(32)));
+        assert.isNull(await chain.getTransaction("0x0c6f2b8a4d1e3f5a7b9c0d2e4f6a8b0c1d3e5f7a9b0c2d4e6f8a1b3c5d7e9f0a"));
+        assert.isNull(await chain.getTransactionBlock("0x" + "11".repeat(32)));
+    });
+
+    it("looks up ledgers and balances", async () => {
+        assert.equal(await chain.getBlockHeight(), 81920002);
+        const block = await chain.getBlockAt(81920001);
+        assert.equal(block!.hash, ledgerHash);
+        assert.equal(block!.timestamp, 782300001 + 946684800);
+        assert.deepEqual(block!.transactions, [successTx, blockedTx]);
+        assert.deepEqual(await chain.getBlock(ledgerHash), block);
+        assert.deepEqual(await chain.getTransactionBlock(successTx), { hash: ledgerHash, number: 81920001 });
+        assert.isNull(await chain.getBlockAt(90000000));
+        assert.equal(String(await chain.getBalance(sender)), "974999963");
+        assert.equal(String(await chain.getBalance("rrrrrrrrrrrrrrrrrrrrrhoLvTp")), "0");
+    });
+
+    it("polls new ledgers and applies transaction filters", async () => {
+        const events = new XrpBlockChainEvents(chain);
+        const blocks: number[] = [];
+        const received: string[] = [];
+        const referenced: string[] = [];
+        events.addBlockHandler(blockId => blocks.push(blockId.number));
+        events.addTransactionHandler({ to: sender }, tx => received.push(tx.hash));
+        const subscriptionId = events.addTransactionHandler({ reference: "0x464250524641000200000000000000000000000000000000000000000000007B" }, tx => referenced.push(tx.hash));
+        // first poll only sets the starting ledger
+        await events.poll();
+        assert.equal(events.lastBlock, 81920002);
+        assert.deepEqual(blocks, []);
+        events.lastBlock = 81920001;
+        await events.poll();
+        assert.deepEqual(blocks, [81920002]);
+        assert.deepEqual(received, ["0xa1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90"]);
+        assert.deepEqual(referenced, received);
+        // removed handlers are not called
+        events.removeHandler(subscriptionId);
+        events.lastBlock = 81920001;
+        await events.poll();
+        assert.equal(referenced.length, 1);
+        assert.equal(received.length, 2);
+    });
+
+    function submittedBlobs() {
+        return stub.requests.filter(request => request.method === "submit").map(request => Buffer.from((request.params as any)[0].tx_blob, "hex"));
+    }
+
+    // the Sequence field directly follows TransactionType and Flags
+    function blobSequence(txBlob: Buffer) {
+        assert.equal(txBlob[8], 0x24);
+        return txBlob.readUInt32BE(9);
+    }
+
+    it("signs and submits payments locally", async () => {
+        const wallet = new XrpWallet(chain);
+        const address = wallet.addKey(seed);
+        assert.equal(address, "rLUEXYuLiQptky37CqLcm9USQpPiz5rkpD");
+        const reference = "0x4642505246410002000000000000000000000000000000000000000000000123";
+        const hash = await wallet.addTransaction(address, receiver, 1_000_000, reference);
+        const [txBlob] = submittedBlobs();
+        const txHex = txBlob.toString("hex").toUpperCase();
+        // transaction id is sha512-half of "TXN\0" + signed blob
+        assert.equal(hash, "0x" + createHash("sha512").update(Buffer.concat([Buffer.from("54584E00", "hex"), txBlob])).digest().subarray(0, 32).toString("hex"));
+        // the blob contains the memo with reference, sequence from account_info and the public key, followed by the signature
+        assert.include(txHex, "F9EA7D20" + reference.slice(2).toUpperCase() + "E1F1");
+        assert.equal(blobSequence(txBlob), 81910005);
+        const publicKeyField = "7321ED01FA53FA5A7E77798F882ECE20B1ABC00BB358A9E55A202D0D0676BD0CE37A63";
+        const signatureStart = txHex.indexOf(publicKeyField) / 2 + publicKeyField.length / 2;
+        assert.equal(txBlob.subarray(signatureStart, signatureStart + 2).toString("hex"), "7440");
+        // same payment signed by xrpl.js (`Wallet.fromSeed(seed).sign(tx)`) - ed25519 signatures are deterministic
+        assert.equal(txHex, xrplJsSignedBlob);
+        assert.equal(hash, "0xc542c43e3b3b30484370f51d7a348118c82e6e3d5c5cdf60df94a6879d9e9743");
+        // multi transactions need single source and target
+        await wallet.addMultiTransaction({ [address]: 1_000_012, [sender]: 5 }, { [receiver]: 1_000_000 }, null)
+            .then(() => assert.fail("should fail"), e => assert.include(String(e), "exactly one source"));
+    });
+
+    it("rejects secp256k1 seeds", async () => {
+        const wallet = new XrpWallet(chain);
+        assert.throws(() => wallet.addKey("snoPBrXtMeMyMHUVTgbuqAfg1SUTb"), /secp256k1 seeds are not supported/);
+    });
+
+    it("concurrent payments from the same account get consecutive sequence numbers", async () => {
+        const wallet = new XrpWallet(chain);
+        const address = wallet.addKey(seed);
+        // account_info (recorded once) returns the same sequence for both payments
+        const hashes = await Promise.all([
+            wallet.addTransaction(address, receiver, 1_000_000, null),
+            wallet.addTransaction(address, receiver, 2_000_000, null),
+        ]);
+        assert.notEqual(hashes[0], hashes[1]);
+        assert.deepEqual(submittedBlobs().map(blobSequence), [81910005, 81910006]);
+        // the second payment is prepared after the first is submitted
+        const methods = stub.requests.map(request => request.method);
+        assert.isBelow(methods.indexOf("submit"), methods.lastIndexOf("account_info"));
+    });
+});
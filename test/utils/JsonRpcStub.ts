@@ -0,0 +1,88 @@
+import { readFileSync } from "fs";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+
+export interface JsonRpcFixture {
+    method: string;
+    // when missing, the fixture matches any params
+    params?: unknown;
+    result?: unknown;
+    error?: { code: number | string; message: string; };
+}
+
+export interface JsonRpcStubRequest {
+    method: string;
+    params: unknown;
+}
+
+// JSON with sorted object keys, so that params match regardless of key order
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+    if (value != null && typeof value === "object") {
+        const entries = Object.entries(value).filter(([_, v]) => v !== undefined).sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Local http server that answers JSON-RPC requests from recorded fixtures (first fixture with matching method and params).
+ * Unmatched requests get a JSON-RPC error response. All received requests are recorded in `requests`.
+ */
+export class JsonRpcStub {
+    constructor(
+        public fixtures: JsonRpcFixture[],
+    ) { }
+
+    requests: JsonRpcStubRequest[] = [];
+
+    private server?: Server;
+
+    static load(path: string) {
+        return new JsonRpcStub(JSON.parse(readFileSync(path).toString()) as JsonRpcFixture[]);
+    }
+
+    // Start listening on a free local port; returns the server url.
+    start(): Promise<string> {
+        const server = createServer((req, res) => this.handleRequest(req, res));
+        this.server = server;
+        return new Promise((resolve, reject) => {
+            server.once("error", reject);
+            server.listen(0, "127.0.0.1", () => {
+                const address = server.address() as AddressInfo;
+                resolve(`http://127.0.0.1:${address.port}`);
+            });
+        });
+    }
+
+    stop(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+        return new Promise((resolve, reject) => {
+            if (server == null) return resolve();
+            server.close(err => err ? reject(err) : resolve());
+        });
+    }
+
+    findFixture(method: string, params: unknown) {
+        return this.fixtures.find(fixture => fixture.method === method
+            && (fixture.params === undefined || canonicalJson(fixture.params) === canonicalJson(params)));
+    }
+
+    private handleRequest(req: IncomingMessage, res: ServerResponse) {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk: Buffer) => chunks.push(chunk));
+        req.on("end", () => {
+            const body = JSON.parse(Buffer.concat(chunks).toString());
+            this.requests.push({ method: body.method, params: body.params });
+            const fixture = this.findFixture(body.method, body.params);
+            const response = fixture == null
+                ? { jsonrpc: body.jsonrpc, id: body.id, error: { code: -32601, message: `No fixture for ${body.method} ${canonicalJson(body.params)}` } }
+                : fixture.error != null
+                    ? { jsonrpc: body.jsonrpc, id: body.id, error: fixture.error }
+                    : { jsonrpc: body.jsonrpc, id: body.id, result: fixture.result };
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify(response));
+        });
+    }
+}
@@ -0,0 +1,90 @@
+import { AgentStatus } from "../../../lib/fasset/AssetManagerTypes";
+import { TrackedState } from "../../../lib/state/TrackedState";
+import { UnderlyingChainEvents } from "../../../lib/underlying-chain/UnderlyingChainEvents";
+import { ChainClock, IClock } from "../../../lib/utils/clock";
+import { EventExecutionQueue } from "../../../lib/utils/events/ScopedEvents";
+import { ScopedRunner } from "../../../lib/utils/events/ScopedRunner";
+import { sleep } from "../../../lib/utils/helpers";
+import { ILogger, NullLog } from "../../../lib/utils/logging";
+import { InterceptorEvmEvents } from "../../fuzzing/fasset/InterceptorEvmEvents";
+import { TruffleTransactionInterceptor } from "../../fuzzing/fasset/TransactionInterceptor";
+import { Agent } from "../../integration/utils/Agent";
+import { AssetContext } from "../../integration/utils/AssetContext";
+import { CommonContext } from "../../integration/utils/CommonContext";
+import { Minter } from "../../integration/utils/Minter";
+import { testChainInfo } from "../../integration/utils/TestChainInfo";
+import { Web3EventDecoder } from "../Web3EventDecoder";
+import { MockChain } from "./MockChain";
+import { MockStateConnectorClient } from "./MockStateConnectorClient";
+
+/**
+ * Asset manager test context with tracked state and event plumbing for running bot actors (as in ChallengerTests).
+ */
+export class BotTestEnvironment {
+    constructor(
+        public context: AssetContext,
+        public chain: MockChain,
+        public interceptor: TruffleTransactionInterceptor,
+        public eventQueue: EventExecutionQueue,
+        public chainEvents: UnderlyingChainEvents,
+        public trackedState: TrackedState,
+        public runner: ScopedRunner,
+        public logger: ILogger,
+    ) { }
+
+    static async create(accounts: string[], clock?: IClock) {
+        const governance = accounts[1];
+        const commonContext = await CommonContext.createTest(governance);
+        const context = await AssetContext.createTest(commonContext, testChainInfo.eth);
+        const chain = context.chain as MockChain;
+        // create interceptor
+        const eventDecoder = new Web3EventDecoder({});
+        const interceptor = new TruffleTransactionInterceptor(eventDecoder, accounts[0]);
+        interceptor.captureEvents({
+            assetManager: context.assetManager,
+            assetManagerController: context.assetManagerController,
+            fAsset: context.fAsset,
+            wnat: context.wNat,
+            ftsoManager: context.ftsoManager,
+        });
+        // uniform event handlers
+        const eventQueue = new EventExecutionQueue();
+        context.chainEvents.executionQueue = eventQueue;
+        const truffleEvents = new InterceptorEvmEvents(interceptor, eventQueue);
+        const trackedState = new TrackedState(context, truffleEvents, context.chainEvents, eventDecoder, eventQueue, clock ?? new ChainClock(web3, chain));
+        await trackedState.initialize();
+        // logging
+        const logger = new NullLog();
+        interceptor.logger = logger;
+        chain.logger = logger;
+        (context.stateConnectorClient as MockStateConnectorClient).logger = logger;
+        trackedState.logger = logger;
+        return new BotTestEnvironment(context, chain, interceptor, eventQueue, context.chainEvents, trackedState, new ScopedRunner(), logger);
+    }
+
+    async waitThreadsToFinish() {
+        while (this.runner.runningThreads > 0 || this.eventQueue.length > 0) {
+            this.chain.mine();
+            await sleep(20);
+            this.eventQueue.runAll();
+            await this.interceptor.allHandled();
+        }
+    }
+
+    async performMinting(minter: Minter, agent: Agent, lots: number) {
+        const crt = await minter.reserveCollateral(agent.agentVault.address, lots);
+        const txHash = await minter.performMintingPayment(crt);
+        return await minter.executeMinting(crt, txHash);
+    }
+
+    async getAgentStatus(agent: Agent) {
+        const agentInfo = await agent.getAgentInfo();
+        return Number(agentInfo.status) as AgentStatus;
+    }
+
+    // make the tracked state read the changed ftso prices
+    async finalizePriceEpoch() {
+        await this.context.ftsoManager.mockFinalizePriceEpoch();
+        await this.waitThreadsToFinish();
+    }
+}
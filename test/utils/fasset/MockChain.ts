@@ -28,6 +28,7 @@ export interface MockChainBlock {
  * Supports multi source/dest transactions, payment references and failed transaction records.
  * Everything is linear here - no support for complex concepts like finalization or forking
  * (these are handled in attestation system and are not really visible in fasset system).
+ * Reorganizations can be simulated in tests by modifying mined blocks, which reports removed and added transactions to handlers.
  */
 export class MockChain implements IBlockChain, IBlockChainEvents {
     static deepCopyWithObjectCreate = true;
@@ -47,6 +48,7 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
     nextBlockTransactions: MockChainTransaction[] = [];
     blockHandlers: { [subscriptionId: string]: BlockHandler } = {};
     transactionHandlers: { [subscriptionId: string]: [filter: Dict<string> | null, handler: TransactionHandler] } = {};
+    transactionRemovedHandlers: { [subscriptionId: string]: [filter: Dict<string> | null, handler: TransactionHandler] } = {};
 
     // some settings that can be tuned for tests
     finalizationBlocks: number = 0;
@@ -99,9 +101,16 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
         return subscriptionId;
     }
 
+    addTransactionRemovedHandler(filter: Dict<string> | null, handler: (transaction: ITransaction) => void): string {
+        const subscriptionId = String(++MockChain.lastSubscriptionId);
+        this.transactionRemovedHandlers[subscriptionId] = [filter, handler];
+        return subscriptionId;
+    }
+
     removeHandler(subscriptionId: string): void {
         delete this.blockHandlers[subscriptionId];
         delete this.transactionHandlers[subscriptionId];
+        delete this.transactionRemovedHandlers[subscriptionId];
     }
 
     ////////////////////////////////////////////////////////////////////////////////
@@ -178,17 +187,19 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
     }
 
     // Only use this in unit tests, since it makes the chain inconsistent.
+    // Transactions that are removed or added by the modification are reported to handlers, like in a chain reorganization.
     modifyMinedBlock(hashOrNumber: string | number, modify: (block: MockChainBlock) => MockChainBlock | void, changeBlockHash: boolean = false) {
         const [number, hash] = typeof hashOrNumber === 'number' ? [hashOrNumber, this.blocks[hashOrNumber].hash] : [this.blockIndex[hashOrNumber], hashOrNumber];
         if (number == null || hash == null) throw new Error("Unknown block");
         const block = this.blocks[number];
+        const oldTransactions = [...block.transactions];
         const modifiedBlock = modify(block) ?? block;
         modifiedBlock.hash = changeBlockHash
             ? web3.utils.keccak256(JSON.stringify({ number, timestamp: modifiedBlock.timestamp, transactions: modifiedBlock.transactions.map(tx => tx.hash) }))
             : block.hash;
         // delete old indexes
         delete this.blockIndex[hash];
-        for (const [i, tx] of block.transactions.entries()) {
+        for (const tx of oldTransactions) {
             delete this.transactionIndex[tx.hash];
         }
         // add changed
@@ -197,6 +208,11 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
         for (const [i, tx] of modifiedBlock.transactions.entries()) {
             this.transactionIndex[tx.hash] = [number, i];
         }
+        // execute handlers
+        const oldHashes = new Set(oldTransactions.map(tx => tx.hash));
+        const newHashes = new Set(modifiedBlock.transactions.map(tx => tx.hash));
+        this.notifyTransactionHandlers(this.transactionRemovedHandlers, oldTransactions.filter(tx => !newHashes.has(tx.hash)));
+        this.notifyTransactionHandlers(this.transactionHandlers, modifiedBlock.transactions.filter(tx => !oldHashes.has(tx.hash)));
         return modifiedBlock.hash;
     }
 
@@ -204,13 +220,22 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
     modifyMinedTransaction(txHash: string, modify: (transaction: MockChainTransaction, block: MockChainBlock) => MockChainTransaction | void, changeHash: boolean = false) {
         const [blockNumber, index] = this.transactionIndex[txHash] ?? fail("Invalid transaction hash");
         this.modifyMinedBlock(blockNumber, block => {
-            const tx = block.transactions[index];
+            // modify a copy, so that the original transaction can be reported as removed when the hash changes
+            const tx = { ...block.transactions[index] };
             const modifiedTx = modify(tx, block) ?? tx;
-            modifiedTx.hash = changeHash ? this.createTransactionHash(modifiedTx.inputs, modifiedTx.outputs, modifiedTx.reference) : tx.hash;
+            modifiedTx.hash = changeHash ? this.createTransactionHash(modifiedTx.inputs, modifiedTx.outputs, modifiedTx.reference) : txHash;
             block.transactions[index] = modifiedTx;
         }, changeHash);
     }
 
+    // Only use this in unit tests. Removes the transaction from its block (and changes the block hash), like in a chain reorganization.
+    removeMinedTransaction(txHash: string) {
+        const [blockNumber] = this.transactionIndex[txHash] ?? fail("Invalid transaction hash");
+        this.modifyMinedBlock(blockNumber, block => {
+            block.transactions = block.transactions.filter(tx => tx.hash !== txHash);
+        }, true);
+    }
+
     private addBlock(transactions: MockChainTransaction[]) {
         // check that balances stay positive
         for (let i = 0; i < transactions.length; i++) {
@@ -261,7 +286,11 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
         for (const handler of Object.values(this.blockHandlers)) {
             handler({ hash, number });
         }
-        for (const [filter, handler] of Object.values(this.transactionHandlers)) {
+        this.notifyTransactionHandlers(this.transactionHandlers, transactions);
+    }
+
+    private notifyTransactionHandlers(handlers: { [subscriptionId: string]: [filter: Dict<string> | null, handler: TransactionHandler] }, transactions: MockChainTransaction[]) {
+        for (const [filter, handler] of Object.values(handlers)) {
             for (const transaction of transactions) {
                 if (filter == null || this.filterMatches(filter, transaction)) {
                     handler(transaction);
@@ -305,7 +334,8 @@ export class MockChain implements IBlockChain, IBlockChainEvents {
 
     private toIBlock(block: MockChainBlock): IBlock {
         const txHashes = block.transactions.map(tx => tx.hash);
-        return { hash: block.hash, number: block.number, timestamp: block.timestamp, transactions: txHashes };
+        const parentHash = block.number > 0 ? this.blocks[block.number - 1]?.hash : undefined;
+        return { hash: block.hash, number: block.number, timestamp: block.timestamp, transactions: txHashes, parentHash: parentHash };
     }
 }
 
@@ -0,0 +1,39 @@
+import { IClock } from "../../../lib/utils/clock";
+import { BNish, toBN } from "../../../lib/utils/helpers";
+
+/**
+ * Deterministic clock for tests - time only changes when the test moves it.
+ */
+export class MockClock implements IClock {
+    constructor(
+        public evmTime: BN,
+        public underlyingTime: BN = evmTime,
+        public systemTime: BN = evmTime,
+    ) { }
+
+    // timestamps of specific blocks; blocks not set here are at current `evmTime`
+    blockTimestamps = new Map<number, BN>();
+
+    async evmTimestamp() {
+        return this.evmTime;
+    }
+
+    async blockTimestamp(blockNumber: number) {
+        return this.blockTimestamps.get(blockNumber) ?? this.evmTime;
+    }
+
+    async underlyingTimestamp() {
+        return this.underlyingTime;
+    }
+
+    systemTimestamp() {
+        return this.systemTime;
+    }
+
+    // move all three clocks forward by `seconds`
+    skipTime(seconds: BNish) {
+        this.evmTime = this.evmTime.add(toBN(seconds));
+        this.underlyingTime = this.underlyingTime.add(toBN(seconds));
+        this.systemTime = this.systemTime.add(toBN(seconds));
+    }
+}